@@ -1,18 +1,25 @@
 import { useState } from 'react';
 import { AnalysisResult, OpenAIComponent } from '../../lib/openai';
+import { getComponentTypeLabel } from '../../lib/openai/componentTypes';
+import { assessComponentRisk, getRiskLevelLabel, RiskAssessment, RiskLevel } from '../../lib/risk';
+import type { Provenance } from '../../lib/provenance';
+import { useI18n } from '../../lib/i18n/react';
+import ProvenanceBadge from '../ProvenanceBadge';
 
 interface AnalysisInfoPanelProps {
   data: AnalysisResult | null;
+  provenance?: Provenance | null;
 }
 
-const AnalysisInfoPanel: React.FC<AnalysisInfoPanelProps> = ({ data }) => {
+const AnalysisInfoPanel: React.FC<AnalysisInfoPanelProps> = ({ data, provenance = null }) => {
   const [selectedComponent, setSelectedComponent] = useState<string | null>(null);
+  const { locale, t } = useI18n();
   
   if (!data || !data.components || data.components.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-md p-4">
-        <h2 className="text-xl font-semibold text-gray-800 mb-3">Analyse d'infrastructure</h2>
-        <p className="text-gray-600">Aucune donnée d'analyse disponible.</p>
+        <h2 className="text-xl font-semibold text-gray-800 mb-3">{t('analysis.heading')}</h2>
+        <p className="text-gray-600">{t('analysisPanel.noData')}</p>
       </div>
     );
   }
@@ -38,7 +45,7 @@ const AnalysisInfoPanel: React.FC<AnalysisInfoPanelProps> = ({ data }) => {
     return (
       <div className="mt-1">
         <div className="flex justify-between text-xs text-gray-600 mb-1">
-          <span>Confiance</span>
+          <span>{t('analysisPanel.confidence')}</span>
           <span>{percentage}%</span>
         </div>
         <div className="w-full bg-gray-200 rounded-full h-2">
@@ -51,31 +58,48 @@ const AnalysisInfoPanel: React.FC<AnalysisInfoPanelProps> = ({ data }) => {
     );
   };
   
+  // Risk level color mapping
+  const riskColors: Record<RiskLevel, string> = {
+    critical: 'bg-red-200 text-red-900',
+    very_high: 'bg-red-100 text-red-800',
+    high: 'bg-red-100 text-red-800',
+    medium: 'bg-yellow-100 text-yellow-800',
+    low: 'bg-green-100 text-green-800',
+    very_low: 'bg-green-100 text-green-800'
+  };
+  
+  // Analyses cached before scoring existed carry no assessment; score them here
+  const getRiskAssessment = (component: OpenAIComponent): RiskAssessment => {
+    return component.riskAssessment || assessComponentRisk(component, { locale });
+  };
+  
+  // Canonical type in the interface language, so labels do not depend on the analysis language
+  const getTypeLabel = (component: OpenAIComponent): string => {
+    return getComponentTypeLabel(component.type, component.typeKey, locale);
+  };
+  
   // Helper function to render risk level indicator
-  const renderRiskIndicator = (risk: string) => {
-    const riskText = risk.toLowerCase();
-    let colorClass = 'bg-green-100 text-green-800';
-    
-    if (riskText.includes('élevé') || riskText.includes('imminent') || riskText.includes('critique')) {
-      colorClass = 'bg-red-100 text-red-800';
-    } else if (riskText.includes('moyen') || riskText.includes('modéré') || riskText.includes('attent')) {
-      colorClass = 'bg-yellow-100 text-yellow-800';
-    }
-    
+  const renderRiskIndicator = (assessment: RiskAssessment) => {
     return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${colorClass}`}>
-        {risk || 'Aucun risque identifié'}
+      <span
+        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${riskColors[assessment.level]}`}
+        title={t('analysisPanel.riskScore', { score: assessment.score })}
+      >
+        {getRiskLevelLabel(assessment.level, locale)}
       </span>
     );
   };
   
   return (
     <div className="bg-white rounded-lg shadow-md p-4">
-      <h2 className="text-xl font-semibold text-gray-800 mb-3">Analyse d'infrastructure</h2>
+      <div className="flex justify-between items-start gap-2 mb-3">
+        <h2 className="text-xl font-semibold text-gray-800">{t('analysis.heading')}</h2>
+        <ProvenanceBadge provenance={provenance} />
+      </div>
       
       {/* Components List */}
       <div className="mb-6">
-        <h3 className="text-md font-medium text-gray-700 mb-2">Composants détectés</h3>
+        <h3 className="text-md font-medium text-gray-700 mb-2">{t('analysisPanel.detected')}</h3>
         <div className="space-y-2">
           {data.components.map((component, index) => (
             <div 
@@ -88,8 +112,8 @@ const AnalysisInfoPanel: React.FC<AnalysisInfoPanelProps> = ({ data }) => {
               onClick={() => setSelectedComponent((index + 1).toString())}
             >
               <div className="flex justify-between items-start">
-                <h4 className="font-medium text-gray-800">{component.type}</h4>
-                {renderRiskIndicator(component.risks)}
+                <h4 className="font-medium text-gray-800">{getTypeLabel(component)}</h4>
+                {renderRiskIndicator(getRiskAssessment(component))}
               </div>
               {renderConfidence(component.confidence)}
             </div>
@@ -100,41 +124,54 @@ const AnalysisInfoPanel: React.FC<AnalysisInfoPanelProps> = ({ data }) => {
       {/* Selected Component Details */}
       {selectedDetails && (
         <div className="border-t border-gray-200 pt-4">
-          <h3 className="text-md font-medium text-gray-700 mb-3">Détails du composant</h3>
+          <h3 className="text-md font-medium text-gray-700 mb-3">{t('analysisPanel.componentDetails')}</h3>
           
           <div className="space-y-3">
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Type</h4>
-              <p className="text-gray-800">{selectedDetails.type}</p>
+              <h4 className="text-sm font-medium text-gray-500">{t('analysisPanel.type')}</h4>
+              <p className="text-gray-800">{getTypeLabel(selectedDetails)}</p>
             </div>
             
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Détails</h4>
+              <h4 className="text-sm font-medium text-gray-500">{t('analysisPanel.details')}</h4>
               <p className="text-gray-800">{selectedDetails.details}</p>
             </div>
             
             <div>
-              <h4 className="text-sm font-medium text-gray-500">État</h4>
+              <h4 className="text-sm font-medium text-gray-500">{t('analysisPanel.condition')}</h4>
               <p className="text-gray-800">{selectedDetails.condition}</p>
             </div>
             
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Risques liés à la végétation</h4>
+              <h4 className="text-sm font-medium text-gray-500">{t('analysisPanel.risks')}</h4>
               <p className="text-gray-800">{selectedDetails.risks}</p>
             </div>
+            
+            <div>
+              <h4 className="text-sm font-medium text-gray-500">
+                {t('analysisPanel.riskScore', { score: getRiskAssessment(selectedDetails).score })}
+              </h4>
+              <ul className="text-sm text-gray-700 space-y-0.5">
+                {getRiskAssessment(selectedDetails).factors.map(factor => (
+                  <li key={factor.id}>
+                    {t(`risk.factor.${factor.id}`)}: {factor.points}/{factor.maxPoints} ({factor.detail})
+                  </li>
+                ))}
+              </ul>
+            </div>
           </div>
         </div>
       )}
       
       {/* Educational Content */}
       <div className="border-t border-gray-200 pt-4 mt-6">
-        <h3 className="text-md font-medium text-gray-700 mb-2">Information éducative</h3>
+        <h3 className="text-md font-medium text-gray-700 mb-2">{t('analysisPanel.education')}</h3>
         <div className="bg-blue-50 p-3 rounded-md">
           <p className="text-sm text-gray-700 mb-2">
-            <span className="font-semibold">Saviez-vous que?</span> La végétation est responsable de près de 40% des pannes d'électricité au Québec.
+            <span className="font-semibold">{t('analysisPanel.didYouKnow')}</span> {t('analysisPanel.fact')}
           </p>
           <p className="text-sm text-gray-700">
-            Une surveillance régulière et un entretien préventif peuvent réduire significativement les risques d'interruption de service.
+            {t('analysisPanel.prevention')}
           </p>
         </div>
       </div>
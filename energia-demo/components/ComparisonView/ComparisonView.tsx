@@ -1,22 +1,38 @@
 import { useState, useEffect } from 'react'
 import dynamic from 'next/dynamic'
+import type { Provenance } from '../../lib/provenance'
+import { useI18n } from '../../lib/i18n/react'
+import ProvenanceBadge from '../ProvenanceBadge'
 
 // Import Image component with client-side only rendering
 const Image = dynamic(() => import('next/image'), { ssr: false })
 
+// Data URLs and /api/images URLs are used as they are, other paths name files under public/. Served
+// images come already resized, so they skip the Next image optimizer.
+const getImageProps = (image: string) => {
+  const src = image.startsWith('data:') || image.startsWith('/') ? image : `/${image}`
+  return { src, unoptimized: src.startsWith('/api/images/') }
+}
+
 type ComparisonViewProps = {
   currentImage: string
   futureImage: string
   viewMode: 'toggle' | 'sideBySide'
   activeView: 'current' | 'future'
+  projectionYear: number
+  // Provenance of the projected image
+  futureProvenance?: Provenance | null
 }
 
 const ComparisonView: React.FC<ComparisonViewProps> = ({
   currentImage,
   futureImage,
   viewMode,
-  activeView
+  activeView,
+  projectionYear,
+  futureProvenance = null
 }) => {
+  const { t } = useI18n()
   const [sliderPosition, setSliderPosition] = useState(50)
   const [isDragging, setIsDragging] = useState(false)
 
@@ -67,13 +83,13 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
       <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="relative w-full aspect-square max-h-[600px] bg-gray-100 rounded-lg overflow-hidden">
           <div className="absolute top-0 left-0 bg-green-600 text-white text-xs font-bold px-2 py-1 m-2 rounded z-10">
-            ACTUEL
+            {t('comparison.current')}
           </div>
           <div className="relative w-full h-full">
             {currentImage && (
               <Image
-                src={currentImage.startsWith('data:') ? currentImage : `/${currentImage}`}
-                alt="Image actuelle"
+                {...getImageProps(currentImage)}
+                alt={t('comparison.currentAlt')}
                 layout="fill"
                 objectFit="contain"
               />
@@ -82,13 +98,16 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
         </div>
         <div className="relative w-full aspect-square max-h-[600px] bg-gray-100 rounded-lg overflow-hidden">
           <div className="absolute top-0 left-0 bg-amber-600 text-white text-xs font-bold px-2 py-1 m-2 rounded z-10">
-            PROJECTION 2030
+            {t('comparison.projection', { year: projectionYear })}
+          </div>
+          <div className="absolute top-0 right-0 m-2 z-20">
+            <ProvenanceBadge provenance={futureProvenance} />
           </div>
           <div className="relative w-full h-full">
             {futureImage && (
               <Image
-                src={futureImage.startsWith('data:') ? futureImage : `/${futureImage}`}
-                alt="Projection future"
+                {...getImageProps(futureImage)}
+                alt={t('comparison.futureAlt')}
                 layout="fill"
                 objectFit="contain"
               />
@@ -104,13 +123,13 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     return (
       <div className="relative w-full aspect-square max-h-[600px] bg-gray-100 rounded-lg overflow-hidden">
         <div className="absolute top-0 left-0 bg-green-600 text-white text-xs font-bold px-2 py-1 m-2 rounded z-10">
-          ACTUEL
+          {t('comparison.current')}
         </div>
         <div className="relative w-full h-full">
           {currentImage && (
             <Image
-              src={currentImage.startsWith('data:') ? currentImage : `/${currentImage}`}
-              alt="Image actuelle"
+              {...getImageProps(currentImage)}
+              alt={t('comparison.currentAlt')}
               layout="fill"
               objectFit="contain"
             />
@@ -130,14 +149,17 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
       onTouchCancel={() => setIsDragging(false)}
     >
       <div className="absolute top-0 left-0 bg-amber-600 text-white text-xs font-bold px-2 py-1 m-2 rounded z-10">
-        PROJECTION 2030
+        {t('comparison.projection', { year: projectionYear })}
+      </div>
+      <div className="absolute top-0 right-0 m-2 z-20">
+        <ProvenanceBadge provenance={futureProvenance} />
       </div>
       {/* Future image base layer */}
       <div className="relative w-full h-full">
         {futureImage && (
           <Image
-            src={futureImage.startsWith('data:') ? futureImage : `/${futureImage}`}
-            alt="Projection future"
+            {...getImageProps(futureImage)}
+            alt={t('comparison.futureAlt')}
             layout="fill"
             objectFit="contain"
           />
@@ -152,8 +174,8 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
         <div className="relative w-full h-full">
           {currentImage && (
             <Image
-              src={currentImage.startsWith('data:') ? currentImage : `/${currentImage}`}
-              alt="Image actuelle"
+              {...getImageProps(currentImage)}
+              alt={t('comparison.currentAlt')}
               layout="fill"
               objectFit="contain"
               className="object-cover"
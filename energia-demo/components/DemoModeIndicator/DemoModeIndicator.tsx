@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { getDemoStatus, DEMO_SCENARIOS, changeScenario, deactivateDemoMode } from '../../lib/demoMode';
+import { getDemoStatus, DEMO_SCENARIOS, changeScenario, deactivateDemoMode, isDemoModeRequested, isProvenanceHidden, setProvenanceHidden } from '../../lib/demoMode';
+import { useI18n } from '../../lib/i18n/react';
 
 interface DemoModeIndicatorProps {
   position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
@@ -8,10 +9,14 @@ interface DemoModeIndicatorProps {
 const DemoModeIndicator: React.FC<DemoModeIndicatorProps> = ({ 
   position = 'bottom-right' 
 }) => {
+  const { t } = useI18n();
   const [demoActive, setDemoActive] = useState(false);
   const [scenarioName, setScenarioName] = useState('');
   const [expanded, setExpanded] = useState(false);
   const [scenarios, setScenarios] = useState<Array<{id: string, name: string}>>([]);
+  // Provenance badges can only be hidden in a demo mode turned on on purpose
+  const [canHideProvenance, setCanHideProvenance] = useState(false);
+  const [provenanceHidden, setProvenanceHiddenState] = useState(false);
   
   // Position classes
   const positionClasses = {
@@ -29,6 +34,8 @@ const DemoModeIndicator: React.FC<DemoModeIndicatorProps> = ({
     const checkDemoStatus = () => {
       const { enabled, scenario } = getDemoStatus();
       setDemoActive(enabled);
+      setCanHideProvenance(isDemoModeRequested());
+      setProvenanceHiddenState(isProvenanceHidden());
       
       if (enabled && DEMO_SCENARIOS[scenario]) {
         setScenarioName(DEMO_SCENARIOS[scenario].name);
@@ -61,6 +68,11 @@ const DemoModeIndicator: React.FC<DemoModeIndicatorProps> = ({
     setExpanded(false);
   };
   
+  const handleProvenanceToggle = (hidden: boolean) => {
+    setProvenanceHidden(hidden);
+    setProvenanceHiddenState(hidden);
+  };
+  
   // Handle demo mode deactivation
   const handleDeactivate = () => {
     deactivateDemoMode();
@@ -77,23 +89,24 @@ const DemoModeIndicator: React.FC<DemoModeIndicatorProps> = ({
           onClick={() => setExpanded(true)}
         >
           <div className="h-3 w-3 rounded-full bg-white mr-2 animate-pulse"></div>
-          <div>Demo Mode: {scenarioName}</div>
+          <div>{t('demo.badge', { scenario: scenarioName })}</div>
         </div>
       ) : (
         /* Expanded mode - show controls */
         <div className="space-y-3">
           <div className="flex justify-between items-center">
-            <h4 className="font-bold">Demo Mode Controls</h4>
+            <h4 className="font-bold">{t('demo.controls')}</h4>
             <button 
               className="text-white hover:text-amber-200"
               onClick={() => setExpanded(false)}
+              aria-label={t('common.close')}
             >
               ✕
             </button>
           </div>
           
           <div className="space-y-2">
-            <div className="text-sm">Current Scenario:</div>
+            <div className="text-sm">{t('demo.currentScenario')}</div>
             <select 
               value={scenarioName}
               onChange={(e) => {
@@ -110,19 +123,31 @@ const DemoModeIndicator: React.FC<DemoModeIndicatorProps> = ({
             </select>
           </div>
           
+          {canHideProvenance && (
+            <label className="flex items-center text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={provenanceHidden}
+                onChange={(e) => handleProvenanceToggle(e.target.checked)}
+                className="mr-2"
+              />
+              {t('demo.hideProvenance')}
+            </label>
+          )}
+          
           <div className="pt-2 border-t border-amber-500 flex justify-between">
             <button
               onClick={handleDeactivate}
               className="bg-amber-700 hover:bg-amber-800 text-white px-3 py-1 rounded text-sm"
             >
-              Exit Demo Mode
+              {t('demo.exit')}
             </button>
             
             <button
               onClick={() => setExpanded(false)}
               className="bg-amber-500 hover:bg-amber-600 text-white px-3 py-1 rounded text-sm"
             >
-              Close
+              {t('common.close')}
             </button>
           </div>
         </div>
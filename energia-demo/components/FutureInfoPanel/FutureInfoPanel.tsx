@@ -1,59 +1,69 @@
 import React from 'react';
 import { FutureAnalysis } from '../../lib/openai';
-
-type RiskLevel = 'Élevé' | 'Très élevé' | 'Moyen' | 'Faible' | 'Critique' | 'Très faible';
-
-type RiskColorMap = {
-  [key in RiskLevel]: string;
-};
+import { getComponentTypeLabel } from '../../lib/openai/componentTypes';
+import { DEFAULT_HORIZON_YEARS, formatHorizon } from '../../lib/projection';
+import { getRiskLevelLabel, parseRiskLevel, RiskLevel } from '../../lib/risk';
+import { formatMeters } from '../../lib/growth';
+import type { Provenance } from '../../lib/provenance';
+import { useI18n } from '../../lib/i18n/react';
+import ProvenanceBadge from '../ProvenanceBadge';
 
 type FutureInfoPanelProps = {
   data: FutureAnalysis | null;
   viewMode: 'current' | 'future';
+  // Provenance of the projected risks
+  provenance?: Provenance | null;
 };
 
-const FutureInfoPanel: React.FC<FutureInfoPanelProps> = ({ data, viewMode }) => {
+const FutureInfoPanel: React.FC<FutureInfoPanelProps> = ({ data, viewMode, provenance = null }) => {
+  const { locale, t } = useI18n();
+
   if (!data) {
     return (
       <div className="bg-white p-4 rounded-lg shadow-md">
-        <h2 className="text-xl font-bold mb-4">Analyse indisponible</h2>
-        <p>Les données d'analyse ne sont pas disponibles pour le moment.</p>
+        <h2 className="text-xl font-bold mb-4">{t('futurePanel.unavailable')}</h2>
+        <p>{t('futurePanel.unavailableText')}</p>
       </div>
     );
   }
 
   // Risk level color mapping
-  const riskColors: RiskColorMap = {
-    'Très élevé': 'bg-red-700',
-    'Critique': 'bg-red-600',
-    'Élevé': 'bg-red-500',
-    'Moyen': 'bg-yellow-500',
-    'Faible': 'bg-green-500',
-    'Très faible': 'bg-green-700'
+  const riskColors: Record<RiskLevel, string> = {
+    critical: 'bg-red-700',
+    very_high: 'bg-red-600',
+    high: 'bg-red-500',
+    medium: 'bg-yellow-500',
+    low: 'bg-green-500',
+    very_low: 'bg-green-700'
   };
 
-  // Get color class based on risk level
+  // Get color class based on risk level (older projections stored a translated label)
   const getRiskColorClass = (risk: string): string => {
-    return riskColors[risk as RiskLevel] || 'bg-gray-500';
+    const level = parseRiskLevel(risk);
+    return level ? riskColors[level] : 'bg-gray-500';
+  };
+
+  const getRiskLabel = (risk: string): string => {
+    const level = parseRiskLevel(risk);
+    return level ? getRiskLevelLabel(level, locale) : risk;
   };
 
   if (viewMode === 'current') {
     return (
       <div className="bg-white p-4 rounded-lg shadow-md">
         <div className="bg-green-100 rounded-md p-3 mb-4">
-          <h2 className="text-xl font-bold text-green-800">État actuel</h2>
+          <h2 className="text-xl font-bold text-green-800">{t('futurePanel.current')}</h2>
           <p className="text-sm text-green-700">
-            Basculez vers la vue future pour voir la projection de la croissance végétative
-            et les risques potentiels dans 5 ans.
+            {t('futurePanel.currentText', { horizon: formatHorizon(data.horizonYears ?? DEFAULT_HORIZON_YEARS, locale) })}
           </p>
         </div>
 
         <div className="mt-4">
-          <h3 className="text-lg font-semibold mb-2">Mesures recommandées</h3>
+          <h3 className="text-lg font-semibold mb-2">{t('futurePanel.recommendedMeasures')}</h3>
           <ul className="list-disc list-inside text-sm space-y-1">
-            <li>Effectuer une inspection régulière</li>
-            <li>Mettre en place un plan d'entretien</li>
-            <li>Documenter l'état actuel pour référence future</li>
+            <li>{t('futurePanel.measure.inspection')}</li>
+            <li>{t('futurePanel.measure.maintenance')}</li>
+            <li>{t('futurePanel.measure.document')}</li>
           </ul>
         </div>
       </div>
@@ -63,38 +73,73 @@ const FutureInfoPanel: React.FC<FutureInfoPanelProps> = ({ data, viewMode }) =>
   return (
     <div className="bg-white p-4 rounded-lg shadow-md">
       <div className="bg-amber-100 rounded-md p-3 mb-4">
-        <h2 className="text-xl font-bold text-amber-800">Projection future</h2>
+        <div className="flex justify-between items-start gap-2">
+          <h2 className="text-xl font-bold text-amber-800">{t('futurePanel.future')}</h2>
+          <ProvenanceBadge provenance={provenance} />
+        </div>
         <p className="text-sm text-amber-700">
-          Projection estimée pour <span className="font-bold">{data.projectionDate}</span>
+          {t('futurePanel.estimatedFor')} <span className="font-bold">{data.projectionDate}</span>
         </p>
       </div>
 
       <div className="mb-4">
-        <h3 className="text-lg font-semibold mb-2">Croissance végétative</h3>
+        <h3 className="text-lg font-semibold mb-2">{t('futurePanel.vegetationGrowth')}</h3>
         <div className="bg-gray-100 p-3 rounded-md">
           <p className="text-sm">{data.vegetationGrowth}</p>
         </div>
       </div>
 
       <div className="mb-4">
-        <h3 className="text-lg font-semibold mb-2">Risques potentiels</h3>
+        <h3 className="text-lg font-semibold mb-2">{t('futurePanel.potentialRisks')}</h3>
         <div className="space-y-3">
           {data.potentialIssues.map((issue, index) => (
             <div key={index} className="border border-gray-200 rounded-md p-3">
               <div className="flex items-center justify-between mb-2">
-                <span className="font-medium">{issue.component}</span>
+                <span className="font-medium">{getComponentTypeLabel(issue.component, issue.componentKey, locale)}</span>
                 <span className={`text-xs text-white px-2 py-1 rounded-full ${getRiskColorClass(issue.risk)}`}>
-                  {issue.risk}
+                  {getRiskLabel(issue.risk)}{issue.score !== undefined && ` · ${issue.score}/100`}
                 </span>
               </div>
               <p className="text-sm text-gray-700">{issue.description}</p>
+              {issue.factors && (
+                <details className="mt-2 text-xs text-gray-600">
+                  <summary className="cursor-pointer">{t('futurePanel.riskFactors')}</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {issue.factors.map(factor => (
+                      <li key={factor.id}>
+                        {t(`risk.factor.${factor.id}`)}: {factor.points}/{factor.maxPoints} ({factor.detail})
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              {issue.assumptions && (
+                <details className="mt-2 text-xs text-gray-600">
+                  <summary className="cursor-pointer">{t('futurePanel.assumptions')}</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    <li>{t('futurePanel.assumption.species', { species: t(`species.${issue.assumptions.species}`) })}</li>
+                    <li>{t('futurePanel.assumption.height', { height: formatMeters(issue.assumptions.heightMeters, locale) })}</li>
+                    <li>
+                      {t(issue.assumptions.position === 'below' ? 'futurePanel.assumption.distanceBelow' : 'futurePanel.assumption.distanceBeside', {
+                        distance: formatMeters(issue.assumptions.clearanceMeters, locale)
+                      })}
+                    </li>
+                    <li>{t('futurePanel.assumption.growth', { growth: formatMeters(issue.assumptions.annualGrowthMeters, locale) })}</li>
+                    {issue.assumptions.matureHeightMeters !== undefined && (
+                      <li>{t('futurePanel.assumption.matureHeight', { height: formatMeters(issue.assumptions.matureHeightMeters, locale) })}</li>
+                    )}
+                    <li>{t('futurePanel.assumption.clearance', { clearance: formatMeters(issue.assumptions.requiredClearanceMeters, locale) })}</li>
+                    <li>{t('futurePanel.assumption.table', { version: issue.assumptions.tableVersion })}</li>
+                  </ul>
+                </details>
+              )}
             </div>
           ))}
         </div>
       </div>
 
       <div className="mt-4">
-        <h3 className="text-lg font-semibold mb-2">Recommandations</h3>
+        <h3 className="text-lg font-semibold mb-2">{t('futurePanel.recommendations')}</h3>
         <ul className="list-disc list-inside text-sm space-y-1">
           {data.recommendations.map((recommendation, index) => (
             <li key={index} className="text-gray-700">{recommendation}</li>
@@ -104,8 +149,8 @@ const FutureInfoPanel: React.FC<FutureInfoPanelProps> = ({ data, viewMode }) =>
 
       <div className="mt-6 pt-4 border-t border-gray-200">
         <div className="text-xs text-gray-500">
-          <p className="font-medium mb-1">Note:</p>
-          <p>Cette projection est basée sur les taux de croissance moyens des espèces végétales identifiées et les conditions climatiques typiques de la région.</p>
+          <p className="font-medium mb-1">{t('futurePanel.note')}</p>
+          <p>{t('futurePanel.noteText')}</p>
         </div>
       </div>
     </div>
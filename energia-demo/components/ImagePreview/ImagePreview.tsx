@@ -1,5 +1,6 @@
 import Image from 'next/image'
 import { useState, useEffect } from 'react'
+import { useI18n } from '../../lib/i18n/react'
 
 type ImagePreviewProps = {
   image: string
@@ -8,6 +9,7 @@ type ImagePreviewProps = {
 }
 
 const ImagePreview = ({ image, onConfirm, onRetake }: ImagePreviewProps) => {
+  const { t } = useI18n()
   const [isLoading, setIsLoading] = useState(true)
   const [imageValid, setImageValid] = useState(true)
   const [zoomLevel, setZoomLevel] = useState(1)
@@ -41,7 +43,7 @@ const ImagePreview = ({ image, onConfirm, onRetake }: ImagePreviewProps) => {
     return (
       <div className="w-full max-w-2xl mx-auto text-center">
         <div className="animate-pulse bg-gray-200 rounded-lg h-72 md:h-96 flex items-center justify-center">
-          <p className="text-gray-500">Loading image...</p>
+          <p className="text-gray-500">{t('preview.loading')}</p>
         </div>
       </div>
     )
@@ -51,13 +53,13 @@ const ImagePreview = ({ image, onConfirm, onRetake }: ImagePreviewProps) => {
     return (
       <div className="w-full max-w-2xl mx-auto text-center">
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
-          <p>Invalid image. Please try again.</p>
+          <p>{t('preview.invalid')}</p>
         </div>
         <button
           onClick={onRetake}
           className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md shadow-md transition-colors"
         >
-          Try Again
+          {t('preview.tryAgain')}
         </button>
       </div>
     )
@@ -74,7 +76,7 @@ const ImagePreview = ({ image, onConfirm, onRetake }: ImagePreviewProps) => {
           >
             <img
               src={image}
-              alt="Preview"
+              alt={t('preview.alt')}
               className="max-h-full max-w-full object-contain"
             />
           </div>
@@ -105,23 +107,23 @@ const ImagePreview = ({ image, onConfirm, onRetake }: ImagePreviewProps) => {
         <div className="p-4 bg-gray-50 border-t">
           <div className="text-center">
             <h3 className="text-lg font-medium text-gray-900 mb-2">
-              Ready to analyze?
+              {t('preview.readyTitle')}
             </h3>
             <p className="text-sm text-gray-500 mb-4">
-              This image will be analyzed for electrical infrastructure components and vegetation assessment.
+              {t('preview.readyText')}
             </p>
             <div className="flex justify-center space-x-4">
               <button
                 onClick={onRetake}
                 className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none transition-colors"
               >
-                Retake
+                {t('preview.retake')}
               </button>
               <button
                 onClick={onConfirm}
                 className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md shadow-sm transition-colors"
               >
-                Analyze Image
+                {t('preview.analyze')}
               </button>
             </div>
           </div>
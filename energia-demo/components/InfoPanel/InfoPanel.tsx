@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react'
+import { getRiskLevelLabel, RiskLevel } from '../../lib/risk'
+import { useI18n } from '../../lib/i18n/react'
 
 type LocationData = {
   name: string;
@@ -14,13 +16,15 @@ type InfoPanelProps = {
   location: LocationData;
 }
 
+type VegetationDensity = 'low' | 'medium' | 'high'
+
+// Codes only; labels and dates are rendered in the interface language
 interface ZoneInfo {
-  name: string
-  type: string
-  vegetation: string
-  risk: string
-  lastInspection: string
-  nextInspection: string
+  type: 'urban'
+  vegetation: VegetationDensity
+  risk: RiskLevel
+  lastInspection: Date
+  nextInspection: Date
   infrastructureCount: number
   maintenanceStatus: 'good' | 'warning' | 'critical'
 }
@@ -34,15 +38,22 @@ const getColorByStatus = (status: string) => {
   }
 }
 
+// Width of the vegetation bar for each density
+const vegetationBarWidth: Record<VegetationDensity, string> = {
+  low: '30%',
+  medium: '60%',
+  high: '90%'
+}
+
 const InfoPanel = ({ location }: InfoPanelProps) => {
+  const { locale, t } = useI18n();
   const [isVisible, setIsVisible] = useState(false);
   const [zoneInfo, setZoneInfo] = useState<ZoneInfo>({
-    name: location.name || "Montréal - Centre-Ville",
-    type: "Urbaine",
-    vegetation: location.vegetation > 60 ? "Élevée" : location.vegetation > 30 ? "Moyenne" : "Faible",
-    risk: location.vegetation > 60 ? "Élevé" : location.vegetation > 30 ? "Moyen" : "Faible",
-    lastInspection: "15 jan. 2024",
-    nextInspection: "15 jan. 2025",
+    type: 'urban',
+    vegetation: location.vegetation > 60 ? 'high' : location.vegetation > 30 ? 'medium' : 'low',
+    risk: location.vegetation > 60 ? 'high' : location.vegetation > 30 ? 'medium' : 'low',
+    lastInspection: new Date(2024, 0, 15),
+    nextInspection: new Date(2025, 0, 15),
     infrastructureCount: 8,
     maintenanceStatus: location.status === "critical" ? "critical" : 
                        location.status === "warning" ? "warning" : "good"
@@ -55,6 +66,9 @@ const InfoPanel = ({ location }: InfoPanelProps) => {
     return () => clearTimeout(timer);
   }, [location]);
   
+  const formatInspectionDate = (date: Date) =>
+    date.toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+  
   return (
     <div 
       className={`bg-white p-5 rounded-lg shadow-lg mb-4 transition-all duration-500 border border-gray-100 ${
@@ -62,56 +76,53 @@ const InfoPanel = ({ location }: InfoPanelProps) => {
       }`}
     >
       <div className="flex justify-between items-center mb-3">
-        <h2 className="text-xl font-bold text-gray-800">Information sur la zone</h2>
+        <h2 className="text-xl font-bold text-gray-800">{t('home.zoneInfo')}</h2>
         <div className={`px-3 py-1 rounded-full text-sm font-medium ${getColorByStatus(zoneInfo.maintenanceStatus)}`}>
-          {zoneInfo.maintenanceStatus === 'good' && 'État: Bon'}
-          {zoneInfo.maintenanceStatus === 'warning' && 'État: À surveiller'}
-          {zoneInfo.maintenanceStatus === 'critical' && 'État: Critique'}
+          {t(`infoPanel.status.${zoneInfo.maintenanceStatus}`)}
         </div>
       </div>
       
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-3">
         <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-          <p className="text-sm font-medium text-gray-600">Zone</p>
-          <p className="font-semibold">{zoneInfo.name}</p>
-          <p className="text-xs text-gray-500 mt-1">Type: {zoneInfo.type}</p>
+          <p className="text-sm font-medium text-gray-600">{t('infoPanel.zone')}</p>
+          <p className="font-semibold">{location.name || t('home.defaultZone')}</p>
+          <p className="text-xs text-gray-500 mt-1">{t('infoPanel.zoneType', { type: t(`infoPanel.zoneType.${zoneInfo.type}`) })}</p>
         </div>
         
         <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-          <p className="text-sm font-medium text-gray-600">Coordonnées</p>
+          <p className="text-sm font-medium text-gray-600">{t('infoPanel.coordinates')}</p>
           <p className="font-mono text-sm">{location.coordinates.lat.toFixed(5)}, {location.coordinates.lng.toFixed(5)}</p>
-          <p className="text-xs text-gray-500 mt-1">Région: Québec, Canada</p>
+          <p className="text-xs text-gray-500 mt-1">{t('infoPanel.region')}</p>
         </div>
         
         <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-          <p className="text-sm font-medium text-gray-600">Végétation</p>
+          <p className="text-sm font-medium text-gray-600">{t('infoPanel.vegetation')}</p>
           <div className="flex items-center mt-1">
             <div className="w-full bg-gray-200 rounded-full h-2">
               <div 
                 className="bg-green-500 h-2 rounded-full" 
-                style={{ width: zoneInfo.vegetation === 'Faible' ? '30%' : zoneInfo.vegetation === 'Moyenne' ? '60%' : '90%' }}
+                style={{ width: vegetationBarWidth[zoneInfo.vegetation] }}
               ></div>
             </div>
-            <span className="ml-2 text-sm">{zoneInfo.vegetation}</span>
+            <span className="ml-2 text-sm">{t(`infoPanel.vegetation.${zoneInfo.vegetation}`)}</span>
           </div>
-          <p className="text-xs text-gray-500 mt-1">Niveau de risque: {zoneInfo.risk}</p>
+          <p className="text-xs text-gray-500 mt-1">{t('infoPanel.riskLevel', { risk: getRiskLevelLabel(zoneInfo.risk, locale) })}</p>
         </div>
         
         <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-          <p className="text-sm font-medium text-gray-600">Inspections</p>
-          <p className="text-sm">Dernière: <span className="font-medium">{zoneInfo.lastInspection}</span></p>
-          <p className="text-sm">Prochaine: <span className="font-medium">{zoneInfo.nextInspection}</span></p>
+          <p className="text-sm font-medium text-gray-600">{t('infoPanel.inspections')}</p>
+          <p className="text-sm">{t('infoPanel.lastInspection')} <span className="font-medium">{formatInspectionDate(zoneInfo.lastInspection)}</span></p>
+          <p className="text-sm">{t('infoPanel.nextInspection')} <span className="font-medium">{formatInspectionDate(zoneInfo.nextInspection)}</span></p>
         </div>
       </div>
       
       <div className="mt-3 pt-3 border-t border-gray-200">
         <div className="flex justify-between items-center">
           <p className="text-sm">
-            <span className="font-medium">Infrastructures:</span> {zoneInfo.infrastructureCount} équipements 
-            détectés dans cette zone
+            <span className="font-medium">{t('infoPanel.infrastructure')}</span> {t('infoPanel.infrastructureCount', { count: zoneInfo.infrastructureCount })}
           </p>
           <button className="text-blue-600 text-sm hover:text-blue-800 transition-colors">
-            Voir tout
+            {t('infoPanel.viewAll')}
           </button>
         </div>
       </div>
@@ -3,6 +3,8 @@ import Head from 'next/head'
 import { useRouter } from 'next/router'
 import dynamic from 'next/dynamic'
 import { motion, AnimatePresence } from 'framer-motion'
+import { LOCALES } from '../../lib/i18n'
+import { useI18n } from '../../lib/i18n/react'
 
 // Import DemoModeIndicator with client-side only rendering
 const DemoModeIndicator = dynamic(
@@ -17,6 +19,7 @@ type LayoutProps = {
 
 const Layout = ({ children, title = 'ÉnergIA' }: LayoutProps) => {
   const router = useRouter()
+  const { locale, setLocale, t } = useI18n()
   const [isMounted, setIsMounted] = useState(false)
   
   // Set mounted state after component mounts
@@ -52,7 +55,7 @@ const Layout = ({ children, title = 'ÉnergIA' }: LayoutProps) => {
     <div className="min-h-screen flex flex-col bg-secondary-50">
       <Head>
         <title>{title}</title>
-        <meta name="description" content="ÉnergIA - Hydro-Québec Hackathon Demo" />
+        <meta name="description" content={t('layout.description')} />
         <meta name="theme-color" content="#2563EB" />
         <link rel="icon" href="/favicon.ico" />
         <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&family=Poppins:wght@500;600;700&display=swap" rel="stylesheet" />
@@ -86,7 +89,7 @@ const Layout = ({ children, title = 'ÉnergIA' }: LayoutProps) => {
                   : 'hover:bg-white hover:bg-opacity-10'
               }`}
             >
-              Accueil
+              {t('layout.nav.home')}
             </button>
             
             {router.pathname !== '/capture' && (
@@ -98,9 +101,29 @@ const Layout = ({ children, title = 'ÉnergIA' }: LayoutProps) => {
                     : 'hover:bg-white hover:bg-opacity-10'
                 }`}
               >
-                Capture
+                {t('layout.nav.capture')}
               </button>
             )}
+            
+            {/* Locale switch */}
+            <div className="flex ml-3 rounded-md overflow-hidden border border-white border-opacity-30" role="group" aria-label={t('layout.language')}>
+              {LOCALES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setLocale(option)}
+                  lang={option}
+                  title={t(`locale.${option}`)}
+                  aria-pressed={locale === option}
+                  className={`px-2 py-1 text-xs font-semibold transition-colors duration-200 ${
+                    locale === option
+                      ? 'bg-white text-primary-700'
+                      : 'hover:bg-white hover:bg-opacity-10'
+                  }`}
+                >
+                  {option.split('-')[0].toUpperCase()}
+                </button>
+              ))}
+            </div>
           </motion.nav>
         </div>
       </header>
@@ -132,7 +155,7 @@ const Layout = ({ children, title = 'ÉnergIA' }: LayoutProps) => {
               animate={{ opacity: 1 }}
               transition={{ duration: 0.5, delay: 0.3 }}
             >
-              ÉnergIA - Hackathon Demo pour Hydro-Québec
+              {t('layout.footer')}
             </motion.p>
             <motion.div 
               className="flex space-x-4"
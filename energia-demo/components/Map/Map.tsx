@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import dynamic from 'next/dynamic'
 import Image from 'next/image'
+import { useI18n } from '../../lib/i18n/react'
 
 // Using dynamic import without SSR since Leaflet requires window object
 const MapContainer = dynamic(
@@ -41,6 +42,7 @@ type MapProps = {
 }
 
 const Map = ({ location }: MapProps) => {
+  const { t } = useI18n()
   const [isLoaded, setIsLoaded] = useState(false)
 
   useEffect(() => {
@@ -87,9 +89,9 @@ const Map = ({ location }: MapProps) => {
         <ZoomControl position="bottomright" />
         <Marker position={[location.lat, location.lng]}>
           <Popup className="custom-popup">
-            <div className="font-medium">Infrastructure électrique</div>
-            <div className="text-sm text-gray-600">Position: {location.lat.toFixed(4)}, {location.lng.toFixed(4)}</div>
-            <div className="text-xs mt-1 text-blue-600">Cliquez pour plus d'info</div>
+            <div className="font-medium">{t('map.popup.title')}</div>
+            <div className="text-sm text-gray-600">{t('map.popup.position', { position: `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}` })}</div>
+            <div className="text-xs mt-1 text-blue-600">{t('map.popup.more')}</div>
           </Popup>
         </Marker>
         <Circle
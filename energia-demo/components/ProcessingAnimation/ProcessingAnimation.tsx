@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { useI18n } from '../../lib/i18n/react'
 
 type ProcessingAnimationProps = {
   step?: number;
@@ -13,15 +14,16 @@ const ProcessingAnimation: React.FC<ProcessingAnimationProps> = ({
   customSteps,
   autoProgress = true
 }) => {
+  const { t } = useI18n()
   const [progress, setProgress] = useState(0)
   const [currentStep, setCurrentStep] = useState(step)
   
   const defaultSteps = [
-    'Analyzing electrical components...',
-    'Detecting vegetation features...',
-    'Assessing infrastructure conditions...',
-    'Calculating vegetation density...',
-    'Preparing detailed analysis...'
+    t('processing.step.components'),
+    t('processing.step.vegetation'),
+    t('processing.step.conditions'),
+    t('processing.step.density'),
+    t('processing.step.report')
   ]
   
   const steps = customSteps || defaultSteps
@@ -94,7 +96,7 @@ const ProcessingAnimation: React.FC<ProcessingAnimationProps> = ({
       </div>
       
       <h3 className="text-xl font-semibold text-gray-800 mb-3">
-        Processing Your Image
+        {t('processing.title')}
       </h3>
       
       <div className="mb-4">
@@ -109,12 +111,12 @@ const ProcessingAnimation: React.FC<ProcessingAnimationProps> = ({
           ></div>
         </div>
         <p className="text-xs text-gray-500 mt-1">
-          {Math.round(progress)}% complete
+          {t('processing.complete', { percent: Math.round(progress) })}
         </p>
       </div>
       
       <p className="text-sm text-gray-600">
-        Please wait while we analyze your image. This might take a few moments.
+        {t('processing.wait')}
       </p>
       
       {/* Visual elements representing analysis */}
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import type { Provenance, ProvenanceKind } from '../../lib/provenance';
+import type { Translator } from '../../lib/i18n';
+import { isProvenanceHidden } from '../../lib/demoMode';
+import { useI18n } from '../../lib/i18n/react';
+
+interface ProvenanceBadgeProps {
+  provenance: Provenance | null;
+  // Side the details drawer opens towards
+  align?: 'left' | 'right';
+}
+
+const KIND_CLASSES: Record<ProvenanceKind, string> = {
+  live: 'bg-green-100 text-green-800 border-green-300',
+  cached: 'bg-blue-100 text-blue-800 border-blue-300',
+  stale: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  demo: 'bg-amber-100 text-amber-800 border-amber-300',
+  fallback: 'bg-red-100 text-red-800 border-red-300'
+};
+
+function formatAge(milliseconds: number, t: Translator): string {
+  const minutes = Math.floor(milliseconds / 60000);
+  if (minutes < 60) return t('provenance.age.minutes', { count: minutes });
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return t('provenance.age.hours', { count: hours });
+  return t('provenance.age.days', { count: Math.floor(hours / 24) });
+}
+
+// Badge telling where a result came from, with a drawer of the details (model, time, cache age)
+const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ provenance, align = 'right' }) => {
+  const { locale, t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const [hidden, setHidden] = useState(false);
+
+  // Presenters can hide the badges from the demo mode controls
+  useEffect(() => {
+    const checkHidden = () => setHidden(isProvenanceHidden());
+    checkHidden();
+    const interval = setInterval(checkHidden, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!provenance || hidden) return null;
+
+  const rows: Array<[string, string]> = [
+    [t('provenance.status'), provenance.status],
+    ...(provenance.model ? [[t('provenance.model'), provenance.model] as [string, string]] : []),
+    ...(provenance.producedAt ? [[
+      t('provenance.producedAt'),
+      new Date(provenance.producedAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })
+    ] as [string, string]] : []),
+    ...(provenance.cacheAge !== undefined ? [[t('provenance.cacheAge'), formatAge(provenance.cacheAge, t)] as [string, string]] : []),
+    ...(provenance.match ? [[t('provenance.match'), t(`provenance.match.${provenance.match}`)] as [string, string]] : []),
+    ...(provenance.imageMode ? [[t('provenance.imageMode'), t(`provenance.imageMode.${provenance.imageMode}`)] as [string, string]] : [])
+  ];
+
+  return (
+    <div className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        title={t('provenance.showDetails')}
+        className={`inline-flex items-center px-2 py-0.5 rounded-full border text-xs font-medium ${KIND_CLASSES[provenance.kind]}`}
+      >
+        {provenance.illustrative && <span className="mr-1" aria-hidden="true">⚠</span>}
+        {t(`provenance.kind.${provenance.kind}`)}
+      </button>
+
+      {expanded && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} mt-1 w-64 z-20 bg-white rounded-md shadow-lg border border-gray-200 p-3 text-xs text-gray-700`}>
+          {provenance.illustrative && (
+            <p className="mb-2 p-2 rounded bg-red-50 text-red-800 font-medium">{t('provenance.illustrative')}</p>
+          )}
+          <dl className="space-y-1">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-2">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-right break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProvenanceBadge;
@@ -0,0 +1,2 @@
+import ProvenanceBadge from './ProvenanceBadge';
+export default ProvenanceBadge;
\ No newline at end of file
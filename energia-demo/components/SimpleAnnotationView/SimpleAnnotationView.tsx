@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import { OpenAIAnnotation } from '../../lib/openai';
+import { getComponentTypeLabel } from '../../lib/openai/componentTypes';
+import { useI18n } from '../../lib/i18n/react';
 
 type SimpleAnnotationViewProps = {
   image: string;
@@ -15,31 +17,38 @@ const SimpleAnnotationView: React.FC<SimpleAnnotationViewProps> = ({
   activeAnnotation = null,
   onAnnotationClick
 }) => {
+  const { locale, t } = useI18n();
   const containerRef = useRef<HTMLDivElement>(null);
-  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const imageRef = useRef<HTMLImageElement>(null);
+  // Rendered box of the image inside the container, in CSS pixels
+  const [displayBox, setDisplayBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
   const [isImageLoaded, setIsImageLoaded] = useState(false);
 
-  // Update container size on window resize
-  useEffect(() => {
-    const handleResize = () => {
-      if (containerRef.current) {
-        setContainerSize({
-          width: containerRef.current.clientWidth,
-          height: containerRef.current.clientHeight
-        });
-      }
-    };
+  // Measure where the image is actually drawn, since object-contain may letterbox it
+  const measureImage = () => {
+    const img = imageRef.current;
+    if (!img) return;
 
+    setDisplayBox({
+      left: img.offsetLeft,
+      top: img.offsetTop,
+      width: img.clientWidth,
+      height: img.clientHeight
+    });
+  };
+
+  // Update the rendered image box on window resize
+  useEffect(() => {
     // Initial measurement
-    handleResize();
+    measureImage();
 
     // Add resize event listener
-    window.addEventListener('resize', handleResize);
+    window.addEventListener('resize', measureImage);
     
     // Clean up
     return () => {
-      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('resize', measureImage);
     };
   }, []);
 
@@ -51,6 +60,7 @@ const SimpleAnnotationView: React.FC<SimpleAnnotationViewProps> = ({
       height: img.naturalHeight
     });
     setIsImageLoaded(true);
+    measureImage();
   };
 
   return (
@@ -58,15 +68,16 @@ const SimpleAnnotationView: React.FC<SimpleAnnotationViewProps> = ({
       {/* Image */}
       <div className="relative w-full h-full overflow-hidden">
         <img
+          ref={imageRef}
           src={image}
-          alt="Infrastructure image"
+          alt={t('annotation.alt')}
           className="max-w-full max-h-full object-contain mx-auto"
           onLoad={handleImageLoad}
         />
       </div>
 
       {/* Annotations */}
-      {isImageLoaded && containerSize.width > 0 && (
+      {isImageLoaded && displayBox.width > 0 && (
         <div className="absolute top-0 left-0 right-0 bottom-0 pointer-events-none">
           {annotations.map((annotation) => {
             // Ensure all necessary properties exist
@@ -78,24 +89,21 @@ const SimpleAnnotationView: React.FC<SimpleAnnotationViewProps> = ({
               return null;
             }
 
-            // Calculate scaling for the annotation based on container vs image size
-            const scaleX = containerSize.width / Math.max(imageSize.width, 1);
-            const scaleY = containerSize.height / Math.max(imageSize.height, 1);
-            const scale = Math.min(scaleX, scaleY);
-
-            // Calculate position for maintaining aspect ratio
-            const imageDisplayWidth = imageSize.width * scale;
-            const imageDisplayHeight = imageSize.height * scale;
-            
-            // Center the image horizontally and vertically
-            const offsetX = (containerSize.width - imageDisplayWidth) / 2;
-            const offsetY = (containerSize.height - imageDisplayHeight) / 2;
+            // Normalized boxes scale with the rendered image; pixel boxes are in
+            // original image pixels (legacy entries without a space are pixels too)
+            const { space = 'pixels' } = annotation.geometry;
+            const scaleX = space === 'normalized'
+              ? displayBox.width
+              : displayBox.width / Math.max(imageSize.width, 1);
+            const scaleY = space === 'normalized'
+              ? displayBox.height
+              : displayBox.height / Math.max(imageSize.height, 1);
 
             // Final position and size
-            const x = annotation.geometry.x * scale + offsetX;
-            const y = annotation.geometry.y * scale + offsetY;
-            const width = annotation.geometry.width * scale;
-            const height = annotation.geometry.height * scale;
+            const x = annotation.geometry.x * scaleX + displayBox.left;
+            const y = annotation.geometry.y * scaleY + displayBox.top;
+            const width = annotation.geometry.width * scaleX;
+            const height = annotation.geometry.height * scaleY;
 
             const isActive = activeAnnotation === annotation.id;
 
@@ -118,7 +126,9 @@ const SimpleAnnotationView: React.FC<SimpleAnnotationViewProps> = ({
                     isActive ? 'bg-blue-500 text-white' : 'bg-white text-gray-800 border border-gray-300'
                   }`}
                 >
-                  {annotation.data?.label || 'Unknown'}
+                  {annotation.data?.label
+                    ? getComponentTypeLabel(annotation.data.label, annotation.data.typeKey, locale)
+                    : t('annotation.unknown')}
                 </div>
               </div>
             );
@@ -1,12 +1,15 @@
 import { useState, useCallback, useRef } from 'react'
+import type { MessageKey } from '../../lib/i18n'
+import { useI18n } from '../../lib/i18n/react'
 
 type UploadAreaProps = {
   onFileUpload: (file: File) => void
 }
 
 const UploadArea = ({ onFileUpload }: UploadAreaProps) => {
+  const { t } = useI18n()
   const [isDragging, setIsDragging] = useState(false)
-  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState<MessageKey | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -30,13 +33,13 @@ const UploadArea = ({ onFileUpload }: UploadAreaProps) => {
   const validateFile = (file: File): boolean => {
     // Accept only image files
     if (!file.type.startsWith('image/')) {
-      setErrorMessage('Please upload an image file (JPEG, PNG, etc.).')
+      setErrorMessage('upload.error.notImage')
       return false
     }
     
     // Check for reasonable file size (10MB max)
     if (file.size > 10 * 1024 * 1024) {
-      setErrorMessage('Image is too large. Please upload an image smaller than 10MB.')
+      setErrorMessage('upload.error.tooLarge')
       return false
     }
     
@@ -115,19 +118,19 @@ const UploadArea = ({ onFileUpload }: UploadAreaProps) => {
         </svg>
         
         <p className="text-lg font-medium mb-2">
-          {isDragging ? 'Drop image here' : 'Drag & drop an image here'}
+          {isDragging ? t('upload.dropHere') : t('upload.dragDrop')}
         </p>
-        <p className="text-sm text-gray-500 mb-4">or</p>
+        <p className="text-sm text-gray-500 mb-4">{t('upload.or')}</p>
         <button 
           type="button" 
           className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md shadow-sm transition-colors"
         >
-          Browse Files
+          {t('upload.browse')}
         </button>
-        <p className="text-xs text-gray-400 mt-4">Accepts JPG, PNG and other image formats up to 10MB</p>
+        <p className="text-xs text-gray-400 mt-4">{t('upload.accepts')}</p>
         
         {errorMessage && (
-          <p className="mt-4 text-red-500 text-sm">{errorMessage}</p>
+          <p className="mt-4 text-red-500 text-sm">{t(errorMessage)}</p>
         )}
       </div>
     </div>
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react'
 import { motion } from 'framer-motion'
+import { useI18n } from '../../lib/i18n/react'
 
 type AlertType = 'success' | 'error' | 'warning' | 'info'
 
@@ -38,6 +39,8 @@ const Alert: React.FC<AlertProps> = ({
   onDismiss,
   className = '',
 }) => {
+  const { t } = useI18n()
+  
   // Define type-specific properties
   const config: Record<AlertType, { bgColor: string; textColor: string; icon: JSX.Element }> = {
     success: {
@@ -107,7 +110,7 @@ const Alert: React.FC<AlertProps> = ({
             onClick={onDismiss}
             className={`ml-auto -mx-1.5 -my-1.5 ${config[type].textColor} p-1.5 hover:bg-white hover:bg-opacity-20 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500`}
           >
-            <span className="sr-only">Dismiss</span>
+            <span className="sr-only">{t('common.dismiss')}</span>
             <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
             </svg>
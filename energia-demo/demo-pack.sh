@@ -0,0 +1,64 @@
+#!/bin/bash
+
+# ÉnergIA Demo Pack Script
+# Exports the cached demo results of a running server to a demo pack, or imports a demo pack into it
+#
+# Usage: ./demo-pack.sh export [file]
+#        ./demo-pack.sh import <file>
+# The server defaults to http://localhost:3000; set ENERGIA_URL to use another one.
+
+YELLOW='\033[1;33m'
+GREEN='\033[0;32m'
+RED='\033[0;31m'
+NC='\033[0m' # No Color
+
+ENERGIA_URL="${ENERGIA_URL:-http://localhost:3000}"
+ENDPOINT="$ENERGIA_URL/api/cache/demo-pack"
+
+usage() {
+  echo "Usage: $0 export [file]"
+  echo "       $0 import <file>"
+  exit 1
+}
+
+if ! command -v curl &> /dev/null; then
+  echo -e "${RED}Error: curl is not installed${NC}"
+  exit 1
+fi
+
+case "$1" in
+  export)
+    FILE="${2:-energia-demo-pack-$(date +%Y-%m-%d).json}"
+    echo -e "${YELLOW}Exporting demo pack from $ENERGIA_URL...${NC}"
+    if curl -sSf -o "$FILE" "$ENDPOINT"; then
+      echo -e "${GREEN}Demo pack written to $FILE${NC}"
+    else
+      echo -e "${RED}Error exporting demo pack (is the server running?)${NC}"
+      exit 1
+    fi
+    ;;
+  import)
+    FILE="$2"
+    if [ -z "$FILE" ]; then
+      usage
+    fi
+    if [ ! -f "$FILE" ]; then
+      echo -e "${RED}Error: $FILE not found${NC}"
+      exit 1
+    fi
+    echo -e "${YELLOW}Importing $FILE into $ENERGIA_URL...${NC}"
+    RESPONSE=$(curl -sS -w '\n%{http_code}' -H 'Content-Type: application/json' --data-binary "@$FILE" "$ENDPOINT")
+    STATUS=$(echo "$RESPONSE" | tail -n 1)
+    BODY=$(echo "$RESPONSE" | sed '$d')
+    if [ "$STATUS" = "200" ]; then
+      echo -e "${GREEN}Demo pack imported: $BODY${NC}"
+      echo "Browsers keep their own cache: import the pack from /admin/cache on the presentation device too"
+    else
+      echo -e "${RED}Error importing demo pack ($STATUS): $BODY${NC}"
+      exit 1
+    fi
+    ;;
+  *)
+    usage
+    ;;
+esac
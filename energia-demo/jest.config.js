@@ -0,0 +1,11 @@
+const nextJest = require('next/jest')
+
+// Compile tests with the Next.js SWC setup, so they read the same TypeScript the app does
+const createJestConfig = nextJest({ dir: './' })
+
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: 'node',
+}
+
+module.exports = createJestConfig(jestConfig)
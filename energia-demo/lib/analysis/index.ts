@@ -0,0 +1,139 @@
+import { getNetworkStatus, getCachedResponseWithStatus, cacheResponse, getFallbackAnalysisData, scheduleRevalidation } from '../cache';
+import { analyzeImage, AnalysisProgressEvent, AnalysisResult, getAnalysisCacheKey } from '../openai';
+import { getDemoStatus, simulateProcessingDelay } from '../demoMode';
+import { DEFAULT_LOCALE, Locale, LOCALES, parseLocale } from '../i18n';
+import { getPerceptualHash } from '../imaging';
+import { createApiResponse, toApiError } from '../api/server';
+import type { AnalysisResponse } from '../api/contracts';
+
+// Analysis requests shared by /api/analyze-image and its streaming variant, so both validate
+// the same way and fall back to the same cache and demo data.
+
+// Validated analysis request
+export type AnalysisRequestParams = {
+  image: string;
+  locale: Locale;
+  // Wait for the refresh of a stale analysis instead of being served the stale one
+  revalidate?: boolean;
+  // Substitute canned fallback data for provider failures instead of failing
+  fallback?: boolean;
+};
+
+// Hooks for callers reporting the analysis as it runs
+export type AnalysisRunOptions = {
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  signal?: AbortSignal;
+};
+
+// Validate the options of a request body for an image already resolved from it; returns the
+// message for a 400 response when they are invalid
+export function parseAnalysisRequest(image: string, body: any): AnalysisRequestParams | { error: string } {
+  const locale = parseLocale(body?.locale);
+  if (locale === null) {
+    return { error: `locale must be one of ${LOCALES.join(', ')}` };
+  }
+
+  return {
+    image,
+    locale: locale ?? DEFAULT_LOCALE,
+    ...(body?.revalidate === true ? { revalidate: true } : {}),
+    ...(body?.fallback === true ? { fallback: true } : {})
+  };
+}
+
+// Resolve an analysis from the cache, demo data or the vision provider. Provider errors are thrown
+// to the caller as an ApiError unless the request opted in to fallback data; cancellation (an
+// aborted signal) is always thrown.
+export async function resolveAnalysis(
+  request: AnalysisRequestParams,
+  runOptions: AnalysisRunOptions = {}
+): Promise<AnalysisResponse> {
+  const startTime = Date.now();
+  const { image, locale, revalidate, fallback } = request;
+  const { onProgress, signal } = runOptions;
+
+  // Check demo mode and network status
+  const demoStatus = getDemoStatus();
+  const networkStatus = getNetworkStatus();
+
+  // Generate image hash for cache lookup (each locale is cached apart); the perceptual hash
+  // also finds the analysis of a re-encoded or resized copy of the same photo
+  const imageHash = getAnalysisCacheKey(image, locale);
+  const perceptualHash = await getPerceptualHash(image);
+
+  // Try to get cached response first; canned fallback entries only count where fallback data may be served
+  onProgress?.({ type: 'stage', stage: 'cache_lookup' });
+  const { status: cacheStatus, data: cachedData, match, distance } = await getCachedResponseWithStatus('analyze', imageHash, {
+    perceptualHash,
+    excludeFallback: !fallback && !demoStatus.enabled
+  });
+
+  // Create a response with metadata; cached responses tell how they matched
+  const createResponse = (data: AnalysisResult, source: string, status: string) =>
+    createApiResponse(data, { source, status, startTime, match, distance });
+
+  // Return cached data if valid
+  if (cacheStatus === 'hit') {
+    console.log(`Cache hit for analyze (${imageHash})`);
+    return createResponse(cachedData, 'cache', 'hit');
+  }
+
+  // If demo mode is enabled or we're offline, use demo data
+  if (demoStatus.enabled) {
+    console.log(`Demo mode enabled (${demoStatus.mode}) - using demo/fallback data`);
+
+    // Simulate processing delay for realism
+    await simulateProcessingDelay('analysis');
+
+    const fallbackData = getFallbackAnalysisData(locale);
+    await cacheResponse('analyze', imageHash, fallbackData, 'fallback', { perceptualHash });
+
+    return createResponse(fallbackData, 'demo', demoStatus.mode);
+  }
+
+  // If stale cache data and offline, use it
+  if (cacheStatus === 'stale' && !networkStatus.online) {
+    console.log(`Using stale cache data for analyze (${imageHash}) - offline mode`);
+    return createResponse(cachedData, 'cache', 'stale');
+  }
+
+  // Serve stale data at once and let the provider refresh it in the background
+  if (cacheStatus === 'stale' && !revalidate) {
+    console.log(`Serving stale cache data for analyze (${imageHash}) while revalidating`);
+    scheduleRevalidation('analyze', imageHash, () => analyzeImage(image, { locale, refresh: true }));
+    return createResponse(cachedData, 'cache', 'stale_revalidating');
+  }
+
+  // Analyze the image with the configured vision provider; joining an analysis already running
+  // for this image reports no progress, only the result
+  try {
+    console.log(`Processing image with the vision provider (${imageHash.substr(0, 8)}...)`);
+    const result = await analyzeImage(image, { locale, refresh: cacheStatus === 'stale', onProgress, signal });
+
+    return createResponse(result, 'api', cacheStatus === 'stale' ? 'revalidated' : 'fresh');
+  } catch (apiError) {
+    if (signal?.aborted) {
+      throw apiError;
+    }
+
+    console.error('Provider error for analyze:', apiError);
+
+    // If stale cache data exists, use it
+    if (cacheStatus === 'stale') {
+      console.log(`Using stale cache data after API error (${imageHash})`);
+      return createResponse(cachedData, 'cache', 'stale_fallback');
+    }
+
+    const error = toApiError(apiError);
+    if (!fallback) {
+      throw error;
+    }
+
+    // Fall back to demo data on API error
+    const fallbackData = getFallbackAnalysisData(locale);
+    await cacheResponse('analyze', imageHash, fallbackData, 'fallback', { perceptualHash });
+
+    // An open circuit short-circuited the call; the fallback tells it apart from a failed call
+    return createResponse(fallbackData, 'fallback', error.code === 'provider_unavailable' ? 'circuit_open' : 'api_error');
+  }
+}
@@ -0,0 +1,124 @@
+import type { AnalysisResult, FutureResult } from '../openai';
+import type { AnalysisProgressEvent } from '../openai/progress';
+import type { CacheEntryInfo, CacheMatch, CacheStats, CacheType, SupersededEntry } from '../cache';
+import type { CircuitKind, CircuitSnapshot, CircuitState, ProviderId } from '../providers';
+import type { DemoImageCacheStatus } from '../demoMode';
+import type { FutureJob } from '../jobs';
+import type { UploadedImage } from '../imageStore/server';
+import type { HorizonYears } from '../projection';
+import type { Locale } from '../i18n';
+import type { ApiErrorBody } from './errors';
+
+// Request and response contracts of the API routes, shared by the routes and the client in ./index
+
+// Metadata every result response carries in `_meta`: where the result came from and how it was served
+export type ResponseMeta = {
+  // api, cache, demo or fallback
+  source: string;
+  // hit, stale, fresh, revalidated, api_error, circuit_open…
+  status: string;
+  processTime: number;
+  // For cached responses: whether the image itself or a near-identical one was found
+  match?: CacheMatch;
+  matchDistance?: number;
+  // Circuit breaker state of each provider kind when the response was sent
+  circuit?: Record<CircuitKind, CircuitState>;
+};
+
+// Response envelope of the result routes: the result with its metadata alongside
+export type ApiResponse<T> = T & {
+  _meta?: ResponseMeta;
+};
+
+// Options shared by the analysis and projection requests
+type ResultRequestOptions = {
+  locale?: Locale;
+  // Wait for the refresh of a stale result instead of being served the stale one
+  revalidate?: boolean;
+  // Accept canned fallback data in place of a failed result
+  fallback?: boolean;
+};
+
+// Image of a result request: a data URL, or the id of an image uploaded to /api/images
+export type ImageSource =
+  | { image: string, imageId?: undefined }
+  | { imageId: string, image?: undefined };
+
+// Body of POST /api/analyze-image and /api/analyze-image-stream
+export type AnalysisRequest = ResultRequestOptions & ImageSource;
+
+export type AnalysisResponse = ApiResponse<AnalysisResult>;
+
+// Events sent by /api/analyze-image-stream; `result`, or `error` when the analysis failed, is always the last one
+export type AnalysisStreamEvent =
+  | AnalysisProgressEvent
+  | { type: 'result', result: AnalysisResponse }
+  | { type: 'error', error: ApiErrorBody };
+
+// Body of POST /api/generate-future and /api/jobs/future
+export type FutureProjectionRequest = ResultRequestOptions & ImageSource & {
+  // Edit mask as an image data URL
+  mask?: string;
+  horizonYears?: HorizonYears;
+  // ISO date the photo was taken; defaults to now
+  captureDate?: string;
+};
+
+export type FutureResponse = ApiResponse<FutureResult>;
+
+// GET /api/jobs/:id: the job status, with the projection once it has succeeded
+export type FutureJobResponse = FutureJob & {
+  result?: FutureResponse;
+};
+
+// POST /api/images
+export type ImageUploadResponse = UploadedImage;
+
+export type ProviderHealth = {
+  id: ProviderId;
+  model: string;
+  circuit: CircuitSnapshot;
+};
+
+// GET /api/health
+export type HealthResponse = {
+  // degraded while a provider circuit is not closed: its calls are served from cache or fallback data
+  status: 'ok' | 'degraded';
+  providers: Record<CircuitKind, ProviderHealth>;
+};
+
+// GET /api/cache
+export type CacheStatsResponse = CacheStats;
+
+// GET /api/cache/:type
+export type CacheEntriesResponse = {
+  entries: CacheEntryInfo[];
+};
+
+// GET /api/cache/:type/:key
+export type CacheEntryResponse = CacheEntryInfo & {
+  data: any;
+};
+
+// DELETE /api/cache, /api/cache/:type and /api/cache/:type/:key
+export type InvalidateResponse = {
+  removed: number;
+};
+
+// GET /api/cache/superseded
+export type SupersededResponse = {
+  // Fingerprints of the current settings, per cache type
+  current: Record<CacheType, string>;
+  entries: SupersededEntry[];
+};
+
+// DELETE /api/cache/superseded
+export type PurgeResponse = {
+  current: Record<CacheType, string>;
+  purged: number;
+};
+
+// GET /api/cache/demo
+export type DemoCacheResponse = {
+  images: DemoImageCacheStatus[];
+};
@@ -0,0 +1,107 @@
+// Typed errors of the API routes. Error responses keep the `{ error }` message every route returns
+// and add a stable code and whether the same request may succeed when retried.
+
+export const API_ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'method_not_allowed',
+  'conflict',
+  'payload_too_large',
+  'unsupported_media_type',
+  'rate_limited',
+  'provider_not_configured',
+  'provider_unavailable',
+  'provider_rate_limited',
+  'provider_timeout',
+  'provider_error',
+  'invalid_provider_response',
+  'internal_error'
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && (API_ERROR_CODES as readonly string[]).includes(value);
+}
+
+// Body of an error response
+export type ApiErrorBody = {
+  // Human-readable message
+  error: string;
+  code: ApiErrorCode;
+  retryable: boolean;
+};
+
+// HTTP status, default retryability and message of each code
+const API_ERROR_DEFAULTS: Record<ApiErrorCode, { status: number, retryable: boolean, message: string }> = {
+  invalid_request: { status: 400, retryable: false, message: 'Invalid request' },
+  unauthorized: { status: 401, retryable: false, message: 'Authentication required' },
+  // The route is disabled, or the credentials do not grant it
+  forbidden: { status: 403, retryable: false, message: 'Forbidden' },
+  not_found: { status: 404, retryable: false, message: 'Not found' },
+  method_not_allowed: { status: 405, retryable: false, message: 'Method not allowed' },
+  conflict: { status: 409, retryable: false, message: 'Conflict' },
+  payload_too_large: { status: 413, retryable: false, message: 'Payload too large' },
+  unsupported_media_type: { status: 415, retryable: false, message: 'Unsupported media type' },
+  // The client sent more requests than the route takes in its window; see Retry-After
+  rate_limited: { status: 429, retryable: true, message: 'Too many requests' },
+  provider_not_configured: { status: 503, retryable: false, message: 'The AI provider is not configured' },
+  // The circuit breaker is open; the provider is called again once it half-opens
+  provider_unavailable: { status: 503, retryable: true, message: 'The AI provider is temporarily unavailable' },
+  provider_rate_limited: { status: 429, retryable: true, message: 'The AI provider is rate limiting requests' },
+  provider_timeout: { status: 504, retryable: true, message: 'The AI provider did not answer in time' },
+  provider_error: { status: 502, retryable: true, message: 'The AI provider failed' },
+  invalid_provider_response: { status: 502, retryable: true, message: 'The AI provider returned an unusable response' },
+  internal_error: { status: 500, retryable: false, message: 'Internal error' }
+};
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  const body = value as ApiErrorBody;
+  return !!body && typeof body === 'object' && typeof body.error === 'string'
+    && isApiErrorCode(body.code) && typeof body.retryable === 'boolean';
+}
+
+// Code of an error response without one (routes answering `{ error }` only)
+function getApiErrorCodeForStatus(status: number): ApiErrorCode {
+  const code = API_ERROR_CODES.find(candidate => API_ERROR_DEFAULTS[candidate].status === status);
+  if (code) {
+    return code;
+  }
+  return status >= 500 ? 'internal_error' : 'invalid_request';
+}
+
+// Typed error for failed API requests, carrying the HTTP status it is answered with
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(code: ApiErrorCode, message?: string, options: { retryable?: boolean, status?: number } = {}) {
+    const defaults = API_ERROR_DEFAULTS[code];
+    super(message ?? defaults.message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = options.status ?? defaults.status;
+    this.retryable = options.retryable ?? defaults.retryable;
+  }
+
+  // Error received in a response body
+  static fromBody(body: ApiErrorBody, status?: number): ApiError {
+    return new ApiError(body.code, body.error, { retryable: body.retryable, status });
+  }
+
+  // Error of a failed response, whatever its body
+  static fromResponse(status: number, body: unknown): ApiError {
+    if (isApiErrorBody(body)) {
+      return ApiError.fromBody(body, status);
+    }
+    const message = typeof (body as { error?: unknown } | null)?.error === 'string' ? (body as { error: string }).error : undefined;
+    return new ApiError(getApiErrorCodeForStatus(status), message, { status });
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: this.message, code: this.code, retryable: this.retryable };
+  }
+}
@@ -0,0 +1,228 @@
+import { readEventStream } from '../sse';
+import { ApiError } from './errors';
+import type { AnalysisProgressEvent } from '../openai/progress';
+import type { CacheSource, CacheType } from '../cache';
+import type { DemoPack, DemoPackImportResult } from '../demoPack';
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisStreamEvent,
+  CacheEntriesResponse,
+  CacheEntryResponse,
+  CacheStatsResponse,
+  DemoCacheResponse,
+  FutureJobResponse,
+  FutureProjectionRequest,
+  FutureResponse,
+  HealthResponse,
+  ImageUploadResponse,
+  InvalidateResponse,
+  PurgeResponse,
+  SupersededResponse
+} from './contracts';
+
+// Typed client of the API routes, used by the pages. Failed requests throw an ApiError, and every
+// call takes an AbortSignal so a page can drop its requests when it is left.
+
+export type * from './contracts';
+export { ApiError, API_ERROR_CODES, isApiErrorBody, isApiErrorCode } from './errors';
+export type { ApiErrorBody, ApiErrorCode } from './errors';
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+};
+
+type Query = Record<string, string | undefined>;
+
+type ApiRequestInit = RequestOptions & {
+  body?: unknown;
+  query?: Query;
+  // Send the saved admin token, which the administration routes require
+  admin?: boolean;
+};
+
+// The server's ADMIN_TOKEN, as entered on the cache administration page
+const ADMIN_TOKEN_STORAGE_KEY = 'energia_admin_token';
+
+export function getAdminToken(): string | null {
+  try {
+    return localStorage.getItem(ADMIN_TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setAdminToken(token: string): void {
+  try {
+    if (token) {
+      localStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(ADMIN_TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Error saving admin token:', error);
+  }
+}
+
+function buildUrl(path: string, query: Query = {}): string {
+  const params = new URLSearchParams();
+  Object.keys(query).forEach(name => {
+    const value = query[name];
+    if (value !== undefined) {
+      params.set(name, value);
+    }
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+async function sendRequest(method: string, path: string, init: ApiRequestInit = {}): Promise<Response> {
+  const { body } = init;
+  const adminToken = init.admin ? getAdminToken() : null;
+  const headers: Record<string, string> = adminToken ? { Authorization: `Bearer ${adminToken}` } : {};
+  const response = await fetch(buildUrl(path, init.query), {
+    method,
+    headers,
+    // Form data is sent as is, with the multipart Content-Type the browser sets
+    ...(body instanceof FormData ? { body } : body !== undefined ? {
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    } : {}),
+    signal: init.signal
+  });
+  if (!response.ok) {
+    // Routes answer failures with a JSON error body; anything else (a proxy error page) keeps only the status
+    throw ApiError.fromResponse(response.status, await response.json().catch(() => null));
+  }
+  return response;
+}
+
+async function request<T>(method: string, path: string, init: ApiRequestInit = {}): Promise<T> {
+  const response = await sendRequest(method, path, init);
+  return response.json() as Promise<T>;
+}
+
+export type ImageUrlOptions = {
+  // Served at this width or the next larger variant
+  width?: number;
+  // Square thumbnail instead
+  thumbnail?: boolean;
+};
+
+// URL of a stored image (an upload or a generated projection), cacheable for good
+export function getImageUrl(id: string, options: ImageUrlOptions = {}): string {
+  return buildUrl(`/api/images/${id}`, {
+    w: options.width !== undefined ? String(options.width) : undefined,
+    thumb: options.thumbnail ? '1' : undefined
+  });
+}
+
+// Upload an image as it is (no base64, no downscaling); its id stands for it in the result requests
+export function uploadImage(image: Blob, options: RequestOptions = {}): Promise<ImageUploadResponse> {
+  const form = new FormData();
+  form.append('image', image);
+  return request<ImageUploadResponse>('POST', '/api/images', { ...options, body: form });
+}
+
+// Analysis of an image in one response
+export function requestAnalysis(body: AnalysisRequest, options: RequestOptions = {}): Promise<AnalysisResponse> {
+  return request<AnalysisResponse>('POST', '/api/analyze-image', { ...options, body });
+}
+
+export type AnalysisStreamOptions = RequestOptions & {
+  // Stages and components, as soon as the server reports them
+  onProgress?: (event: AnalysisProgressEvent) => void;
+};
+
+// Analysis of an image streamed with its progress; resolves with the final result
+export async function streamAnalysis(body: AnalysisRequest, options: AnalysisStreamOptions = {}): Promise<AnalysisResponse> {
+  const response = await sendRequest('POST', '/api/analyze-image-stream', { signal: options.signal, body });
+
+  const received: { result?: AnalysisResponse, error?: ApiError } = {};
+  await readEventStream(response, ({ data }) => {
+    const event = JSON.parse(data) as AnalysisStreamEvent;
+    if (event.type === 'result') {
+      received.result = event.result;
+    } else if (event.type === 'error') {
+      received.error = ApiError.fromBody(event.error);
+    } else {
+      options.onProgress?.(event);
+    }
+  });
+
+  if (received.error) {
+    throw received.error;
+  }
+  if (!received.result) {
+    throw new Error('Analysis stream ended without a result');
+  }
+  return received.result;
+}
+
+// Future projection in one response; long generations are better queued with queueFutureJob
+export function requestFutureProjection(body: FutureProjectionRequest, options: RequestOptions = {}): Promise<FutureResponse> {
+  return request<FutureResponse>('POST', '/api/generate-future', { ...options, body });
+}
+
+export function queueFutureJob(body: FutureProjectionRequest, options: RequestOptions = {}): Promise<FutureJobResponse> {
+  return request<FutureJobResponse>('POST', '/api/jobs/future', { ...options, body });
+}
+
+export function fetchFutureJob(id: string, options: RequestOptions = {}): Promise<FutureJobResponse> {
+  return request<FutureJobResponse>('GET', `/api/jobs/${encodeURIComponent(id)}`, options);
+}
+
+export function cancelFutureJob(id: string, options: RequestOptions = {}): Promise<FutureJobResponse> {
+  return request<FutureJobResponse>('DELETE', `/api/jobs/${encodeURIComponent(id)}`, options);
+}
+
+export function fetchHealth(options: RequestOptions = {}): Promise<HealthResponse> {
+  return request<HealthResponse>('GET', '/api/health', options);
+}
+
+export function fetchCacheStats(options: RequestOptions = {}): Promise<CacheStatsResponse> {
+  return request<CacheStatsResponse>('GET', '/api/cache', options);
+}
+
+export function fetchDemoCacheStatus(options: RequestOptions = {}): Promise<DemoCacheResponse> {
+  return request<DemoCacheResponse>('GET', '/api/cache/demo', options);
+}
+
+export type CacheFilter = {
+  source?: CacheSource;
+};
+
+export function fetchCacheEntries(type: CacheType, filter: CacheFilter = {}, options: RequestOptions = {}): Promise<CacheEntriesResponse> {
+  return request<CacheEntriesResponse>('GET', `/api/cache/${type}`, { ...options, query: filter });
+}
+
+// One cache entry with its data, with the admin token
+export function fetchCacheEntry(type: CacheType, key: string, options: RequestOptions = {}): Promise<CacheEntryResponse> {
+  return request<CacheEntryResponse>('GET', `/api/cache/${type}/${encodeURIComponent(key)}`, { ...options, admin: true });
+}
+
+// Which entries to invalidate: all of them, those of a type, or a single entry, optionally only from a source
+export type CacheTarget = CacheFilter & {
+  type?: CacheType;
+  key?: string;
+};
+
+export function invalidateCacheEntries(target: CacheTarget = {}, options: RequestOptions = {}): Promise<InvalidateResponse> {
+  const { type, key, source } = target;
+  const path = type ? `/api/cache/${type}${key !== undefined ? `/${encodeURIComponent(key)}` : ''}` : '/api/cache';
+  return request<InvalidateResponse>('DELETE', path, { ...options, query: { source }, admin: true });
+}
+
+export function fetchSupersededEntries(options: RequestOptions = {}): Promise<SupersededResponse> {
+  return request<SupersededResponse>('GET', '/api/cache/superseded', options);
+}
+
+export function purgeSupersededEntries(options: RequestOptions = {}): Promise<PurgeResponse> {
+  return request<PurgeResponse>('DELETE', '/api/cache/superseded', { ...options, admin: true });
+}
+
+// Verify and import a demo pack into the server cache, with the admin token; the server has the
+// demo images, so the pack may leave them out (withoutDemoImages)
+export function uploadDemoPack(pack: DemoPack, options: RequestOptions = {}): Promise<DemoPackImportResult> {
+  return request<DemoPackImportResult>('POST', '/api/cache/demo-pack', { ...options, body: pack, admin: true });
+}
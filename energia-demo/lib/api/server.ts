@@ -0,0 +1,190 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createHash, timingSafeEqual } from 'crypto';
+import { APIConnectionError } from 'openai';
+import { getCircuitStates, ProviderError } from '../providers';
+import { AnalysisPayloadError } from '../openai';
+import { ImageUploadError, readImageDataUrl } from '../imageStore/server';
+import { isImageDataUrl } from '../imaging';
+import { ApiError, ApiErrorBody } from './errors';
+import type { CacheMatch } from '../cache';
+import type { ApiResponse } from './contracts';
+
+// Server-only part of the API: builds the response envelope and maps provider and SDK failures to typed errors
+
+// How a result was served, reported in its `_meta`
+export type ResponseOrigin = {
+  source: string;
+  status: string;
+  // When the route started handling the request
+  startTime: number;
+  // How the cache lookup matched; only reported for cached results
+  match?: CacheMatch;
+  distance?: number;
+};
+
+// Result in the common response envelope
+export function createApiResponse<T extends object>(data: T, origin: ResponseOrigin): ApiResponse<T> {
+  const { source, status, startTime, match, distance } = origin;
+  return {
+    ...data,
+    _meta: {
+      source,
+      status,
+      processTime: Date.now() - startTime,
+      ...(source === 'cache' && match ? { match, matchDistance: distance } : {}),
+      circuit: getCircuitStates()
+    }
+  };
+}
+
+// Typed error for a failure, keeping provider details (keys, raw payloads) out of the message
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof ProviderError) {
+    switch (error.code) {
+      case 'not_configured':
+        return new ApiError('provider_not_configured');
+      case 'fixture_missing':
+        return new ApiError('provider_error', 'No recorded fixture for this image', { retryable: false });
+      case 'invalid_response':
+        return new ApiError('invalid_provider_response');
+      case 'timeout':
+        return new ApiError('provider_timeout');
+      case 'circuit_open':
+        return new ApiError('provider_unavailable');
+    }
+  }
+
+  if (error instanceof ImageUploadError) {
+    return new ApiError(error.code === 'too_large' ? 'payload_too_large' : 'unsupported_media_type', error.message);
+  }
+
+  if (error instanceof AnalysisPayloadError) {
+    return new ApiError('invalid_provider_response');
+  }
+
+  if (error instanceof APIConnectionError) {
+    return new ApiError('provider_error');
+  }
+
+  // OpenAI SDK errors carry the HTTP status of the API response
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    if (status === 429) {
+      return new ApiError('provider_rate_limited');
+    }
+    return new ApiError('provider_error', undefined, { retryable: status >= 500 });
+  }
+
+  return new ApiError('internal_error');
+}
+
+// Image of a result request as a data URL: the `image` itself, or the upload named by `imageId`;
+// returns the error to answer when the request has neither or names no stored image
+export async function resolveRequestImage(body: any): Promise<{ image: string } | { error: ApiError }> {
+  if (body?.imageId !== undefined) {
+    const image = typeof body.imageId === 'string' ? await readImageDataUrl(body.imageId) : null;
+    return image ? { image } : { error: new ApiError('not_found', 'Image not found; upload it to /api/images first') };
+  }
+  if (!body?.image) {
+    return { error: new ApiError('invalid_request', 'image or imageId is required') };
+  }
+  if (!isImageDataUrl(body.image)) {
+    return { error: new ApiError('invalid_request', 'image must be a base64 image data URL') };
+  }
+  return { image: body.image };
+}
+
+export function sendApiError(res: NextApiResponse<ApiErrorBody>, error: ApiError) {
+  return res.status(error.status).json(error.toBody());
+}
+
+// Token of the administration routes (cache invalidation and entry data, demo pack import); they
+// are disabled without one
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+// Compared as digests so the comparison takes the same time whatever the length of the guess
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Check the `Authorization: Bearer <ADMIN_TOKEN>` header of an admin request; returns the error
+// to answer when it is missing or wrong, or when no token is configured
+export function checkAdminToken(req: NextApiRequest): ApiError | null {
+  if (!ADMIN_TOKEN) {
+    return new ApiError('forbidden', 'This route is disabled; set ADMIN_TOKEN to enable it');
+  }
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match || !timingSafeEqual(digest(match[1]), digest(ADMIN_TOKEN))) {
+    return new ApiError('unauthorized', 'A valid admin token is required');
+  }
+  return null;
+}
+
+// Answer an administration request that fails checkAdminToken; returns whether it was refused
+export function refuseNonAdmin(req: NextApiRequest, res: NextApiResponse<ApiErrorBody>): boolean {
+  const error = checkAdminToken(req);
+  if (!error) {
+    return false;
+  }
+  if (error.code === 'unauthorized') {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  sendApiError(res, error);
+  return true;
+}
+
+// JSON body of a route that parses it itself (bodyParser: false), so it can be refused before it is read
+export async function readJsonBody(req: NextApiRequest, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new ApiError('payload_too_large', `The body is limited to ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ApiError('invalid_request', 'The body is not valid JSON');
+  }
+}
+
+// Requests counted per route and client address, in fixed windows. On globalThis since Next.js
+// bundles each API route with its own copy of this module.
+type RateLimitWindows = Map<string, { count: number, resetAt: number }>;
+
+const rateLimitHolder = globalThis as typeof globalThis & { __energiaRateLimits?: RateLimitWindows };
+
+const rateLimitWindows: RateLimitWindows = rateLimitHolder.__energiaRateLimits ||= new Map();
+
+// Count a request of a client against `limit` requests per `windowMs`; returns the seconds to wait
+// when it is over the limit, or null when it may proceed
+export function takeRateLimit(req: NextApiRequest, route: string, limit: number, windowMs: number): number | null {
+  const now = Date.now();
+  // Windows of clients gone quiet are dropped once there are many
+  if (rateLimitWindows.size > 10000) {
+    rateLimitWindows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        rateLimitWindows.delete(key);
+      }
+    });
+  }
+
+  const key = `${route}:${req.socket.remoteAddress || 'unknown'}`;
+  const window = rateLimitWindows.get(key);
+  if (!window || window.resetAt <= now) {
+    rateLimitWindows.set(key, { count: 1, resetAt: now + windowMs });
+    return null;
+  }
+  if (window.count >= limit) {
+    return Math.ceil((window.resetAt - now) / 1000);
+  }
+  window.count++;
+  return null;
+}
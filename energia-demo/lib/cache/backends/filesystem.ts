@@ -0,0 +1,89 @@
+import fs from 'fs'
+import path from 'path'
+import { CacheBackend, CacheEntryMeta, CacheQuotaError, toEntryMeta } from './types'
+
+// Filesystem persistence for the server-side cache, so paid-for API results survive restarts.
+// Each entry is stored as two files: its metadata (rewritten on every hit) and its data
+// (written once, and possibly large for generated images).
+
+// Write through a temporary file so a crash never leaves a truncated entry
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(data))
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true })
+    if ((error as NodeJS.ErrnoException).code === 'ENOSPC') {
+      throw new CacheQuotaError('filesystem', `No space left to write ${filePath}`)
+    }
+    throw error
+  }
+  fs.renameSync(tempPath, filePath)
+}
+
+function readJson<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+export function createFilesystemBackend(options: { directory: string }): CacheBackend {
+  // Cache keys are hashes with option suffixes; anything else is neutralized before it reaches a path
+  const entryPath = (namespace: string, key: string, part: 'meta' | 'data') =>
+    path.join(options.directory, namespace, `${key.replace(/[^\w.-]/g, '_')}.${part}.json`)
+
+  return {
+    id: 'filesystem',
+
+    // Missing or unreadable files read as a miss
+    async get(namespace, key) {
+      const meta = readJson<CacheEntryMeta>(entryPath(namespace, key, 'meta'))
+      const data = meta && readJson<{ value: any }>(entryPath(namespace, key, 'data'))
+      return meta && data ? { ...meta, data: data.value } : undefined
+    },
+
+    async set(namespace, key, entry) {
+      // Data first, so a meta file always has its data
+      writeJson(entryPath(namespace, key, 'data'), { value: entry.data })
+      writeJson(entryPath(namespace, key, 'meta'), toEntryMeta(entry))
+    },
+
+    async touch(namespace, key, meta) {
+      if (fs.existsSync(entryPath(namespace, key, 'meta'))) {
+        writeJson(entryPath(namespace, key, 'meta'), toEntryMeta(meta))
+      }
+    },
+
+    async delete(namespace, key) {
+      fs.rmSync(entryPath(namespace, key, 'meta'), { force: true })
+      fs.rmSync(entryPath(namespace, key, 'data'), { force: true })
+    },
+
+    async iterate(namespace) {
+      let files: string[]
+      try {
+        files = fs.readdirSync(path.join(options.directory, namespace))
+      } catch {
+        return []
+      }
+
+      const entries: Array<[string, CacheEntryMeta]> = []
+      files
+        .filter(file => file.endsWith('.meta.json'))
+        .forEach(file => {
+          const meta = readJson<CacheEntryMeta>(path.join(options.directory, namespace, file))
+          if (meta) {
+            entries.push([file.slice(0, -'.meta.json'.length), meta])
+          }
+        })
+      return entries
+    },
+
+    async clear(namespace) {
+      fs.rmSync(path.join(options.directory, namespace), { recursive: true, force: true })
+    }
+  }
+}
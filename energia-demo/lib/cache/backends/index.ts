@@ -0,0 +1,82 @@
+import path from 'path';
+import { CacheBackend, CacheBackendId, isCacheBackendId } from './types';
+import { createMemoryBackend } from './memory';
+import { createLocalStorageBackend } from './localStorage';
+import { createIndexedDBBackend } from './indexedDB';
+import { createFilesystemBackend } from './filesystem';
+
+export type { CacheBackend, CacheBackendId, CacheEntry, CacheEntryMeta, CacheSource } from './types';
+export { CACHE_BACKEND_IDS, CACHE_SOURCES, CacheQuotaError, isCacheBackendId, isCacheSource } from './types';
+export { createFilesystemBackend, createIndexedDBBackend, createLocalStorageBackend, createMemoryBackend };
+
+// Backend configuration, read from the environment:
+//   CACHE_BACKEND               server backend: filesystem (default) or memory
+//   NEXT_PUBLIC_CACHE_BACKEND   browser backend: indexedDB (default when available), localStorage or memory
+//   CACHE_DIR                   filesystem backend directory (defaults to ./.cache)
+const BACKEND_CONFIG = {
+  SERVER: process.env.CACHE_BACKEND,
+  BROWSER: process.env.NEXT_PUBLIC_CACHE_BACKEND
+};
+
+// Backends usable where the code runs
+function isAvailable(id: CacheBackendId): boolean {
+  const isServer = typeof window === 'undefined';
+  switch (id) {
+    case 'memory':
+      return true;
+    case 'filesystem':
+      return isServer;
+    case 'localStorage':
+      return !isServer && typeof localStorage !== 'undefined';
+    case 'indexedDB':
+      return !isServer && typeof indexedDB !== 'undefined';
+  }
+}
+
+// Backend configured for the current environment, warning about unknown or unavailable values
+export function getConfiguredBackendId(): CacheBackendId {
+  const isServer = typeof window === 'undefined';
+  const configured = isServer ? BACKEND_CONFIG.SERVER : BACKEND_CONFIG.BROWSER;
+  const fallback: CacheBackendId = isServer ? 'filesystem' : isAvailable('indexedDB') ? 'indexedDB' : 'localStorage';
+
+  if (!configured) {
+    return isAvailable(fallback) ? fallback : 'memory';
+  }
+  if (!isCacheBackendId(configured) || !isAvailable(configured)) {
+    console.warn(`Cache backend "${configured}" is not available here, using ${fallback}`);
+    return isAvailable(fallback) ? fallback : 'memory';
+  }
+  return configured;
+}
+
+// Settings the cache passes down to the persistent backends
+export type CacheBackendOptions = {
+  // Cache format version; entries written by another version are discarded
+  version: string;
+  // Name used for the localStorage prefix and the IndexedDB database
+  storageKey: string;
+  // Conservative localStorage quota in bytes
+  maxLocalStorageBytes: number;
+};
+
+export function createCacheBackend(id: CacheBackendId, options: CacheBackendOptions): CacheBackend {
+  switch (id) {
+    case 'memory':
+      return createMemoryBackend();
+    case 'localStorage':
+      return createLocalStorageBackend({
+        prefix: `${options.storageKey}:v${options.version}`,
+        maxBytes: options.maxLocalStorageBytes,
+        legacyKeys: [options.storageKey]
+      });
+    case 'indexedDB':
+      return createIndexedDBBackend({
+        databaseName: options.storageKey,
+        version: Math.max(1, Math.round(parseFloat(options.version) * 10))
+      });
+    case 'filesystem':
+      return createFilesystemBackend({
+        directory: process.env.CACHE_DIR || path.join(process.cwd(), '.cache')
+      });
+  }
+}
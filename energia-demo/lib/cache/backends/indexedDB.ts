@@ -0,0 +1,152 @@
+import { CacheBackend, CacheEntry, CacheEntryMeta, CacheQuotaError, toEntryMeta } from './types';
+
+// Browser IndexedDB: no practical size limit for generated images, and entries are stored as
+// structured clones rather than JSON strings. Two object stores keyed by [namespace, key]: the
+// entries, and their bookkeeping, which iterate and touch use without loading the data.
+
+const STORE_NAME = 'entries';
+const META_STORE_NAME = 'meta';
+
+// Layout of the object stores, counted in the database version so a new layout replaces the old one
+const STORE_LAYOUT_VERSION = 2;
+
+type StoredEntry = {
+  namespace: string;
+  key: string;
+  entry: CacheEntry;
+};
+
+type StoredMeta = {
+  namespace: string;
+  key: string;
+  meta: CacheEntryMeta;
+};
+
+export function createIndexedDBBackend(options: { databaseName: string, version: number }): CacheBackend {
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Open lazily; a version change drops the entries of the previous cache format
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(options.databaseName, options.version * 10 + STORE_LAYOUT_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          for (const name of [STORE_NAME, META_STORE_NAME]) {
+            if (db.objectStoreNames.contains(name)) {
+              db.deleteObjectStore(name);
+            }
+            db.createObjectStore(name, { keyPath: ['namespace', 'key'] }).createIndex('namespace', 'namespace');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later retry when the database cannot be opened (private browsing, blocked upgrade)
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  // Run requests on both stores in one transaction and return their results once it commits, so an
+  // entry and its bookkeeping are written and read together; a full disk is reported as a quota error
+  const transact = async <T extends unknown[]>(
+    mode: IDBTransactionMode,
+    operation: (entries: IDBObjectStore, meta: IDBObjectStore) => { [K in keyof T]: IDBRequest<T[K]> }
+  ): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], mode);
+    const requests = operation(transaction.objectStore(STORE_NAME), transaction.objectStore(META_STORE_NAME));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new CacheQuotaError('indexedDB', 'IndexedDB quota exceeded');
+      }
+      throw error;
+    }
+    return requests.map(request => request.result) as T;
+  };
+
+  // Delete every record of a namespace from a store, within the transaction the store belongs to
+  const deleteNamespace = (store: IDBObjectStore, namespace: string) => {
+    const cursorRequest = store.index('namespace').openKeyCursor(namespace);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  };
+
+  return {
+    id: 'indexedDB',
+
+    // The bookkeeping record is the current one; the entry's own copy is as of its write
+    async get(namespace, key) {
+      const [stored, storedMeta] = await transact<[StoredEntry | undefined, StoredMeta | undefined]>('readonly', (entries, meta) => [
+        entries.get([namespace, key]),
+        meta.get([namespace, key])
+      ]);
+      return stored && (storedMeta ? { ...stored.entry, ...storedMeta.meta } : stored.entry);
+    },
+
+    async set(namespace, key, entry) {
+      await transact('readwrite', (entries, meta) => [
+        entries.put({ namespace, key, entry } as StoredEntry),
+        meta.put({ namespace, key, meta: toEntryMeta(entry) } as StoredMeta)
+      ]);
+    },
+
+    // Only the bookkeeping changes, and only while the entry is still there
+    async touch(namespace, key, meta) {
+      await transact<[]>('readwrite', (entries, metaStore) => {
+        const existing = metaStore.getKey([namespace, key]);
+        existing.onsuccess = () => {
+          if (existing.result !== undefined) {
+            metaStore.put({ namespace, key, meta: toEntryMeta(meta) } as StoredMeta);
+          }
+        };
+        return [];
+      });
+    },
+
+    async delete(namespace, key) {
+      await transact('readwrite', (entries, meta) => [
+        entries.delete([namespace, key]),
+        meta.delete([namespace, key])
+      ]);
+    },
+
+    async iterate(namespace) {
+      const [stored] = await transact<[StoredMeta[]]>('readonly', (entries, meta) => [
+        meta.index('namespace').getAll(namespace)
+      ]);
+      return stored.map(({ key, meta }) => [key, meta]);
+    },
+
+    async clear(namespace) {
+      await transact<[]>('readwrite', (entries, meta) => {
+        deleteNamespace(entries, namespace);
+        deleteNamespace(meta, namespace);
+        return [];
+      });
+    },
+
+    // Origin-wide usage, which is what the browser's quota applies to
+    async estimateUsage() {
+      if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return null;
+      }
+      const { usage, quota } = await navigator.storage.estimate();
+      return usage !== undefined && quota ? { usage, quota } : null;
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import { CacheBackend, CacheEntry, CacheEntryMeta, CacheQuotaError, toEntryMeta } from './types';
+
+// Browser localStorage, one item per entry under `<prefix>:<namespace>:<key>` and one for its
+// bookkeeping under `<prefix>:meta:<namespace>:<key>`, which iterate and touch use without parsing
+// the data. The prefix carries the cache version, so entries from an incompatible version are never read.
+export function createLocalStorageBackend(options: { prefix: string, maxBytes: number, legacyKeys?: string[] }): CacheBackend {
+  const { prefix, maxBytes } = options;
+  const itemKey = (namespace: string, key: string) => `${prefix}:${namespace}:${key}`;
+  const metaKey = (namespace: string, key: string) => `${prefix}:meta:${namespace}:${key}`;
+
+  // Drop the single-blob format and older versions, which this backend cannot read
+  (options.legacyKeys || []).forEach(key => localStorage.removeItem(key));
+
+  const readItem = <T = CacheEntry>(storageKey: string): T | undefined => {
+    const value = localStorage.getItem(storageKey);
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      // Corrupted entries are removed rather than failing every read
+      localStorage.removeItem(storageKey);
+      return undefined;
+    }
+  };
+
+  const writeItem = (storageKey: string, entry: CacheEntry | CacheEntryMeta) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(entry));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new CacheQuotaError('localStorage', `localStorage is full, cannot store ${storageKey}`);
+      }
+      throw error;
+    }
+  };
+
+  // Bookkeeping of an entry; entries stored before the bookkeeping items existed get theirs on first read
+  const readMeta = (namespace: string, key: string): CacheEntryMeta | undefined => {
+    const meta = readItem<CacheEntryMeta>(metaKey(namespace, key));
+    if (meta) {
+      return meta;
+    }
+    const entry = readItem(itemKey(namespace, key));
+    if (entry) {
+      writeItem(metaKey(namespace, key), toEntryMeta(entry));
+    }
+    return entry && toEntryMeta(entry);
+  };
+
+  // Keys of this cache's items in a namespace
+  const namespaceKeys = (namespace: string): string[] => {
+    const namespacePrefix = `${prefix}:${namespace}:`;
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(namespacePrefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  };
+
+  return {
+    id: 'localStorage',
+
+    // The bookkeeping item is the current one; the entry's own copy is as of its write
+    async get(namespace, key) {
+      const entry = readItem(itemKey(namespace, key));
+      const meta = entry && readItem<CacheEntryMeta>(metaKey(namespace, key));
+      return entry && (meta ? { ...entry, ...meta } : entry);
+    },
+
+    async set(namespace, key, entry) {
+      writeItem(itemKey(namespace, key), entry);
+      writeItem(metaKey(namespace, key), toEntryMeta(entry));
+    },
+
+    async touch(namespace, key, meta) {
+      if (readMeta(namespace, key)) {
+        writeItem(metaKey(namespace, key), toEntryMeta(meta));
+      }
+    },
+
+    async delete(namespace, key) {
+      localStorage.removeItem(metaKey(namespace, key));
+      localStorage.removeItem(itemKey(namespace, key));
+    },
+
+    async iterate(namespace) {
+      const namespacePrefix = `${prefix}:${namespace}:`;
+      return namespaceKeys(namespace)
+        .map((storageKey): [string, CacheEntryMeta | undefined] => {
+          const key = storageKey.slice(namespacePrefix.length);
+          return [key, readMeta(namespace, key)];
+        })
+        .filter((item): item is [string, CacheEntryMeta] => item[1] !== undefined);
+    },
+
+    async clear(namespace) {
+      const namespacePrefix = `${prefix}:${namespace}:`;
+      namespaceKeys(namespace).forEach(storageKey => {
+        localStorage.removeItem(metaKey(namespace, storageKey.slice(namespacePrefix.length)));
+        localStorage.removeItem(storageKey);
+      });
+    },
+
+    // Approximate size of everything in localStorage (UTF-16), against a conservative quota
+    async estimateUsage() {
+      let usage = 0;
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        const value = key && localStorage.getItem(key);
+        if (key && value) {
+          usage += (key.length + value.length) * 2;
+        }
+      }
+      return { usage, quota: maxBytes };
+    }
+  };
+}
@@ -0,0 +1,44 @@
+import { CacheBackend, CacheEntry, toEntryMeta } from './types';
+
+// Entries held in the process (or tab) only; also serves as the hot tier in front of persistent backends
+export function createMemoryBackend(): CacheBackend {
+  const namespaces: Record<string, Record<string, CacheEntry>> = {};
+
+  const entriesOf = (namespace: string): Record<string, CacheEntry> => {
+    if (!namespaces[namespace]) {
+      namespaces[namespace] = {};
+    }
+    return namespaces[namespace];
+  };
+
+  return {
+    id: 'memory',
+
+    async get(namespace, key) {
+      return entriesOf(namespace)[key];
+    },
+
+    async set(namespace, key, entry) {
+      entriesOf(namespace)[key] = entry;
+    },
+
+    async touch(namespace, key, meta) {
+      const entry = entriesOf(namespace)[key];
+      if (entry) {
+        entriesOf(namespace)[key] = { ...entry, ...toEntryMeta(meta) };
+      }
+    },
+
+    async delete(namespace, key) {
+      delete entriesOf(namespace)[key];
+    },
+
+    async iterate(namespace) {
+      return Object.entries(entriesOf(namespace)).map(([key, entry]) => [key, toEntryMeta(entry)]);
+    },
+
+    async clear(namespace) {
+      namespaces[namespace] = {};
+    }
+  };
+}
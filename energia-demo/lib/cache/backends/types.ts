@@ -0,0 +1,74 @@
+// Where a cached response came from; demo and fallback entries live longer and are evicted last
+export const CACHE_SOURCES = ['api', 'demo', 'fallback'] as const;
+
+export type CacheSource = typeof CACHE_SOURCES[number];
+
+export function isCacheSource(value: unknown): value is CacheSource {
+  return typeof value === 'string' && (CACHE_SOURCES as readonly string[]).includes(value);
+}
+
+// Entry bookkeeping, without the cached data
+export type CacheEntryMeta = {
+  timestamp: number;
+  hits: number;
+  source: CacheSource;
+  expiresAt: number; // Explicit expiration time
+  perceptualHash?: string; // Perceptual hash of the source image, for near-duplicate lookups
+  config?: string; // Fingerprint of the model and prompt settings that produced the data
+  size?: number; // Approximate size of the data in bytes (JSON length)
+}
+
+// Cache entry with timestamp for expiration
+export type CacheEntry = CacheEntryMeta & {
+  data: any;
+}
+
+// Identifiers of the available backend implementations
+export const CACHE_BACKEND_IDS = ['memory', 'localStorage', 'indexedDB', 'filesystem'] as const;
+
+export type CacheBackendId = typeof CACHE_BACKEND_IDS[number];
+
+export function isCacheBackendId(value: unknown): value is CacheBackendId {
+  return typeof value === 'string' && (CACHE_BACKEND_IDS as readonly string[]).includes(value);
+}
+
+// Storage behind the cache. Backends only store entries under a namespace (the cache type);
+// TTL, eviction and quota handling are applied on top of them by lib/cache.
+export interface CacheBackend {
+  readonly id: CacheBackendId;
+  get(namespace: string, key: string): Promise<CacheEntry | undefined>;
+  set(namespace: string, key: string, entry: CacheEntry): Promise<void>;
+  // Update the bookkeeping of an existing entry (hit counter) without rewriting its data
+  touch(namespace: string, key: string, meta: CacheEntryMeta): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  // Every entry of a namespace, without the data
+  iterate(namespace: string): Promise<Array<[string, CacheEntryMeta]>>;
+  clear(namespace: string): Promise<void>;
+  // Storage used and available in bytes, when the backend can tell
+  estimateUsage?(): Promise<{ usage: number, quota: number } | null>;
+}
+
+// Raised by backends when storage is full, so the cache can evict entries and retry
+export class CacheQuotaError extends Error {
+  readonly backend: CacheBackendId;
+
+  constructor(backend: CacheBackendId, message: string) {
+    super(message);
+    this.name = 'CacheQuotaError';
+    this.backend = backend;
+  }
+}
+
+// Entry bookkeeping only, as returned by iterate
+export function toEntryMeta(entry: CacheEntryMeta): CacheEntryMeta {
+  const { timestamp, hits, source, expiresAt, perceptualHash, config, size } = entry;
+  return {
+    timestamp,
+    hits,
+    source,
+    expiresAt,
+    ...(perceptualHash ? { perceptualHash } : {}),
+    ...(config ? { config } : {}),
+    ...(size !== undefined ? { size } : {})
+  };
+}
@@ -0,0 +1,91 @@
+import { cacheResponse, createCacheBackend, getCachedResponseWithStatus, setCacheBackend, singleFlight } from './index';
+
+// A call that settles when told to, recording the signal it was given
+function deferredCall() {
+  const call: { signal?: AbortSignal, resolve?: (value: string) => void } = {};
+  const run = (signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    call.signal = signal;
+    call.resolve = resolve;
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+  return { call, run };
+}
+
+describe('singleFlight', () => {
+  it('keeps the call running for the callers left when one cancels', async () => {
+    const { call, run } = deferredCall();
+    const job = new AbortController();
+
+    const cancelled = singleFlight('future', 'cancel-one', run, job.signal);
+    const waiting = singleFlight('future', 'cancel-one', run);
+    job.abort();
+
+    await expect(cancelled).rejects.toBeDefined();
+    expect(call.signal!.aborted).toBe(false);
+
+    call.resolve!('projection');
+    await expect(waiting).resolves.toBe('projection');
+  });
+
+  it('aborts the call once every caller has cancelled', async () => {
+    const { call, run } = deferredCall();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = [
+      singleFlight('future', 'cancel-all', run, first.signal),
+      singleFlight('future', 'cancel-all', run, second.signal)
+    ];
+    first.abort();
+    expect(call.signal!.aborted).toBe(false);
+    second.abort();
+
+    await Promise.all(results.map(result => expect(result).rejects.toBeDefined()));
+    expect(call.signal!.aborted).toBe(true);
+  });
+});
+
+// Persistent backend held in memory
+function memoryBackend() {
+  return createCacheBackend('memory', { version: '1', storageKey: 'test', maxLocalStorageBytes: 0 });
+}
+
+describe('perceptual matches', () => {
+  it('are found without listing the entries on every miss', async () => {
+    const backend = memoryBackend();
+    const iterate = jest.spyOn(backend, 'iterate');
+    setCacheBackend(backend);
+
+    await cacheResponse('analyze', 'photo_v1', { components: [] }, 'api', { perceptualHash: 'ffffffffffffff00' });
+    await getCachedResponseWithStatus('analyze', 'resized_v1', { perceptualHash: 'ffffffffffffff01' });
+    await cacheResponse('analyze', 'other_v1', { components: [] }, 'api', { perceptualHash: '0000000000000000' });
+    const match = await getCachedResponseWithStatus('analyze', 'other-copy_v1', { perceptualHash: '0000000000000001' });
+    const otherVariant = await getCachedResponseWithStatus('analyze', 'photo-copy_v2', { perceptualHash: 'ffffffffffffff00' });
+
+    expect(match).toMatchObject({ status: 'hit', match: 'perceptual', distance: 1 });
+    expect(otherVariant.status).toBe('miss');
+    expect(iterate).toHaveBeenCalledTimes(1);
+  });
+});
+
+// Copy of the module as bundled with one API route; Next.js gives each route its own
+function loadRouteCopy(): typeof import('./index') {
+  let cache: typeof import('./index') | undefined;
+  jest.isolateModules(() => {
+    cache = require('./index');
+  });
+  return cache!;
+}
+
+describe('hot entries', () => {
+  it('are shared by every copy of the module', async () => {
+    const writingRoute = loadRouteCopy();
+    const readingRoute = loadRouteCopy();
+    writingRoute.setCacheBackend(null);
+    readingRoute.setCacheBackend(null);
+
+    await writingRoute.cacheResponse('analyze', 'shared_v1', { components: [] }, 'api');
+
+    expect(await readingRoute.getCachedResponseWithStatus('analyze', 'shared_v1')).toMatchObject({ status: 'hit' });
+  });
+});
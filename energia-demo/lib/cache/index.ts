@@ -1,29 +1,53 @@
 import crypto from 'crypto'
+import { DEFAULT_HORIZON_YEARS, formatProjectionDate, HorizonYears } from '../projection'
+import { createTranslator, DEFAULT_LOCALE, Locale } from '../i18n'
+import { getImageDataUrl, listImageIds, putImage } from '../imageStore'
+import { CacheBackend, CacheEntry, CacheEntryMeta, CacheQuotaError, CacheSource, createCacheBackend, createMemoryBackend, getConfiguredBackendId } from './backends'
 
-// Cache entry with timestamp for expiration
-type CacheEntry = {
-  data: any;
-  timestamp: number;
-  hits: number;
-  source: 'api' | 'demo' | 'fallback'; // Track where the data came from
-  expiresAt: number; // Explicit expiration time
-}
+export type { CacheBackend, CacheBackendId, CacheEntry, CacheEntryMeta, CacheSource } from './backends'
+export { CACHE_BACKEND_IDS, CACHE_SOURCES, CacheQuotaError, createCacheBackend, isCacheBackendId, isCacheSource } from './backends'
+
+// Cache types, each stored in its own backend namespace
+export const CACHE_TYPES = ['analyze', 'future', 'futureImage'] as const;
+
+export type CacheType = typeof CACHE_TYPES[number];
 
-// Cache types
-export type CacheType = 'analyze' | 'future' | 'futureImage';
+export function isCacheType(value: unknown): value is CacheType {
+  return typeof value === 'string' && (CACHE_TYPES as readonly string[]).includes(value);
+}
 
 // Possible cache entry states
 export type CacheStatus = 'hit' | 'miss' | 'expired' | 'stale';
 
-// In-memory cache for demo
-const cache: {
-  analyze: Record<string, CacheEntry>;
-  future: Record<string, CacheEntry>;
-  futureImage: Record<string, CacheEntry>;
-} = {
-  analyze: {},
-  future: {},
-  futureImage: {}
+// `_meta.status` of API responses that served stale cache data; clients re-run the refresh of these
+export const STALE_RESPONSE_STATUSES = ['stale', 'stale_fallback', 'stale_revalidating'];
+
+// How a cached response was found: under its own key, or under the key of a perceptually similar image
+export type CacheMatch = 'exact' | 'perceptual';
+
+// Options of a cache lookup
+export type CacheLookupOptions = {
+  // Perceptual hash of the image (see getPerceptualHash in lib/imaging); enables near-duplicate matches
+  perceptualHash?: string | null;
+  // Largest Hamming distance accepted between perceptual hashes; defaults to PERCEPTUAL_MATCH_DISTANCE
+  maxDistance?: number;
+  // Skip entries holding canned fallback data, which is not a result for this image
+  excludeFallback?: boolean;
+};
+
+export type CacheLookupResult = {
+  status: CacheStatus;
+  data: any | null;
+  // Set when an entry was found
+  match?: CacheMatch;
+  // Hamming distance to the matched image, 0 for exact matches
+  distance?: number;
+};
+
+// Read a distance from the environment, keeping the default for missing or invalid values
+function parseMatchDistance(value: string | undefined, fallback: number): number {
+  const distance = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isInteger(distance) && distance >= 0 && distance <= 64 ? distance : fallback;
 }
 
 // Cache configuration
@@ -36,13 +60,17 @@ const CACHE_CONFIG = {
     fallback: 1000 * 60 * 60 * 24 * 30 // 30 days for fallback data
   },
   MAX_ENTRIES: 100, // Maximum entries in each cache category
+  MAX_SINGLE_FLIGHT_KEYS: 1000, // Keys whose single-flight counts are kept, least recently called dropped first
   AUTO_CLEANUP_INTERVAL: 1000 * 60 * 30, // Run cleanup every 30 minutes
   DEMO_MODE: process.env.NEXT_PUBLIC_DEMO_MODE === 'true',
   QUOTA_WARNING_THRESHOLD: 0.8, // 80% of storage quota
   STALE_WHILE_REVALIDATE: 1000 * 60 * 60 * 24 * 7, // Use stale data for up to 7 days while revalidating
   MAX_STORAGE_SIZE: 5 * 1024 * 1024, // 5MB for localStorage (conservative estimate)
   STORAGE_KEY: 'energiaCache',
-  VERSION: '1.0' // Cache version for future compatibility
+  // Largest Hamming distance (out of 64 bits) between perceptual hashes still treated as the same image;
+  // 0 turns near-duplicate matching off
+  PERCEPTUAL_MATCH_DISTANCE: parseMatchDistance(process.env.PERCEPTUAL_MATCH_DISTANCE, 6),
+  VERSION: '2.0' // Cache version; entries written by another version are discarded
 }
 
 // Pre-cached responses for test images
@@ -57,47 +85,180 @@ const preCachedResponses = {
   }
 }
 
-// Initialize cache with pre-cached responses
-export function initializeCache(): void {
-  const now = Date.now();
+// Hot entries, in front of the persistent backend. Shared on globalThis by the copy of this module
+// each API route bundles, so an entry one route writes or invalidates is seen by the others.
+const memoryHolder = globalThis as typeof globalThis & { __energiaCacheMemory?: CacheBackend }
+
+const memory: CacheBackend = memoryHolder.__energiaCacheMemory ||= createMemoryBackend()
+
+// Lookup counters since the process (or page) started, per cache type. Every lookup counts, including
+// the ones analyzeImage and generateFuture make after an API route missed. Kept on globalThis since
+// Next.js bundles each API route with its own copy of this module.
+type LookupStats = Record<CacheType, { hits: number, misses: number, perceptualHits: number }>
+
+const statsHolder = globalThis as typeof globalThis & { __energiaCacheLookupStats?: LookupStats }
+
+const lookupStats: LookupStats = statsHolder.__energiaCacheLookupStats ||= {
+  analyze: { hits: 0, misses: 0, perceptualHits: 0 },
+  future: { hits: 0, misses: 0, perceptualHits: 0 },
+  futureImage: { hits: 0, misses: 0, perceptualHits: 0 }
+}
+
+// Single-flight state: the provider calls running per cache type and key, and per key how many
+// calls ran and how many callers joined a running one instead (calls saved). On globalThis for the
+// same reason as lookupStats, so API routes and library code share calls.
+type SingleFlightState = {
+  inFlight: Map<string, Flight>;
+  counts: Map<string, { calls: number, coalesced: number }>;
+}
+
+// A running call and the callers waiting on it; the call is aborted once every one of them has
+// cancelled (callers without a signal never do)
+type Flight = {
+  call: Promise<any>;
+  controller: AbortController;
+  waiting: number;
+}
+
+const singleFlightHolder = globalThis as typeof globalThis & { __energiaCacheSingleFlight?: SingleFlightState }
+
+const singleFlightState: SingleFlightState = singleFlightHolder.__energiaCacheSingleFlight ||= {
+  inFlight: new Map(),
+  counts: new Map()
+}
+
+// Perceptual hashes of the cached entries, per type, key variant and key, so a miss is matched
+// against them without listing every entry of the backends. Loaded on first use and kept up to date
+// as entries are written and removed; on globalThis for the same reason as lookupStats. Entries
+// another tab wrote since are not matched until the page is reloaded.
+type PerceptualIndex = Partial<Record<CacheType, Promise<Map<string, Map<string, string>>>>>
+
+const perceptualIndexHolder = globalThis as typeof globalThis & { __energiaCachePerceptualIndex?: PerceptualIndex }
+
+const perceptualIndex: PerceptualIndex = perceptualIndexHolder.__energiaCachePerceptualIndex ||= {}
+
+// Refreshes that could not run while the browser was offline, re-run by the `online` event
+type QueuedRevalidation = {
+  type: CacheType;
+  key: string;
+  refresh: () => Promise<unknown>;
+  queuedAt: number;
+}
+
+const queuedRevalidations = new Map<string, QueuedRevalidation>()
+
+// Persistent backend: filesystem on the server, IndexedDB or localStorage in the browser; null when
+// the cache is configured to live in memory only. Chosen on first use.
+let persistent: CacheBackend | null | undefined
+
+function getPersistentBackend(): CacheBackend | null {
+  if (persistent === undefined) {
+    const id = getConfiguredBackendId()
+    persistent = id === 'memory' ? null : createCacheBackend(id, {
+      version: CACHE_CONFIG.VERSION,
+      storageKey: CACHE_CONFIG.STORAGE_KEY,
+      maxLocalStorageBytes: CACHE_CONFIG.MAX_STORAGE_SIZE
+    })
+    
+    // Prune what earlier sessions left expired, and check the quota once per session
+    cleanupCache().then(checkStorageQuota)
+      .catch(error => console.warn('Cache maintenance failed:', error))
+  }
+  return persistent
+}
+
+// Replace the persistent backend, e.g. with createCacheBackend('memory', ...) in scripts; entries
+// already held in memory are kept
+export function setCacheBackend(backend: CacheBackend | null): void {
+  persistent = backend
+  CACHE_TYPES.forEach(type => delete perceptualIndex[type])
+}
+
+// Run an operation on the persistent backend; storage failures degrade to a cache miss
+async function withPersistent<T>(operation: (backend: CacheBackend) => Promise<T>, fallback: T): Promise<T> {
+  const backend = getPersistentBackend()
+  if (!backend) {
+    return fallback
+  }
   
-  // Add pre-cached responses to cache
-  Object.entries(preCachedResponses.analyze).forEach(([key, value]) => {
-    const expirationTime = now + CACHE_CONFIG.TTL.demo;
-    cache.analyze[key] = {
-      data: value,
-      timestamp: now,
-      hits: 0,
-      source: 'demo',
-      expiresAt: expirationTime
+  try {
+    return await operation(backend)
+  } catch (error) {
+    console.error(`Cache backend ${backend.id} failed:`, error)
+    return fallback
+  }
+}
+
+// Read an entry from memory, then from the persistent backend
+async function readEntry(type: CacheType, imageHash: string): Promise<CacheEntry | undefined> {
+  const hot = await memory.get(type, imageHash)
+  if (hot) {
+    return hot
+  }
+  
+  const stored = await withPersistent(backend => backend.get(type, imageHash), undefined)
+  if (stored) {
+    await memory.set(type, imageHash, stored)
+  }
+  return stored
+}
+
+// Write an entry to both tiers; when storage is full, evict and retry once
+async function writeEntry(type: CacheType, imageHash: string, entry: CacheEntry): Promise<void> {
+  await memory.set(type, imageHash, entry)
+  await indexPerceptualHash(type, imageHash, entry.perceptualHash)
+  
+  const backend = getPersistentBackend()
+  if (!backend) {
+    return
+  }
+  
+  try {
+    await backend.set(type, imageHash, entry)
+  } catch (error) {
+    if (!(error instanceof CacheQuotaError)) {
+      console.error(`Cache backend ${backend.id} failed:`, error)
+      return
+    }
+    
+    console.warn('Storage quota exceeded, cleaning up cache...')
+    await cleanupCache(true)
+    try {
+      await backend.set(type, imageHash, entry)
+    } catch (innerError) {
+      console.error('Still failed to store cache entry after cleanup:', innerError)
     }
-  })
-  
-  Object.entries(preCachedResponses.future).forEach(([key, value]) => {
-    const expirationTime = now + CACHE_CONFIG.TTL.demo;
-    cache.future[key] = {
-      data: value,
-      timestamp: now,
-      hits: 0,
-      source: 'demo',
-      expiresAt: expirationTime
+  }
+}
+
+// Record a hit in both tiers
+async function recordHit(type: CacheType, imageHash: string, entry: CacheEntry): Promise<void> {
+  entry.hits++
+  await memory.touch(type, imageHash, entry)
+  await withPersistent(backend => backend.touch(type, imageHash, entry), undefined)
+}
+
+async function removeEntry(type: CacheType, imageHash: string): Promise<void> {
+  await memory.delete(type, imageHash)
+  await indexPerceptualHash(type, imageHash)
+  await withPersistent(backend => backend.delete(type, imageHash), undefined)
+}
+
+// Initialize cache with pre-cached responses
+export async function initializeCache(): Promise<void> {
+  // Add pre-cached responses to cache
+  for (const type of ['analyze', 'future'] as const) {
+    for (const [key, value] of Object.entries(preCachedResponses[type])) {
+      await cacheResponse(type, key, value, 'demo')
     }
-  })
+  }
   
-  // Store in localStorage for persistence
   if (typeof window !== 'undefined') {
-    try {
-      persistCacheToStorage()
-      
-      // Check storage quota and log warning if approaching limit
-      checkStorageQuota();
-      
-    } catch (error) {
-      console.error('Failed to store cache in localStorage:', error)
-    }
-    
     // Set up auto cleanup and maintenance
-    const cleanupInterval = setInterval(cleanupCache, CACHE_CONFIG.AUTO_CLEANUP_INTERVAL);
+    const cleanupInterval = setInterval(() => {
+      cleanupCache().then(checkStorageQuota)
+        .catch(error => console.warn('Cache maintenance failed:', error))
+    }, CACHE_CONFIG.AUTO_CLEANUP_INTERVAL);
     
     // Attach to window events for better cache management
     window.addEventListener('online', handleOnlineStatusChange);
@@ -123,162 +284,137 @@ function handleOnlineStatusChange(): void {
   }
 }
 
-// Check if we're approaching storage quota limits
-function checkStorageQuota(): void {
-  if (typeof navigator !== 'undefined' && 'storage' in navigator && 'estimate' in navigator.storage) {
-    navigator.storage.estimate().then(({usage, quota}) => {
-      if (usage && quota) {
-        const usageRatio = usage / quota;
-        if (usageRatio > CACHE_CONFIG.QUOTA_WARNING_THRESHOLD) {
-          console.warn(`Storage usage is high: ${Math.round(usageRatio * 100)}% of quota used`);
-          // Aggressively clean cache when approaching quota
-          cleanupCache(true);
-        }
-      }
-    });
-  } else {
-    // Fallback for browsers without Storage API
-    try {
-      const totalSize = estimateStorageSize();
-      if (totalSize > CACHE_CONFIG.MAX_STORAGE_SIZE * CACHE_CONFIG.QUOTA_WARNING_THRESHOLD) {
-        console.warn(`Storage usage is high: approximately ${Math.round(totalSize / 1024 / 1024)}MB used`);
-        cleanupCache(true);
-      }
-    } catch (e) {
-      console.error('Error checking storage size:', e);
-    }
+// Check if we're approaching the backend's storage quota, cleaning up aggressively when we are
+async function checkStorageQuota(): Promise<void> {
+  const estimate = await withPersistent(async backend => backend.estimateUsage ? backend.estimateUsage() : null, null);
+  if (!estimate) {
+    return;
+  }
+  
+  const usageRatio = estimate.usage / estimate.quota;
+  if (usageRatio > CACHE_CONFIG.QUOTA_WARNING_THRESHOLD) {
+    console.warn(`Storage usage is high: ${Math.round(usageRatio * 100)}% of quota used`);
+    await cleanupCache(true);
   }
 }
 
-// Estimate the size of localStorage
-function estimateStorageSize(): number {
-  let totalSize = 0;
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key) {
-      const value = localStorage.getItem(key);
-      if (value) {
-        totalSize += key.length + value.length;
-      }
+// Re-run the refreshes queued while offline, analyses first since projections build on them, then
+// the most recently requested first
+export async function revalidateStaleEntries(): Promise<void> {
+  const queued = Array.from(queuedRevalidations.values()).sort((a, b) =>
+    CACHE_TYPES.indexOf(a.type) - CACHE_TYPES.indexOf(b.type) || b.queuedAt - a.queuedAt);
+  queuedRevalidations.clear();
+  
+  if (queued.length > 0) {
+    console.log(`Network is online, revalidating ${queued.length} stale cache entries`);
+  }
+  
+  // One at a time, so the most wanted results come back first
+  for (const { type, key, refresh } of queued) {
+    try {
+      await refresh();
+    } catch (error) {
+      console.warn(`Failed to revalidate ${type} cache entry ${key}:`, error);
     }
   }
-  return totalSize * 2; // Approximate size in bytes (UTF-16 encoding)
 }
 
-// Attempt to revalidate stale cache entries when back online
-function revalidateStaleEntries(): void {
-  // In a full implementation, this would check for stale entries and refresh them from the API
-  // For now, we'll just log that we would do this
-  console.log('Network is online, would revalidate stale cache entries here');
+// Refresh a stale entry in the background; while the browser is offline the refresh is queued until
+// it comes back online. The refresh writes the new entry and coalesces with identical calls
+// (analyzeImage and generateFuture do both). Failures are logged, the stale entry stays in place.
+export function scheduleRevalidation(type: CacheType, key: string, refresh: () => Promise<unknown>): void {
+  if (!getNetworkStatus().online) {
+    queuedRevalidations.set(`${type}:${key}`, { type, key, refresh, queuedAt: Date.now() });
+    return;
+  }
+  
+  refresh().catch(error => {
+    console.warn(`Failed to revalidate ${type} cache entry ${key}:`, error);
+  });
 }
 
-// Save cache to localStorage with metadata and versioning
-function persistCacheToStorage(): void {
-  if (typeof window === 'undefined') return
+// Wait for a running call on behalf of one caller. A caller that cancels is rejected at once with
+// its signal's reason; the call itself is only aborted when no caller is left waiting for it.
+function followFlight<T>(flight: Flight, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    flight.waiting++;
+    return flight.call;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
   
-  try {
-    // Create a cache object with metadata
-    const cacheData = {
-      version: CACHE_CONFIG.VERSION,
-      timestamp: Date.now(),
-      data: cache
+  flight.waiting++;
+  return new Promise<T>((resolve, reject) => {
+    const cancel = () => {
+      flight.waiting--;
+      if (flight.waiting === 0) {
+        flight.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
     };
-    
-    localStorage.setItem(CACHE_CONFIG.STORAGE_KEY, JSON.stringify(cacheData))
-  } catch (error) {
-    console.error('Failed to store cache in localStorage:', error)
-    
-    // If storage is full, clear least used entries and try again
-    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-      console.warn('Storage quota exceeded, cleaning up cache...');
-      cleanupCache(true)
-      try {
-        const cacheData = {
-          version: CACHE_CONFIG.VERSION,
-          timestamp: Date.now(),
-          data: cache
-        };
-        localStorage.setItem(CACHE_CONFIG.STORAGE_KEY, JSON.stringify(cacheData))
-      } catch (innerError) {
-        console.error('Still failed to store cache after cleanup:', innerError)
-        // As a last resort, clear older entries from localStorage
-        pruneLocalStorage();
+    signal.addEventListener('abort', cancel, { once: true });
+    flight.call.then(
+      result => {
+        signal.removeEventListener('abort', cancel);
+        resolve(result);
+      },
+      error => {
+        signal.removeEventListener('abort', cancel);
+        reject(error);
       }
-    }
-  }
+    );
+  });
 }
 
-// Prune other localStorage entries if needed
-function pruneLocalStorage(): void {
-  try {
-    // Find non-essential items to remove
-    const keysToRemove: string[] = [];
-    
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && !key.startsWith(CACHE_CONFIG.STORAGE_KEY)) {
-        keysToRemove.push(key);
-      }
-    }
-    
-    // Remove up to half of the non-essential items
-    const removeCount = Math.ceil(keysToRemove.length / 2);
-    keysToRemove.slice(0, removeCount).forEach(key => {
-      localStorage.removeItem(key);
-    });
-    
-    console.log(`Pruned ${removeCount} items from localStorage to free up space`);
-  } catch (e) {
-    console.error('Error pruning localStorage:', e);
+// Run a provider call for a cache key, or join the call already running for the same key: every
+// caller gets the one result, or the one error. A caller that joins shares the leader's progress
+// reporting, and receives none. Each caller cancels with its own signal; `run` gets a signal that
+// aborts only once every caller has cancelled, so one caller giving up never fails the others.
+export function singleFlight<T>(type: CacheType, key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const id = `${type}:${key}`;
+  const { inFlight, counts } = singleFlightState;
+  
+  // Re-inserted on every call so the least recently called keys are the first dropped
+  const count = counts.get(id) || { calls: 0, coalesced: 0 };
+  counts.delete(id);
+  counts.set(id, count);
+  if (counts.size > CACHE_CONFIG.MAX_SINGLE_FLIGHT_KEYS) {
+    counts.delete(counts.keys().next().value!);
+  }
+  
+  const pending = inFlight.get(id);
+  if (pending) {
+    count.coalesced++;
+    console.log(`Joined the running ${type} call for ${key} (${count.coalesced} calls saved)`);
+    return followFlight<T>(pending, signal);
   }
+  
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  
+  count.calls++;
+  const controller = new AbortController();
+  const flight: Flight = {
+    call: run(controller.signal).finally(() => {
+      inFlight.delete(id);
+    }),
+    controller,
+    waiting: 0
+  };
+  // Nobody may be left to observe the rejection of a call abandoned by every caller
+  flight.call.catch(() => undefined);
+  inFlight.set(id, flight);
+  return followFlight<T>(flight, signal);
 }
 
-// Load cache from localStorage with version checking
-export function loadCacheFromStorage(): void {
-  if (typeof window !== 'undefined') {
-    try {
-      const storedCache = localStorage.getItem(CACHE_CONFIG.STORAGE_KEY)
-      if (storedCache) {
-        const parsedData = JSON.parse(storedCache)
-        
-        // Check cache version
-        if (parsedData.version !== CACHE_CONFIG.VERSION) {
-          console.warn(`Cache version mismatch: stored ${parsedData.version}, current ${CACHE_CONFIG.VERSION}. Rebuilding cache.`);
-          localStorage.removeItem(CACHE_CONFIG.STORAGE_KEY);
-          return;
-        }
-        
-        const parsedCache = parsedData.data;
-        
-        // Merge with current cache, preserving in-memory entries
-        Object.entries(parsedCache.analyze).forEach(([key, value]) => {
-          if (!cache.analyze[key]) {
-            cache.analyze[key] = value as CacheEntry
-          }
-        })
-        
-        Object.entries(parsedCache.future).forEach(([key, value]) => {
-          if (!cache.future[key]) {
-            cache.future[key] = value as CacheEntry
-          }
-        })
-        
-        console.log(`Cache loaded from storage: ${Object.keys(parsedCache.analyze).length} analyze entries, ${Object.keys(parsedCache.future).length} future entries`);
-      }
-    } catch (error) {
-      console.error('Failed to load cache from localStorage:', error);
-      // If there's an error parsing the cache, reset it
-      try {
-        localStorage.removeItem(CACHE_CONFIG.STORAGE_KEY);
-        console.log('Removed corrupted cache from localStorage');
-      } catch (e) {
-        console.error('Failed to remove corrupted cache:', e);
-      }
-    }
-  }
+// Calls run and calls saved by single-flight for one key, since the process (or page) started
+export function getSingleFlightCounts(type: CacheType, key: string): { calls: number, coalesced: number } {
+  return singleFlightState.counts.get(`${type}:${key}`) || { calls: 0, coalesced: 0 };
 }
 
-// Check if a cache entry is expired or stale
+// Check if a cache entry is fresh, stale (expired less than STALE_WHILE_REVALIDATE ago) or expired
 function getCacheEntryStatus(entry: CacheEntry): CacheStatus {
   const now = Date.now();
   
@@ -286,17 +422,20 @@ function getCacheEntryStatus(entry: CacheEntry): CacheStatus {
     return 'miss';
   }
   
-  // Entry is completely expired
-  if (now > entry.expiresAt) {
+  if (now > entry.expiresAt + CACHE_CONFIG.STALE_WHILE_REVALIDATE) {
     return 'expired';
   }
   
+  if (now > entry.expiresAt) {
+    return 'stale';
+  }
+  
   // Entry still valid
   return 'hit';
 }
 
 // Get the appropriate TTL based on source type and cache type
-function getTTL(type: CacheType, source: 'api' | 'demo' | 'fallback'): number {
+function getTTL(type: CacheType, source: CacheSource): number {
   if (source === 'demo') {
     return CACHE_CONFIG.TTL.demo;
   } else if (source === 'fallback') {
@@ -306,22 +445,13 @@ function getTTL(type: CacheType, source: 'api' | 'demo' | 'fallback'): number {
   }
 }
 
-// Clean up expired or least used entries
-export function cleanupCache(force: boolean = false): void {
-  // Skip aggressive cleanup in demo mode unless forced
-  if (CACHE_CONFIG.DEMO_MODE && !force) {
-    // In demo mode, only clean out expired entries
-    cleanCacheCategory('analyze', false);
-    cleanCacheCategory('future', false);
-  } else {
-    // In regular mode or when forced, do a more thorough cleanup
-    cleanCacheCategory('analyze', true);
-    cleanCacheCategory('future', true);
-  }
+// Clean up expired or least used entries of every cache type
+export async function cleanupCache(force: boolean = false): Promise<void> {
+  // Skip aggressive cleanup in demo mode unless forced; in demo mode only expired entries go
+  const aggressive = !CACHE_CONFIG.DEMO_MODE || force;
   
-  // Persist changes
-  if (typeof window !== 'undefined') {
-    persistCacheToStorage();
+  for (const type of CACHE_TYPES) {
+    await cleanCacheCategory(type, aggressive);
   }
   
   if (force) {
@@ -329,23 +459,39 @@ export function cleanupCache(force: boolean = false): void {
   }
 }
 
+// Bookkeeping of every entry of a type, in both tiers; the persistent backend may hold entries
+// never loaded in memory
+async function listEntryMeta(type: CacheType): Promise<Record<string, CacheEntryMeta>> {
+  const known: Record<string, CacheEntryMeta> = {};
+  (await withPersistent(backend => backend.iterate(type), [])).forEach(([key, meta]) => {
+    known[key] = meta;
+  });
+  (await memory.iterate(type)).forEach(([key, meta]) => {
+    known[key] = meta;
+  });
+  return known;
+}
+
 // Clean a specific cache category
-function cleanCacheCategory(type: CacheType, aggressive: boolean): void {
+async function cleanCacheCategory(type: CacheType, aggressive: boolean): Promise<void> {
   const now = Date.now();
   let removedCount = 0;
   
-  // Step 1: Remove expired entries
-  Object.entries(cache[type]).forEach(([key, entry]) => {
-    if (now > entry.expiresAt) {
-      delete cache[type][key];
+  const known = await listEntryMeta(type);
+  
+  // Step 1: Remove expired entries, keeping the ones still worth serving while they are revalidated
+  for (const [key, entry] of Object.entries(known)) {
+    if (now > entry.expiresAt + CACHE_CONFIG.STALE_WHILE_REVALIDATE) {
+      await removeEntry(type, key);
+      delete known[key];
       removedCount++;
     }
-  });
+  }
   
   // Only perform the rest if we're doing an aggressive cleanup
   if (aggressive) {
     // Step 2: If still too many entries, remove least used
-    const entries = Object.entries(cache[type]);
+    const entries = Object.entries(known);
     if (entries.length > CACHE_CONFIG.MAX_ENTRIES) {
       // Sort by source (keep demo and fallback), then by hits, then by timestamp
       const sortedEntries = entries.sort((a, b) => {
@@ -371,10 +517,10 @@ function cleanCacheCategory(type: CacheType, aggressive: boolean): void {
       
       // Remove excess entries (least important first)
       const entriesToRemove = sortedEntries.slice(0, entries.length - CACHE_CONFIG.MAX_ENTRIES);
-      entriesToRemove.forEach(([key]) => {
-        delete cache[type][key];
+      for (const [key] of entriesToRemove) {
+        await removeEntry(type, key);
         removedCount++;
-      });
+      }
     }
   }
   
@@ -400,11 +546,87 @@ export function getImageHash(imageData: string): string {
   }
 }
 
-// Get cached response with status information
-export function getCachedResponseWithStatus(type: CacheType, imageHash: string): { status: CacheStatus, data: any | null } {
-  const cacheEntry = cache[type][imageHash];
+// Number of differing bits between two hex hashes of the same length
+export function getHammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Infinity;
+  }
   
-  if (!cacheEntry) {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Part of a cache key after the image hash (the settings and parameters fingerprint); only entries
+// with the same variant can stand in for each other
+function getKeyVariant(key: string): string {
+  const separator = key.indexOf('_');
+  return separator === -1 ? '' : key.slice(separator);
+}
+
+// Perceptual index of a type, built from the bookkeeping of its entries on first use
+function loadPerceptualIndex(type: CacheType): Promise<Map<string, Map<string, string>>> {
+  return perceptualIndex[type] ||= listEntryMeta(type).then(known => {
+    const index = new Map<string, Map<string, string>>();
+    Object.entries(known).forEach(([key, meta]) => {
+      if (meta.perceptualHash) {
+        addToPerceptualIndex(index, key, meta.perceptualHash);
+      }
+    });
+    return index;
+  });
+}
+
+function addToPerceptualIndex(index: Map<string, Map<string, string>>, key: string, perceptualHash: string): void {
+  const variant = getKeyVariant(key);
+  const keys = index.get(variant) || new Map<string, string>();
+  keys.set(key, perceptualHash);
+  index.set(variant, keys);
+}
+
+// Record the perceptual hash of a written entry, or drop a removed one; an index not loaded yet
+// reads the entries when it is
+async function indexPerceptualHash(type: CacheType, key: string, perceptualHash?: string): Promise<void> {
+  const index = await perceptualIndex[type];
+  if (!index) {
+    return;
+  }
+  if (perceptualHash) {
+    addToPerceptualIndex(index, key, perceptualHash);
+  } else {
+    index.get(getKeyVariant(key))?.delete(key);
+  }
+}
+
+// Key of the cached entry whose image is perceptually closest, within maxDistance
+async function findSimilarKey(type: CacheType, imageHash: string, perceptualHash: string, maxDistance: number): Promise<{ key: string, distance: number } | null> {
+  const keys = (await loadPerceptualIndex(type)).get(getKeyVariant(imageHash));
+  let closest: { key: string, distance: number } | null = null;
+  
+  keys?.forEach((entryHash, key) => {
+    if (key === imageHash) {
+      return;
+    }
+    const distance = getHammingDistance(entryHash, perceptualHash);
+    if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+      closest = { key, distance };
+    }
+  });
+  
+  return closest;
+}
+
+// Look up one key, handling expiry and hit counting
+async function lookupEntry(type: CacheType, imageHash: string, excludeFallback = false): Promise<{ status: CacheStatus, data: any | null }> {
+  const cacheEntry = await readEntry(type, imageHash);
+  
+  if (!cacheEntry || (excludeFallback && cacheEntry.source === 'fallback')) {
     return { status: 'miss', data: null };
   }
   
@@ -412,69 +634,276 @@ export function getCachedResponseWithStatus(type: CacheType, imageHash: string):
   
   // Handle based on status
   if (status === 'expired') {
-    // For expired entries, keep them in cache but mark for revalidation
-    // In demo mode, we might still want to use expired entries
+    // Past the revalidation window; demo mode and demo or fallback entries still serve it as stale
     if (CACHE_CONFIG.DEMO_MODE || cacheEntry.source === 'demo' || cacheEntry.source === 'fallback') {
-      // In demo mode, we'll still return expired entries
-      cacheEntry.hits++;
+      await recordHit(type, imageHash, cacheEntry);
       return { status: 'stale', data: cacheEntry.data };
     }
     
     // In normal mode, remove expired entries and return null
-    delete cache[type][imageHash];
+    await removeEntry(type, imageHash);
     return { status: 'expired', data: null };
   }
   
-  // For valid entries, increment hit counter and return data
-  cacheEntry.hits++;
+  // For valid and stale entries, increment hit counter and return data; callers refresh stale ones
+  await recordHit(type, imageHash, cacheEntry);
   
-  return { status: 'hit', data: cacheEntry.data };
+  return { status, data: cacheEntry.data };
+}
+
+// Get cached response with status information. Without an entry under the exact key, an entry for
+// a perceptually similar image (same photo re-encoded or resized) is used when a perceptual hash is given.
+export async function getCachedResponseWithStatus(type: CacheType, imageHash: string, lookup: CacheLookupOptions = {}): Promise<CacheLookupResult> {
+  const result = await findCachedResponse(type, imageHash, lookup);
+  
+  if (result.match) {
+    lookupStats[type].hits++;
+    if (result.match === 'perceptual') {
+      lookupStats[type].perceptualHits++;
+    }
+  } else {
+    lookupStats[type].misses++;
+  }
+  return result;
+}
+
+// Exact key first, then the entry of the perceptually closest image
+async function findCachedResponse(type: CacheType, imageHash: string, lookup: CacheLookupOptions): Promise<CacheLookupResult> {
+  const exact = await lookupEntry(type, imageHash, lookup.excludeFallback);
+  if (exact.status === 'hit' || exact.status === 'stale') {
+    return { ...exact, match: 'exact', distance: 0 };
+  }
+  
+  const maxDistance = lookup.maxDistance ?? CACHE_CONFIG.PERCEPTUAL_MATCH_DISTANCE;
+  if (!lookup.perceptualHash || maxDistance <= 0) {
+    return exact;
+  }
+  
+  const similar = await findSimilarKey(type, imageHash, lookup.perceptualHash, maxDistance);
+  if (!similar) {
+    return exact;
+  }
+  
+  const result = await lookupEntry(type, similar.key, lookup.excludeFallback);
+  if (result.status !== 'hit' && result.status !== 'stale') {
+    return exact;
+  }
+  
+  console.log(`Perceptual cache match for ${type} (${similar.key}, distance ${similar.distance})`);
+  return { ...result, match: 'perceptual', distance: similar.distance };
 }
 
 // Simplified version of the above for backward compatibility
-export function getCachedResponse(type: CacheType, imageHash: string): any {
-  const { status, data } = getCachedResponseWithStatus(type, imageHash);
+export async function getCachedResponse(type: CacheType, imageHash: string, lookup: CacheLookupOptions = {}): Promise<any> {
+  const { status, data } = await getCachedResponseWithStatus(type, imageHash, lookup);
   return (status === 'hit' || (CACHE_CONFIG.DEMO_MODE && status === 'stale')) ? data : null;
 }
 
-// Cache a response
-export function cacheResponse(type: CacheType, imageHash: string, data: any, source: 'api' | 'demo' | 'fallback' = 'api'): void {
+// Cache a response; the image's perceptual hash is kept so near-duplicates can find the entry, and
+// the configuration fingerprint so entries from superseded settings can be found and purged
+export async function cacheResponse(
+  type: CacheType,
+  imageHash: string,
+  data: any,
+  source: CacheSource = 'api',
+  options: { perceptualHash?: string | null, config?: string } = {}
+): Promise<void> {
   const now = Date.now();
   const ttl = getTTL(type, source);
   
-  cache[type][imageHash] = {
+  await writeEntry(type, imageHash, {
     data,
     timestamp: now,
     hits: 1,
     source,
-    expiresAt: now + ttl
-  };
+    expiresAt: now + ttl,
+    size: JSON.stringify(data ?? null).length,
+    ...(options.perceptualHash ? { perceptualHash: options.perceptualHash } : {}),
+    ...(options.config ? { config: options.config } : {})
+  });
+}
+
+// Short, stable fingerprint of the settings behind a cached result (model, prompt version, locale,
+// horizon...); undefined values are left out and the order of the parts does not matter
+export function getCacheFingerprint(parts: Record<string, string | number | undefined>): string {
+  const normalized = Object.keys(parts)
+    .filter(name => parts[name] !== undefined)
+    .sort()
+    .map(name => `${name}=${parts[name]}`)
+    .join('&');
+  return crypto.createHash('sha1').update(normalized).digest('hex').slice(0, 12);
+}
+
+// Entry whose configuration fingerprint is no longer the current one for its type
+export type SupersededEntry = CacheEntryMeta & {
+  type: CacheType;
+  key: string;
+};
+
+// Entries produced by other settings than the current ones, including entries written before
+// fingerprints existed. Fallback entries do not come from a model and are never superseded.
+export async function listSupersededEntries(current: Record<CacheType, string>): Promise<SupersededEntry[]> {
+  const superseded: SupersededEntry[] = [];
   
-  // Update localStorage
-  if (typeof window !== 'undefined') {
-    persistCacheToStorage();
+  for (const type of CACHE_TYPES) {
+    for (const [key, meta] of Object.entries(await listEntryMeta(type))) {
+      if (meta.source !== 'fallback' && meta.config !== current[type]) {
+        superseded.push({ ...meta, type, key });
+      }
+    }
   }
+  
+  return superseded;
 }
 
-// Clear cache for a specific type
-export function clearCache(type?: CacheType): void {
-  if (type) {
-    // Clear specific cache type
-    cache[type] = {};
-  } else {
-    // Clear all cache
-    cache.analyze = {};
-    cache.future = {};
+// Remove the entries listed by listSupersededEntries; returns how many were removed
+export async function purgeSupersededEntries(current: Record<CacheType, string>): Promise<number> {
+  const superseded = await listSupersededEntries(current);
+  for (const { type, key } of superseded) {
+    await removeEntry(type, key);
   }
   
-  // Update localStorage
-  if (typeof window !== 'undefined') {
-    persistCacheToStorage();
+  if (superseded.length > 0) {
+    console.log(`Purged ${superseded.length} superseded cache entries`);
+  }
+  return superseded.length;
+}
+
+// Clear cache for a specific type, or every type
+export async function clearCache(type?: CacheType): Promise<void> {
+  for (const cleared of type ? [type] : CACHE_TYPES) {
+    await memory.clear(cleared);
+    await withPersistent(backend => backend.clear(cleared), undefined);
+    delete perceptualIndex[cleared];
   }
   
   console.log(`Cache ${type ? type : 'completely'} cleared`);
 }
 
+// Entry bookkeeping as shown by the cache administration
+export type CacheEntryInfo = CacheEntryMeta & {
+  type: CacheType;
+  key: string;
+  // Image part of the key, before the settings fingerprint
+  imageHash: string;
+  // Milliseconds since the entry was written
+  age: number;
+  // Provider calls run for the key, and calls saved by joining a running one
+  calls: number;
+  coalesced: number;
+};
+
+function toEntryInfo(type: CacheType, key: string, meta: CacheEntryMeta, now: number = Date.now()): CacheEntryInfo {
+  return { ...meta, type, key, imageHash: key.split('_')[0], age: now - meta.timestamp, ...getSingleFlightCounts(type, key) };
+}
+
+// Entries of a type, most recent first, optionally from one source only
+export async function listCacheEntries(type: CacheType, filter: { source?: CacheSource } = {}): Promise<CacheEntryInfo[]> {
+  const now = Date.now();
+  return Object.entries(await listEntryMeta(type))
+    .filter(([, meta]) => !filter.source || meta.source === filter.source)
+    .map(([key, meta]) => toEntryInfo(type, key, meta, now))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// One entry with its data, read without counting a hit
+export async function getCacheEntry(type: CacheType, key: string): Promise<(CacheEntryInfo & { data: any }) | null> {
+  const entry = await readEntry(type, key);
+  return entry ? { ...toEntryInfo(type, key, entry), data: entry.data } : null;
+}
+
+// Remove the entries matching every given criterion; returns how many were removed
+export async function invalidateCache(filter: { type?: CacheType, key?: string, source?: CacheSource } = {}): Promise<number> {
+  let removed = 0;
+  
+  for (const type of filter.type ? [filter.type] : CACHE_TYPES) {
+    for (const [key, meta] of Object.entries(await listEntryMeta(type))) {
+      if ((filter.key && key !== filter.key) || (filter.source && meta.source !== filter.source)) {
+        continue;
+      }
+      await removeEntry(type, key);
+      removed++;
+    }
+  }
+  
+  if (removed > 0) {
+    console.log(`Invalidated ${removed} cache entries`, filter);
+  }
+  return removed;
+}
+
+// Counters and sizes of one cache type
+export type CacheTypeStats = {
+  entries: number;
+  bytes: number;
+  bySource: Record<CacheSource, number>;
+  hits: number;
+  misses: number;
+  perceptualHits: number;
+  // Hits over lookups, null before the first lookup
+  hitRatio: number | null;
+  // Provider calls saved by single-flight, for cached and uncached keys alike
+  coalesced: number;
+};
+
+export type CacheStats = {
+  backend: string;
+  types: Record<CacheType, CacheTypeStats>;
+  total: Omit<CacheTypeStats, 'bySource'>;
+  // Storage used and available, when the backend can tell
+  usage: { usage: number, quota: number } | null;
+};
+
+function getHitRatio(hits: number, misses: number): number | null {
+  return hits + misses > 0 ? hits / (hits + misses) : null;
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const types = {} as Record<CacheType, CacheTypeStats>;
+  const total = { entries: 0, bytes: 0, hits: 0, misses: 0, perceptualHits: 0, hitRatio: null as number | null, coalesced: 0 };
+  const coalesced: Record<string, number> = {};
+  singleFlightState.counts.forEach((count, id) => {
+    const type = id.slice(0, id.indexOf(':'));
+    coalesced[type] = (coalesced[type] || 0) + count.coalesced;
+  });
+  
+  for (const type of CACHE_TYPES) {
+    const entries = Object.values(await listEntryMeta(type));
+    const { hits, misses, perceptualHits } = lookupStats[type];
+    const bySource: Record<CacheSource, number> = { api: 0, demo: 0, fallback: 0 };
+    entries.forEach(meta => {
+      bySource[meta.source] = (bySource[meta.source] || 0) + 1;
+    });
+    
+    types[type] = {
+      entries: entries.length,
+      bytes: entries.reduce((sum, meta) => sum + (meta.size || 0), 0),
+      bySource,
+      hits,
+      misses,
+      perceptualHits,
+      hitRatio: getHitRatio(hits, misses),
+      coalesced: coalesced[type] || 0
+    };
+    
+    total.entries += types[type].entries;
+    total.bytes += types[type].bytes;
+    total.hits += hits;
+    total.misses += misses;
+    total.perceptualHits += perceptualHits;
+    total.coalesced += types[type].coalesced;
+  }
+  total.hitRatio = getHitRatio(total.hits, total.misses);
+  
+  const backend = getPersistentBackend();
+  return {
+    backend: backend ? backend.id : 'memory',
+    types,
+    total,
+    usage: await withPersistent(async store => store.estimateUsage ? store.estimateUsage() : null, null)
+  };
+}
+
 // Network status detection with more detail
 export function getNetworkStatus(): { online: boolean, type?: string, effectiveType?: string } {
   if (typeof navigator === 'undefined') {
@@ -504,18 +933,19 @@ export function isOnline(): boolean {
   return getNetworkStatus().online;
 }
 
-// Pre-warm cache with test images
-export async function prewarmCache(testImages: { url: string, data: string, type: 'analyze' | 'future', responseData: any }[]): Promise<void> {
+// Pre-warm cache with test images, each under its bare hash unless a key (and the configuration
+// fingerprint it was built with) is given
+export async function prewarmCache(testImages: { url: string, data: string, type: CacheType, responseData: any, key?: string, config?: string }[]): Promise<void> {
   console.log(`Pre-warming cache with ${testImages.length} test images...`);
   let successCount = 0;
   
   for (const image of testImages) {
     try {
       // Generate hash for the image
-      const imageHash = getImageHash(image.data);
+      const imageHash = image.key || getImageHash(image.data);
       
       // Cache the response with specific source
-      cacheResponse(image.type, imageHash, image.responseData, 'demo');
+      await cacheResponse(image.type, imageHash, image.responseData, 'demo', { config: image.config });
       
       successCount++;
     } catch (error) {
@@ -527,7 +957,7 @@ export async function prewarmCache(testImages: { url: string, data: string, type
 }
 
 // Create or update demo data
-export function createDemoData(demoImages: { url: string, data: string, analyzeData: any, futureData: any }[]): void {
+export async function createDemoData(demoImages: { url: string, data: string, analyzeData: any, futureData: any }[]): Promise<void> {
   if (typeof window === 'undefined') return;
   
   console.log(`Creating demo data for ${demoImages.length} images...`);
@@ -537,17 +967,17 @@ export function createDemoData(demoImages: { url: string, data: string, analyzeD
       // Generate hash for the image
       const imageHash = getImageHash(image.data);
       
-      // Store image data in localStorage for quick retrieval
-      localStorage.setItem(`demoImage_${imageHash}`, image.data);
+      // Store the image as a blob for quick retrieval
+      await putImage(image.data, { kind: 'demo', id: `demo_${imageHash}` });
       
       // Cache analyze response
       if (image.analyzeData) {
-        cacheResponse('analyze', imageHash, image.analyzeData, 'demo');
+        await cacheResponse('analyze', imageHash, image.analyzeData, 'demo');
       }
       
       // Cache future response
       if (image.futureData) {
-        cacheResponse('future', imageHash, image.futureData, 'demo');
+        await cacheResponse('future', imageHash, image.futureData, 'demo');
       }
     }
     
@@ -558,37 +988,39 @@ export function createDemoData(demoImages: { url: string, data: string, analyzeD
 }
 
 // Get fallback analysis data for demo reliability
-export function getFallbackAnalysisData(): any {
+export function getFallbackAnalysisData(locale: Locale = DEFAULT_LOCALE): any {
   // Generate a unique fallback ID for the session
   const fallbackId = getFallbackId();
-  
-  // Define basic dimensions for annotation calculations 
-  // (prevents "intersects" error from undefined values)
-  const imgWidth = 600;
-  const imgHeight = 800;
+  const t = createTranslator(locale);
   
   const fallbackData = {
     components: [
       {
-        type: 'Transformateur',
+        type: t('component.transformer'),
+        typeKey: 'transformer',
         confidence: 0.95,
-        details: 'Transformateur de distribution, modèle standard pour zone urbaine.',
-        condition: 'Bon état',
-        risks: 'Végétation à proximité pourrait poser un risque dans les prochaines années.'
+        details: t('fallback.analysis.transformer.details'),
+        condition: t('fallback.analysis.transformer.condition'),
+        conditionKey: 'good',
+        risks: t('fallback.analysis.transformer.risks')
       },
       {
-        type: 'Ligne électrique',
+        type: t('component.power_line'),
+        typeKey: 'power_line',
         confidence: 0.92,
-        details: 'Ligne de moyenne tension, probablement 25kV.',
-        condition: 'État correct',
-        risks: 'Branches à proximité, élagage recommandé dans les 6 mois.'
+        details: t('fallback.analysis.line.details'),
+        condition: t('fallback.analysis.line.condition'),
+        conditionKey: 'fair',
+        risks: t('fallback.analysis.line.risks')
       },
       {
-        type: 'Poteau',
+        type: t('component.pole'),
+        typeKey: 'pole',
         confidence: 0.98,
-        details: 'Poteau en bois, installation standard.',
-        condition: 'Usure normale',
-        risks: 'Aucun risque immédiat identifié.'
+        details: t('fallback.analysis.pole.details'),
+        condition: t('fallback.analysis.pole.condition'),
+        conditionKey: 'fair',
+        risks: t('fallback.analysis.pole.risks')
       }
     ],
     annotations: [
@@ -596,42 +1028,48 @@ export function getFallbackAnalysisData(): any {
         id: '1',
         type: 'rectangle',
         geometry: {
-          x: 0.1 * imgWidth,
-          y: 0.2 * imgHeight,
-          width: 0.2 * imgWidth,
-          height: 0.3 * imgHeight
+          x: 0.1,
+          y: 0.2,
+          width: 0.2,
+          height: 0.3,
+          space: 'normalized'
         },
         data: {
-          label: 'Transformateur',
-          description: 'Transformateur de distribution'
+          label: t('component.transformer'),
+          typeKey: 'transformer',
+          description: t('fallback.analysis.transformer.annotation')
         }
       },
       {
         id: '2',
         type: 'rectangle',
         geometry: {
-          x: 0.3 * imgWidth,
-          y: 0.1 * imgHeight,
-          width: 0.5 * imgWidth,
-          height: 0.05 * imgHeight
+          x: 0.3,
+          y: 0.1,
+          width: 0.5,
+          height: 0.05,
+          space: 'normalized'
         },
         data: {
-          label: 'Ligne électrique',
-          description: 'Ligne moyenne tension'
+          label: t('component.power_line'),
+          typeKey: 'power_line',
+          description: t('fallback.analysis.line.annotation')
         }
       },
       {
         id: '3',
         type: 'rectangle',
         geometry: {
-          x: 0.4 * imgWidth,
-          y: 0.2 * imgHeight,
-          width: 0.08 * imgWidth,
-          height: 0.6 * imgHeight
+          x: 0.4,
+          y: 0.2,
+          width: 0.08,
+          height: 0.6,
+          space: 'normalized'
         },
         data: {
-          label: 'Poteau',
-          description: 'Poteau en bois'
+          label: t('component.pole'),
+          typeKey: 'pole',
+          description: t('fallback.analysis.pole.annotation')
         }
       }
     ],
@@ -639,57 +1077,70 @@ export function getFallbackAnalysisData(): any {
     meta: {
       source: 'fallback',
       id: fallbackId,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      locale
     }
   };
   
   // Store in cache for consistent retrieval
-  cacheResponse('analyze', `fallback_${fallbackId}`, fallbackData, 'fallback');
+  cacheResponse('analyze', `fallback_${fallbackId}`, fallbackData, 'fallback')
+    .catch(error => console.warn('Failed to cache fallback data:', error));
   
   return fallbackData;
 }
 
 // Get fallback future projection data for demo reliability
-export function getFallbackFutureData(): any {
+export function getFallbackFutureData(
+  horizonYears: HorizonYears = DEFAULT_HORIZON_YEARS,
+  captureDate: Date = new Date(),
+  locale: Locale = DEFAULT_LOCALE
+): any {
   // Use the same fallback ID as analysis for consistency
   const fallbackId = getFallbackId();
+  const t = createTranslator(locale);
   
   const fallbackData = {
-    projectionDate: 'Mai 2030',
-    vegetationGrowth: 'Significatif',
+    projectionDate: formatProjectionDate(horizonYears, captureDate, locale),
+    horizonYears,
+    vegetationGrowth: t('fallback.future.growth'),
     potentialIssues: [
       {
-        component: 'Transformateur',
-        risk: 'Élevé',
-        description: 'La végétation pourrait entrer en contact avec le transformateur d\'ici 3 ans.'
+        component: t('component.transformer'),
+        componentKey: 'transformer',
+        risk: 'high',
+        description: t('fallback.future.transformer')
       },
       {
-        component: 'Ligne électrique',
-        risk: 'Moyen',
-        description: 'Branches au-dessus de la ligne nécessiteront un élagage dans les 1-2 ans.'
+        component: t('component.power_line'),
+        componentKey: 'power_line',
+        risk: 'medium',
+        description: t('fallback.future.line')
       },
       {
-        component: 'Poteau',
-        risk: 'Faible',
-        description: 'Fondation stable, mais surveillance recommandée pour la végétation environnante.'
+        component: t('component.pole'),
+        componentKey: 'pole',
+        risk: 'low',
+        description: t('fallback.future.pole')
       }
     ],
     recommendations: [
-      'Planifier un élagage préventif dans les 12 prochains mois',
-      'Inspecter le site à nouveau dans 6 mois',
-      'Établir un plan de gestion de la végétation sur 5 ans',
-      'Considérer l\'installation d\'équipement de protection supplémentaire'
+      t('projectionText.recommendation.pruning'),
+      t('projectionText.recommendation.reinspect'),
+      t('projectionText.recommendation.plan'),
+      t('projectionText.recommendation.protection')
     ],
     // Add metadata for traceability
     meta: {
       source: 'fallback',
       id: fallbackId,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      locale
     }
   };
   
   // Store in cache for consistent retrieval
-  cacheResponse('future', `fallback_${fallbackId}`, fallbackData, 'fallback');
+  cacheResponse('future', `fallback_${fallbackId}`, fallbackData, 'fallback')
+    .catch(error => console.warn('Failed to cache fallback data:', error));
   
   return fallbackData;
 }
@@ -714,17 +1165,17 @@ function getFallbackId(): string {
 }
 
 // Get a consistent fallback image (for demo mode)
-export function getFallbackImage(): string {
+export async function getFallbackImage(): Promise<string> {
   if (typeof window === 'undefined') {
     return '';
   }
   
   try {
-    // Try to get a random demo image from localStorage
-    const keys = Object.keys(localStorage).filter(key => key.startsWith('demoImage_'));
-    if (keys.length > 0) {
-      const randomKey = keys[Math.floor(Math.random() * keys.length)];
-      const imageData = localStorage.getItem(randomKey);
+    // Try to get a random demo image from the image store
+    const ids = await listImageIds('demo');
+    if (ids.length > 0) {
+      const randomId = ids[Math.floor(Math.random() * ids.length)];
+      const imageData = await getImageDataUrl(randomId);
       if (imageData) {
         return imageData;
       }
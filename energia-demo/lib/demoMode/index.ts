@@ -5,9 +5,31 @@ import { getImageHash, cacheResponse, prewarmCache, createDemoData, CacheType, g
 export const DEMO_MODE_KEY = 'energia_demo_mode';
 export const DEMO_SCENARIO_KEY = 'energia_demo_scenario';
 export const DEMO_LOGS_KEY = 'energia_demo_logs';
+export const DEMO_PROVENANCE_KEY = 'energia_demo_hide_provenance';
 
 // Import after defining constants to avoid circular dependencies
-import { AnalysisResult, FutureAnalysis, generateFutureImage } from '../openai';
+import { AnalysisResult, FutureAnalysis, FutureImageMeta, generateFutureImage, getAnalysisCacheKey, getCacheConfigFingerprints, getFutureCacheKey, getFutureImageCacheKey } from '../openai';
+import { DEFAULT_HORIZON_YEARS, formatProjectionDate } from '../projection';
+import type { Locale } from '../i18n';
+import { blobToDataUrl, getImageDataUrl, listImageIds, putImage } from '../imageStore';
+
+// Server cache state of a demo image result, as reported by /api/cache/demo
+// warm: cached and fresh; stale: cached but expired; missing: a request would call the providers
+export type DemoCacheState = 'warm' | 'stale' | 'missing';
+
+export type DemoCacheCheck = {
+  type: CacheType;
+  // Absent for future images, which are not localized
+  locale?: Locale;
+  key: string;
+  state: DemoCacheState;
+};
+
+export type DemoImageCacheStatus = {
+  image: string;
+  scenario?: string;
+  checks: DemoCacheCheck[];
+};
 
 // Demo image paths - relative to the public directory
 export const DEMO_IMAGES = [
@@ -129,14 +151,42 @@ export function getDemoStatus(): {
   return { enabled, reason, mode, scenario, manuallyActivated };
 }
 
+// Whether demo mode was turned on on purpose (manually or in the environment), rather than forced
+// because the browser has no API key or is offline
+export function isDemoModeRequested(): boolean {
+  return process.env.NEXT_PUBLIC_DEMO_MODE === 'true' || getDemoStatus().manuallyActivated;
+}
+
+// Whether API requests may accept canned fallback data in place of a failed result
+export function isFallbackAllowed(): boolean {
+  return isDemoModeRequested();
+}
+
+// Whether provenance badges are hidden; presenters can hide them while demo mode is on
+export function isProvenanceHidden(): boolean {
+  if (typeof window === 'undefined') return false;
+  return isDemoModeRequested() && localStorage.getItem(DEMO_PROVENANCE_KEY) === 'true';
+}
+
+export function setProvenanceHidden(hidden: boolean): void {
+  if (typeof window === 'undefined') return;
+  
+  if (hidden) {
+    localStorage.setItem(DEMO_PROVENANCE_KEY, 'true');
+  } else {
+    localStorage.removeItem(DEMO_PROVENANCE_KEY);
+  }
+  logDemoEvent('provenance', `Provenance badges ${hidden ? 'hidden' : 'shown'}`);
+}
+
 // Convert image URL to base64 (client-side only)
 export async function imageUrlToBase64(url: string): Promise<string> {
   if (typeof window === 'undefined') return '';
   
   try {
     // First check if we already have this cached
-    const cachedKey = `demoImageUrl_${url}`;
-    const cachedImage = localStorage.getItem(cachedKey);
+    const cachedId = `asset_${url}`;
+    const cachedImage = await getImageDataUrl(cachedId);
     if (cachedImage) {
       return cachedImage;
     }
@@ -153,24 +203,14 @@ export async function imageUrlToBase64(url: string): Promise<string> {
     
     const blob = await response.blob();
     
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        if (typeof reader.result === 'string') {
-          // Cache the result for future use
-          try {
-            localStorage.setItem(cachedKey, reader.result);
-          } catch (storageError) {
-            console.warn('Failed to cache image in localStorage:', storageError);
-          }
-          resolve(reader.result);
-        } else {
-          reject(new Error('Failed to convert image to base64'));
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+    // Cache the blob itself for future use
+    try {
+      await putImage(blob, { kind: 'asset', id: cachedId, sourceUrl: url });
+    } catch (storageError) {
+      console.warn('Failed to cache image in the image store:', storageError);
+    }
+    
+    return await blobToDataUrl(blob);
   } catch (error) {
     console.error('Error converting image to base64:', error);
     return '';
@@ -192,7 +232,8 @@ export async function simulateProcessingDelay(operation: string): Promise<void>
   return new Promise(resolve => setTimeout(resolve, delayTime));
 }
 
-// Pre-defined cached analysis data for demo images
+// Pre-defined cached analysis data for demo images.
+// Written in French and cached under the default-locale keys, so English sessions analyze demo images afresh.
 export const demoAnalysisData: Record<string, AnalysisResult> = {
   '01': {
     components: [
@@ -226,7 +267,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 40,
           y: 100,
           width: 120,
-          height: 180
+          height: 180,
+          space: 'pixels'
         },
         data: {
           label: 'Transformateur',
@@ -240,7 +282,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 180,
           y: 80,
           width: 280,
-          height: 10
+          height: 10,
+          space: 'pixels'
         },
         data: {
           label: 'Ligne électrique',
@@ -254,7 +297,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 200,
           y: 90,
           width: 30,
-          height: 350
+          height: 350,
+          space: 'pixels'
         },
         data: {
           label: 'Poteau',
@@ -295,7 +339,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 150,
           y: 80,
           width: 100,
-          height: 300
+          height: 300,
+          space: 'pixels'
         },
         data: {
           label: 'Pylône de transmission',
@@ -309,7 +354,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 50,
           y: 120,
           width: 300,
-          height: 15
+          height: 15,
+          space: 'pixels'
         },
         data: {
           label: 'Lignes haute tension',
@@ -323,7 +369,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 180,
           y: 140,
           width: 40,
-          height: 60
+          height: 60,
+          space: 'pixels'
         },
         data: {
           label: 'Isolateurs',
@@ -364,7 +411,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 100,
           y: 50,
           width: 80,
-          height: 120
+          height: 120,
+          space: 'pixels'
         },
         data: {
           label: 'Sectionneurs',
@@ -378,7 +426,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 220,
           y: 70,
           width: 40,
-          height: 90
+          height: 90,
+          space: 'pixels'
         },
         data: {
           label: 'Parafoudres',
@@ -392,7 +441,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 160,
           y: 30,
           width: 25,
-          height: 300
+          height: 300,
+          space: 'pixels'
         },
         data: {
           label: 'Poteau composite',
@@ -433,7 +483,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 120,
           y: 150,
           width: 180,
-          height: 120
+          height: 120,
+          space: 'pixels'
         },
         data: {
           label: 'Transformateur de puissance',
@@ -447,7 +498,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 80,
           y: 90,
           width: 70,
-          height: 110
+          height: 110,
+          space: 'pixels'
         },
         data: {
           label: 'Disjoncteurs HT',
@@ -461,7 +513,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 190,
           y: 80,
           width: 200,
-          height: 30
+          height: 30,
+          space: 'pixels'
         },
         data: {
           label: 'Barres collectrices',
@@ -502,7 +555,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 150,
           y: 100,
           width: 40,
-          height: 280
+          height: 280,
+          space: 'pixels'
         },
         data: {
           label: 'Poteau bois avec traverses',
@@ -516,7 +570,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 170,
           y: 120,
           width: 30,
-          height: 60
+          height: 60,
+          space: 'pixels'
         },
         data: {
           label: 'Fusibles',
@@ -530,7 +585,8 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
           x: 70,
           y: 110,
           width: 260,
-          height: 20
+          height: 20,
+          space: 'pixels'
         },
         data: {
           label: 'Lignes de distribution',
@@ -541,25 +597,29 @@ export const demoAnalysisData: Record<string, AnalysisResult> = {
   }
 };
 
+// Pre-generated demo projections all use the default horizon
+const DEMO_PROJECTION_DATE = formatProjectionDate(DEFAULT_HORIZON_YEARS);
+
 // Pre-defined cached future data for demo images
 export const demoFutureData: Record<string, FutureAnalysis> = {
   '01': {
-    projectionDate: 'Mai 2030',
+    projectionDate: DEMO_PROJECTION_DATE,
+    horizonYears: DEFAULT_HORIZON_YEARS,
     vegetationGrowth: 'Croissance de 40-50%, particulièrement rapide pour les érables',
     potentialIssues: [
       {
         component: 'Transformateur',
-        risk: 'Élevé',
+        risk: 'high',
         description: 'L\'érable à proximité aura significativement grandi et menace directement le transformateur. Contact probable d\'ici 3 ans.'
       },
       {
         component: 'Ligne électrique',
-        risk: 'Très élevé',
+        risk: 'very_high',
         description: 'Multiples branches d\'arbres traverseront la ligne, créant des risques de court-circuit lors de vents forts ou tempêtes.'
       },
       {
         component: 'Poteau',
-        risk: 'Moyen',
+        risk: 'medium',
         description: 'Végétation dense à la base pourrait compromettre la stabilité et l\'accès en cas d\'urgence.'
       }
     ],
@@ -571,22 +631,23 @@ export const demoFutureData: Record<string, FutureAnalysis> = {
     ]
   },
   '02': {
-    projectionDate: 'Mai 2030',
+    projectionDate: DEMO_PROJECTION_DATE,
+    horizonYears: DEFAULT_HORIZON_YEARS,
     vegetationGrowth: 'Croissance significative de 30-45% des arbres en périphérie du corridor',
     potentialIssues: [
       {
         component: 'Pylône de transmission',
-        risk: 'Faible',
+        risk: 'low',
         description: 'La végétation à la base du pylône pourrait compliquer l\'accès pour maintenance.'
       },
       {
         component: 'Lignes haute tension',
-        risk: 'Moyen',
+        risk: 'medium',
         description: 'Plusieurs arbres atteindront la zone de dégagement minimale d\'ici 4-5 ans, créant des risques de proximité.'
       },
       {
         component: 'Corridor de ligne',
-        risk: 'Élevé',
+        risk: 'high',
         description: 'Rétrécissement progressif du corridor de sécurité dû à la croissance latérale des arbres matures.'
       }
     ],
@@ -598,22 +659,23 @@ export const demoFutureData: Record<string, FutureAnalysis> = {
     ]
   },
   '03': {
-    projectionDate: 'Mai 2030',
+    projectionDate: DEMO_PROJECTION_DATE,
+    horizonYears: DEFAULT_HORIZON_YEARS,
     vegetationGrowth: 'Croissance rapide de 50-60% des espèces présentes, principalement des arbustes',
     potentialIssues: [
       {
         component: 'Sectionneurs',
-        risk: 'Critique',
+        risk: 'critical',
         description: 'Végétation atteindra et encombrera les sectionneurs, entravant leur fonctionnement et créant des risques d\'arc électrique.'
       },
       {
         component: 'Parafoudres',
-        risk: 'Moyen',
+        risk: 'medium',
         description: 'Végétation à proximité pourrait réduire l\'efficacité de protection en cas de foudre.'
       },
       {
         component: 'Poteau composite',
-        risk: 'Faible',
+        risk: 'low',
         description: 'Base du poteau entourée de végétation dense, mais structure non compromise.'
       }
     ],
@@ -625,22 +687,23 @@ export const demoFutureData: Record<string, FutureAnalysis> = {
     ]
   },
   '04': {
-    projectionDate: 'Mai 2030',
+    projectionDate: DEMO_PROJECTION_DATE,
+    horizonYears: DEFAULT_HORIZON_YEARS,
     vegetationGrowth: 'Croissance modérée de 20-30%, bien contrôlée mais persistante',
     potentialIssues: [
       {
         component: 'Transformateur de puissance',
-        risk: 'Faible',
+        risk: 'low',
         description: 'Peu de risques directs, mais la végétation pourrait entraver le refroidissement.'
       },
       {
         component: 'Disjoncteurs HT',
-        risk: 'Très faible',
+        risk: 'very_low',
         description: 'Zone bien entretenue, risques négligeables.'
       },
       {
         component: 'Périmètre de sécurité',
-        risk: 'Moyen',
+        risk: 'medium',
         description: 'Arbres matures en bordure pourraient poser des risques en cas de chute.'
       }
     ],
@@ -652,22 +715,23 @@ export const demoFutureData: Record<string, FutureAnalysis> = {
     ]
   },
   '05': {
-    projectionDate: 'Mai 2030',
+    projectionDate: DEMO_PROJECTION_DATE,
+    horizonYears: DEFAULT_HORIZON_YEARS,
     vegetationGrowth: 'Croissance très rapide de 60-70%, situation critique si non gérée',
     potentialIssues: [
       {
         component: 'Poteau bois avec traverses',
-        risk: 'Très élevé',
+        risk: 'very_high',
         description: 'Arbres créant un tunnel de végétation autour des équipements, risque imminent de contact.'
       },
       {
         component: 'Fusibles',
-        risk: 'Élevé',
+        risk: 'high',
         description: 'Branches à proximité directe pouvant causer des déclenchements en cas de vent.'
       },
       {
         component: 'Lignes de distribution',
-        risk: 'Critique',
+        risk: 'critical',
         description: 'Multiples points de contact prévus avec la végétation environnante, risque majeur de panne.'
       }
     ],
@@ -795,11 +859,10 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
   }
   
   // Store image data for quick access
-  const localStorageKey = `demoImage_${imageId}`;
   try {
-    localStorage.setItem(localStorageKey, base64Data);
+    await putImage(base64Data, { kind: 'demo', id: getDemoImageStoreId(imageId) });
   } catch (e) {
-    console.warn(`Failed to store demo image ${imageId} in localStorage:`, e);
+    console.warn(`Failed to store demo image ${imageId} in the image store:`, e);
   }
   
   // Hash the image for cache lookup
@@ -807,15 +870,17 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
   
   // Check if we need to generate a future image version
   let futureImageData = base64Data; // Default to original image
-  const futureImageLocalStorageKey = `demoFutureImage_${imageId}`;
+  let futureImageMeta: FutureImageMeta = { mode: 'passthrough', model: 'none', generatedAt: Date.now() };
+  const futureImageStoreId = getFutureDemoImageStoreId(imageId);
   let needToGenerateFuture = true;
   
-  // Try to load from localStorage first
+  // Try to load from the image store first
   try {
-    const cachedFutureImage = localStorage.getItem(futureImageLocalStorageKey);
+    const cachedFutureImage = await getImageDataUrl(futureImageStoreId);
     if (cachedFutureImage) {
       console.log(`Found cached future image for ${imageId}`);
       futureImageData = cachedFutureImage;
+      futureImageMeta = { mode: 'demo_asset', model: 'none', generatedAt: Date.now() };
       needToGenerateFuture = false;
     }
   } catch (e) {
@@ -835,10 +900,11 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
         if (futureData) {
           console.log(`Loaded future image file for ${imageId}`);
           futureImageData = futureData;
+          futureImageMeta = { mode: 'demo_asset', model: 'none', generatedAt: Date.now() };
           needToGenerateFuture = false;
           
-          // Store it in localStorage for next time
-          localStorage.setItem(futureImageLocalStorageKey, futureData);
+          // Store it in the image store for next time
+          await putImage(futureData, { kind: 'demoFuture', id: futureImageStoreId });
         }
       } catch (e) {
         console.warn(`Failed to load future image file for ${imageId}:`, e);
@@ -851,11 +917,13 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
     try {
       console.log(`Generating future image for ${imageId}...`);
       // Use OpenAI to generate a future image
-      futureImageData = await generateFutureImage(base64Data);
+      const generated = await generateFutureImage(base64Data);
+      futureImageData = generated.image;
+      futureImageMeta = generated.meta;
       
       // Store the generated image for future use
-      if (futureImageData !== base64Data) { // Only store if it's actually different
-        localStorage.setItem(futureImageLocalStorageKey, futureImageData);
+      if (generated.meta.mode !== 'passthrough') { // Only store if it's actually different
+        await putImage(futureImageData, { kind: 'demoFuture', id: futureImageStoreId });
         console.log(`Generated and stored future image for ${imageId}`);
       } else {
         console.log(`Failed to generate future image for ${imageId}, using original`);
@@ -868,7 +936,8 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
   // Hash the future image
   const futureImageHash = getImageHash(futureImageData);
   
-  // Prepare data for both analysis and future projections
+  // Prepare data for both analysis and future projections, under the keys lookups will use
+  const config = getCacheConfigFingerprints();
   const demoImages = [];
   
   // Cache analysis data
@@ -877,7 +946,9 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
       url: imagePath,
       data: base64Data,
       type: 'analyze' as CacheType,
-      responseData: demoAnalysisData[imageId]
+      responseData: demoAnalysisData[imageId],
+      key: getAnalysisCacheKey(base64Data),
+      config: config.analyze
     });
   }
   
@@ -885,6 +956,7 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
   if (demoFutureData[imageId]) {
     const futureData = {
       futureImage: futureImageData, // Use the generated or cached future image
+      futureImageMeta,
       analysis: demoFutureData[imageId]
     };
     
@@ -892,7 +964,9 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
       url: imagePath,
       data: base64Data,
       type: 'future' as CacheType,
-      responseData: futureData
+      responseData: futureData,
+      key: getFutureCacheKey(base64Data),
+      config: config.future
     });
     
     // Also cache the future image by itself
@@ -900,7 +974,9 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
       url: imagePath,
       data: base64Data,
       type: 'futureImage' as CacheType,
-      responseData: futureImageData
+      responseData: { image: futureImageData, meta: futureImageMeta },
+      key: getFutureImageCacheKey(base64Data),
+      config: config.futureImage
     });
   }
   
@@ -910,24 +986,51 @@ async function processDemo(imagePath: string, imageId: string): Promise<void> {
   console.log(`Demo image ${imageId} processed and cached with future projection`);
 }
 
+// Image store ids of the demo images
+function getDemoImageStoreId(imageId: string): string {
+  return `demo_${imageId}`;
+}
+
+function getFutureDemoImageStoreId(imageId: string): string {
+  return `demoFuture_${imageId}`;
+}
+
+// Store a demo image brought in from elsewhere (a demo pack) and mark it processed, so demo mode
+// initialization does not fetch or generate it again
+export async function storeDemoImages(imageId: string, imageData: string, futureImageData?: string): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  await putImage(imageData, { kind: 'demo', id: getDemoImageStoreId(imageId) });
+  if (futureImageData) {
+    await putImage(futureImageData, { kind: 'demoFuture', id: getFutureDemoImageStoreId(imageId) });
+  }
+
+  try {
+    const processed = new Set<string>(JSON.parse(localStorage.getItem('demoProcessedImages') || '[]'));
+    processed.add(imageId);
+    localStorage.setItem('demoProcessedImages', JSON.stringify(Array.from(processed)));
+  } catch (e) {
+    console.warn('Failed to save processed images list:', e);
+  }
+}
+
 // Get a random demo image
-export function getRandomDemoImage(): string {
+export async function getRandomDemoImage(): Promise<string> {
   if (typeof window === 'undefined') return DEMO_IMAGES[0];
   
   try {
     // Get all cached demo images
-    const demoImageKeys = Object.keys(localStorage)
-      .filter(key => key.startsWith('demoImage_'));
+    const demoImageIds = await listImageIds('demo');
     
-    if (demoImageKeys.length === 0) {
+    if (demoImageIds.length === 0) {
       // No cached images, return a path
       const randomIndex = Math.floor(Math.random() * DEMO_IMAGES.length);
       return DEMO_IMAGES[randomIndex];
     }
     
     // Get a random cached image
-    const randomKey = demoImageKeys[Math.floor(Math.random() * demoImageKeys.length)];
-    const cachedImage = localStorage.getItem(randomKey);
+    const randomId = demoImageIds[Math.floor(Math.random() * demoImageIds.length)];
+    const cachedImage = await getImageDataUrl(randomId);
     
     if (cachedImage) {
       return cachedImage;
@@ -945,7 +1048,7 @@ export function getRandomDemoImage(): string {
 }
 
 // Get a specific demo image by ID
-export function getDemoImageById(imageId: string): string {
+export async function getDemoImageById(imageId: string): Promise<string> {
   if (typeof window === 'undefined') {
     // Find the path that matches the ID
     const matchingPath = DEMO_IMAGES.find(path => 
@@ -954,9 +1057,8 @@ export function getDemoImageById(imageId: string): string {
   }
   
   try {
-    // Check if we have it in localStorage
-    const localStorageKey = `demoImage_${imageId}`;
-    const cachedImage = localStorage.getItem(localStorageKey);
+    // Check if we have it in the image store
+    const cachedImage = await getImageDataUrl(getDemoImageStoreId(imageId));
     
     if (cachedImage) {
       return cachedImage;
@@ -973,7 +1075,7 @@ export function getDemoImageById(imageId: string): string {
 }
 
 // Get future image version of a demo image
-export function getFutureDemoImageById(imageId: string): string {
+export async function getFutureDemoImageById(imageId: string): Promise<string> {
   if (typeof window === 'undefined') {
     // Find the scenario that matches the ID
     const scenario = Object.values(DEMO_SCENARIOS).find(s => 
@@ -984,8 +1086,7 @@ export function getFutureDemoImageById(imageId: string): string {
   
   try {
     // Check if we have a cached future image
-    const futureImageKey = `demoFutureImage_${imageId}`;
-    const cachedFutureImage = localStorage.getItem(futureImageKey);
+    const cachedFutureImage = await getImageDataUrl(getFutureDemoImageStoreId(imageId));
     
     if (cachedFutureImage) {
       return cachedFutureImage;
@@ -1203,7 +1304,7 @@ export const demoController = {
   },
   
   // Get future scenario image
-  getFutureScenarioImage(): string {
+  getFutureScenarioImage(): Promise<string> {
     const { scenario } = getDemoStatus();
     const scenarioData = DEMO_SCENARIOS[scenario] || DEMO_SCENARIOS.default;
     
@@ -1216,7 +1317,7 @@ export const demoController = {
   },
   
   // Get both current and future images for comparison
-  getComparisonImages(): { current: string, future: string } {
+  async getComparisonImages(): Promise<{ current: string, future: string }> {
     const { scenario } = getDemoStatus();
     const scenarioData = DEMO_SCENARIOS[scenario] || DEMO_SCENARIOS.default;
     
@@ -1224,10 +1325,11 @@ export const demoController = {
     const imagePath = scenarioData.imagePath;
     const imageId = path.basename(imagePath, path.extname(imagePath));
     
-    return {
-      current: getDemoImageById(imageId),
-      future: getFutureDemoImageById(imageId)
-    };
+    const [current, future] = await Promise.all([
+      getDemoImageById(imageId),
+      getFutureDemoImageById(imageId)
+    ]);
+    return { current, future };
   },
   
   // Reset demo to initial state
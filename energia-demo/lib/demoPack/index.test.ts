@@ -0,0 +1,58 @@
+import { createDemoPackEntry, DEMO_PACK_FORMAT, DEMO_PACK_VERSION, DemoPack, DemoPackError, getChecksum, parseDemoPack } from './index';
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQ';
+
+// Pack of the first demo image with one analysis
+function buildPack(overrides: Partial<DemoPack> = {}): DemoPack {
+  const images = { [getChecksum(IMAGE)]: IMAGE };
+  return {
+    format: DEMO_PACK_FORMAT,
+    version: DEMO_PACK_VERSION,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    config: { analyze: '', future: '', futureImage: '' },
+    scenarios: {} as DemoPack['scenarios'],
+    demoImages: [{ id: '01', path: '/demo-images/01.jpg', image: getChecksum(IMAGE) }],
+    images,
+    entries: [createDemoPackEntry({ type: 'analyze', imageId: '01', locale: 'fr-CA', data: { components: [] } }, images)],
+    ...overrides
+  };
+}
+
+function getIssues(pack: DemoPack): string[] {
+  try {
+    parseDemoPack(pack);
+    return [];
+  } catch (error) {
+    return error instanceof DemoPackError ? error.issues : [String(error)];
+  }
+}
+
+describe('parseDemoPack', () => {
+  it('accepts a pack of demo images and cached results', () => {
+    expect(getIssues(buildPack())).toEqual([]);
+  });
+
+  it('rejects images other than the demo images', () => {
+    const pack = buildPack();
+    pack.demoImages[0] = { ...pack.demoImages[0], id: 'photo', path: '/uploads/photo.jpg' };
+
+    expect(getIssues(pack)).toContain('demoImages[0]: not a demo image');
+  });
+
+  it('rejects entries that are not cached results of their type', () => {
+    const pack = buildPack();
+    pack.entries.push(
+      createDemoPackEntry({ type: 'future', imageId: '01', locale: 'fr-CA', horizonYears: 5, data: { components: [] } }, pack.images),
+      createDemoPackEntry({ type: 'analyze', imageId: '01', locale: 'fr-CA', data: { components: [] } }, pack.images)
+    );
+
+    expect(getIssues(pack)).toEqual(['entries[1]: not a cached future result', 'entries[2]: duplicate entry']);
+  });
+
+  it('rejects entries missing the locale or horizon they are cached by', () => {
+    const pack = buildPack();
+    pack.entries[0] = createDemoPackEntry({ type: 'analyze', imageId: '01', data: { components: [] } }, pack.images);
+
+    expect(getIssues(pack)).toEqual(['entries[0]: invalid locale or horizon']);
+  });
+});
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { CacheType, isCacheType, prewarmCache } from '../cache';
+import { GeneratedFutureImage, getAnalysisCacheKey, getCacheConfigFingerprints, getFutureCacheKey, getFutureImageCacheKey } from '../openai';
+import { DEFAULT_HORIZON_YEARS, HorizonYears, isHorizonYears } from '../projection';
+import { isLocale, Locale } from '../i18n';
+import { DEMO_IMAGES, DEMO_SCENARIOS, storeDemoImages } from '../demoMode';
+
+// Demo pack: a versioned JSON bundle of the demo images, their cached analyses, projections and
+// future images, and the scenario definitions. Importing it prewarms the cache it runs against, so a
+// presentation can be set up on a machine that never called the providers.
+
+export const DEMO_PACK_FORMAT = 'energia-demo-pack';
+export const DEMO_PACK_VERSION = 1;
+
+// Images are stored once in the pack; entry data refers to them as `demo-pack-image:<sha256>`
+const IMAGE_REF_PREFIX = 'demo-pack-image:';
+
+export type DemoPackImage = {
+  // Demo image id, the file name without extension (01, 02, …)
+  id: string;
+  path: string;
+  // SHA-256 of the image in `images`
+  image: string;
+};
+
+export type DemoPackEntry = {
+  type: CacheType;
+  imageId: string;
+  // Absent for future images, which are not localized
+  locale?: Locale;
+  // Absent for analyses, which do not depend on the horizon
+  horizonYears?: HorizonYears;
+  data: any;
+  // SHA-256 of the JSON of data
+  sha256: string;
+};
+
+export type DemoPack = {
+  format: typeof DEMO_PACK_FORMAT;
+  version: number;
+  createdAt: string;
+  // Fingerprints of the settings the results were produced with; entries are imported under the
+  // settings of the importing side
+  config: Record<CacheType, string>;
+  scenarios: typeof DEMO_SCENARIOS;
+  demoImages: DemoPackImage[];
+  // Every image of the pack as a data URL, keyed by its SHA-256. Packs sent to the server leave
+  // out the demo images, which it reads from public/
+  images: Record<string, string>;
+  entries: DemoPackEntry[];
+};
+
+export type DemoPackImportResult = {
+  images: number;
+  entries: number;
+};
+
+export type DemoPackImportOptions = {
+  // Form the images of the imported results are cached in; the server stores them and caches
+  // their URLs (/api/images/:id)
+  storeImage?: (image: string) => Promise<string>;
+};
+
+export type DemoPackErrorCode = 'invalid_format' | 'unsupported_version' | 'verification_failed';
+
+// Typed error for packs that cannot be imported, with one issue per offending item
+export class DemoPackError extends Error {
+  readonly code: DemoPackErrorCode;
+  readonly issues: string[];
+
+  constructor(code: DemoPackErrorCode, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'DemoPackError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+export function getChecksum(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function isImageDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:image/');
+}
+
+// Demo image id of a path of DEMO_IMAGES: the file name without extension
+export function getDemoImageId(imagePath: string): string {
+  return imagePath.slice(imagePath.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+}
+
+// Whether entry data has the shape of a cached result of its type
+function hasResultShape(type: CacheType, data: any): boolean {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+  switch (type) {
+    case 'analyze':
+      return Array.isArray(data.components);
+    case 'future':
+      return typeof data.futureImage === 'string' && !!data.analysis && typeof data.analysis === 'object';
+    case 'futureImage':
+      return typeof data.image === 'string' && !!data.meta && typeof data.meta === 'object';
+  }
+}
+
+// Whether an entry names the locale and horizon its type is cached by, and nothing else
+function hasEntryParams(entry: DemoPackEntry): boolean {
+  const { locale, horizonYears } = entry;
+  const localized = entry.type !== 'futureImage';
+  const projected = entry.type !== 'analyze';
+  return (localized ? isLocale(locale) : locale === undefined)
+    && (projected ? isHorizonYears(horizonYears) : horizonYears === undefined);
+}
+
+// Copy of data with every embedded image moved to images and replaced by a reference
+function extractImages(data: any, images: Record<string, string>): any {
+  if (isImageDataUrl(data)) {
+    const checksum = getChecksum(data);
+    images[checksum] = data;
+    return `${IMAGE_REF_PREFIX}${checksum}`;
+  }
+  if (Array.isArray(data)) {
+    return data.map(item => extractImages(item, images));
+  }
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, extractImages(value, images)]));
+  }
+  return data;
+}
+
+// Reverse of extractImages
+function restoreImages(data: any, images: Record<string, string>): any {
+  if (typeof data === 'string' && data.startsWith(IMAGE_REF_PREFIX)) {
+    return images[data.slice(IMAGE_REF_PREFIX.length)];
+  }
+  if (Array.isArray(data)) {
+    return data.map(item => restoreImages(item, images));
+  }
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, restoreImages(value, images)]));
+  }
+  return data;
+}
+
+// Image references of packed entry data
+function listImageRefs(data: any, refs: string[] = []): string[] {
+  if (typeof data === 'string' && data.startsWith(IMAGE_REF_PREFIX)) {
+    refs.push(data.slice(IMAGE_REF_PREFIX.length));
+  } else if (data && typeof data === 'object') {
+    Object.values(data).forEach(value => listImageRefs(value, refs));
+  }
+  return refs;
+}
+
+// Pack entry for cached data, its images moved to the pack's image table
+export function createDemoPackEntry(
+  entry: Omit<DemoPackEntry, 'data' | 'sha256'> & { data: any },
+  images: Record<string, string>
+): DemoPackEntry {
+  const data = extractImages(entry.data, images);
+  return { ...entry, data, sha256: getChecksum(JSON.stringify(data)) };
+}
+
+// Check the structure and every checksum of a parsed pack
+export function parseDemoPack(value: unknown): DemoPack {
+  const pack = value as DemoPack;
+  if (!pack || typeof pack !== 'object' || pack.format !== DEMO_PACK_FORMAT) {
+    throw new DemoPackError('invalid_format', 'Not a demo pack');
+  }
+  if (pack.version !== DEMO_PACK_VERSION) {
+    throw new DemoPackError('unsupported_version', `Unsupported demo pack version: ${pack.version}`);
+  }
+  if (!pack.images || typeof pack.images !== 'object' || !Array.isArray(pack.demoImages) || !Array.isArray(pack.entries)) {
+    throw new DemoPackError('invalid_format', 'Demo pack is missing images or entries');
+  }
+
+  const issues: string[] = [];
+  const imageIds = new Set<string>();
+  const entryIds = new Set<string>();
+
+  for (const [checksum, image] of Object.entries(pack.images)) {
+    if (!isImageDataUrl(image) || getChecksum(image) !== checksum) {
+      issues.push(`images.${checksum}: checksum mismatch`);
+    }
+  }
+
+  // Only the demo images can be packed, each once: entries are cached for the image they name
+  pack.demoImages.forEach((image, index) => {
+    if (!image || !DEMO_IMAGES.includes(image.path) || image.id !== getDemoImageId(image.path) || imageIds.has(image.id)) {
+      issues.push(`demoImages[${index}]: not a demo image`);
+    } else if (!pack.images[image.image]) {
+      issues.push(`demoImages[${index}]: missing image`);
+    } else {
+      imageIds.add(image.id);
+    }
+  });
+
+  pack.entries.forEach((entry, index) => {
+    const path = `entries[${index}]`;
+    const entryId = entry && `${entry.type}/${entry.imageId}/${entry.locale}/${entry.horizonYears}`;
+    if (!entry || !isCacheType(entry.type) || !imageIds.has(entry.imageId)) {
+      issues.push(`${path}: unknown type or image`);
+    } else if (!hasEntryParams(entry)) {
+      issues.push(`${path}: invalid locale or horizon`);
+    } else if (entryIds.has(entryId)) {
+      issues.push(`${path}: duplicate entry`);
+    } else if (!hasResultShape(entry.type, entry.data)) {
+      issues.push(`${path}: not a cached ${entry.type} result`);
+    } else if (getChecksum(JSON.stringify(entry.data)) !== entry.sha256) {
+      issues.push(`${path}: checksum mismatch`);
+    } else if (listImageRefs(entry.data).some(ref => !pack.images[ref])) {
+      issues.push(`${path}: missing image`);
+    }
+    if (entryId) {
+      entryIds.add(entryId);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new DemoPackError('verification_failed', `Demo pack failed verification (${issues.length} issues)`, issues);
+  }
+  return pack;
+}
+
+// Copy of a pack without its demo images, for the server, which has them
+export function withoutDemoImages(pack: DemoPack): DemoPack {
+  const demoChecksums = new Set(pack.demoImages.map(image => image.image));
+  return {
+    ...pack,
+    images: Object.fromEntries(Object.entries(pack.images).filter(([checksum]) => !demoChecksums.has(checksum)))
+  };
+}
+
+// Cache key of an entry under the current settings
+function getEntryCacheKey(entry: DemoPackEntry, imageData: string): string {
+  const { locale, horizonYears } = entry;
+  switch (entry.type) {
+    case 'analyze':
+      return getAnalysisCacheKey(imageData, locale);
+    case 'future':
+      return getFutureCacheKey(imageData, { locale, horizonYears });
+    case 'futureImage':
+      return getFutureImageCacheKey(imageData, { horizonYears });
+  }
+}
+
+// Prewarm the cache of this side (server or browser) with a verified pack; in the browser the demo
+// images and their future images also go to the image store, so demo mode skips processing them
+export async function importDemoPack(pack: DemoPack, options: DemoPackImportOptions = {}): Promise<DemoPackImportResult> {
+  const config = getCacheConfigFingerprints();
+  const imageData = new Map(pack.demoImages.map(image => [image.id, pack.images[image.image]]));
+
+  // Images as the imported results hold them; cache keys are still computed from the image data
+  const cachedImages: Record<string, string> = {};
+  for (const [checksum, image] of Object.entries(pack.images)) {
+    cachedImages[checksum] = options.storeImage ? await options.storeImage(image) : image;
+  }
+
+  await prewarmCache(pack.entries.map(entry => {
+    const data = imageData.get(entry.imageId)!;
+    return {
+      url: entry.imageId,
+      data,
+      type: entry.type,
+      responseData: restoreImages(entry.data, cachedImages),
+      key: getEntryCacheKey(entry, data),
+      config: config[entry.type]
+    };
+  }));
+
+  if (typeof window !== 'undefined') {
+    for (const image of pack.demoImages) {
+      const futureEntry = pack.entries.find(entry =>
+        entry.type === 'futureImage' && entry.imageId === image.id
+        && (entry.horizonYears ?? DEFAULT_HORIZON_YEARS) === DEFAULT_HORIZON_YEARS);
+      const future: GeneratedFutureImage | undefined = futureEntry && restoreImages(futureEntry.data, pack.images);
+      // A passthrough is the original image, not worth a second copy
+      const futureImage = future && future.meta?.mode !== 'passthrough' ? future.image : undefined;
+      await storeDemoImages(image.id, imageData.get(image.id)!, futureImage);
+    }
+  }
+
+  return { images: pack.demoImages.length, entries: pack.entries.length };
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheType, getCacheEntry } from '../cache';
+import { getAnalysisCacheKey, getCacheConfigFingerprints, getFutureCacheKey, getFutureImageCacheKey } from '../openai';
+import { HorizonYears, PROJECTION_HORIZONS } from '../projection';
+import { Locale, LOCALES } from '../i18n';
+import { DEMO_IMAGES, DEMO_SCENARIOS } from '../demoMode';
+import { toImageDataUrl } from '../imageStore/server';
+import { createDemoPackEntry, DEMO_PACK_FORMAT, DEMO_PACK_VERSION, DemoPack, getChecksum, getDemoImageId } from './index';
+
+// Server-only part of the demo pack: reads the demo images from public/ and the stored images
+// cached results link
+
+// Demo image as a data URL, or null when the file is not readable
+export async function readDemoImage(imagePath: string): Promise<string | null> {
+  try {
+    const buffer = await fs.readFile(path.join(process.cwd(), 'public', imagePath));
+    return `data:image/jpeg;base64,${buffer.toString('base64')}`;
+  } catch (error) {
+    console.warn(`Demo image ${imagePath} is not readable:`, error);
+    return null;
+  }
+}
+
+// Copy of cached data with the stored images it links (/api/images/:id) put back inline, or null
+// when one of them was pruned
+async function inlineStoredImages(data: any): Promise<any> {
+  if (typeof data === 'string') {
+    return toImageDataUrl(data);
+  }
+  if (data && typeof data === 'object') {
+    const copy: any = Array.isArray(data) ? [] : {};
+    for (const [key, value] of Object.entries(data)) {
+      copy[key] = await inlineStoredImages(value);
+      if (copy[key] === null && value !== null) {
+        return null;
+      }
+    }
+    return copy;
+  }
+  return data;
+}
+
+// Demo pack of every demo image and the results the server cache holds for it, at every locale and
+// horizon; results that were never produced are left out
+export async function buildDemoPack(): Promise<DemoPack> {
+  const images: Record<string, string> = {};
+  const pack: DemoPack = {
+    format: DEMO_PACK_FORMAT,
+    version: DEMO_PACK_VERSION,
+    createdAt: new Date().toISOString(),
+    config: getCacheConfigFingerprints(),
+    scenarios: DEMO_SCENARIOS,
+    demoImages: [],
+    images,
+    entries: []
+  };
+
+  for (const imagePath of DEMO_IMAGES) {
+    const imageData = await readDemoImage(imagePath);
+    if (!imageData) continue;
+
+    const id = getDemoImageId(imagePath);
+    const checksum = getChecksum(imageData);
+    images[checksum] = imageData;
+    pack.demoImages.push({ id, path: imagePath, image: checksum });
+
+    const addEntry = async (type: CacheType, key: string, params: { locale?: Locale, horizonYears?: HorizonYears }) => {
+      const entry = await getCacheEntry(type, key);
+      // The pack carries its images; results whose image is gone are left out
+      const data = entry && await inlineStoredImages(entry.data);
+      if (data) {
+        pack.entries.push(createDemoPackEntry({ type, imageId: id, ...params, data }, images));
+      }
+    };
+
+    for (const locale of LOCALES) {
+      await addEntry('analyze', getAnalysisCacheKey(imageData, locale), { locale });
+      for (const horizonYears of PROJECTION_HORIZONS) {
+        await addEntry('future', getFutureCacheKey(imageData, { locale, horizonYears }), { locale, horizonYears });
+      }
+    }
+    for (const horizonYears of PROJECTION_HORIZONS) {
+      await addEntry('futureImage', getFutureImageCacheKey(imageData, { horizonYears }), { horizonYears });
+    }
+  }
+
+  return pack;
+}
+
+// Put the demo images of public/ in a pack sent to the server, in place of any it carries. A packed
+// image that differs from the file goes missing, so parseDemoPack rejects the entries made for it.
+export async function restoreDemoImages(value: unknown): Promise<unknown> {
+  const pack = value as DemoPack;
+  if (!pack || typeof pack !== 'object' || !Array.isArray(pack.demoImages) || !pack.images || typeof pack.images !== 'object') {
+    return value;
+  }
+
+  const images = { ...pack.images };
+  for (const image of pack.demoImages) {
+    if (!image) continue;
+    delete images[image.image];
+    const imageData = DEMO_IMAGES.includes(image.path) ? await readDemoImage(image.path) : null;
+    if (imageData && getChecksum(imageData) === image.image) {
+      images[image.image] = imageData;
+    }
+  }
+  return { ...pack, images };
+}
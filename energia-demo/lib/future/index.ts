@@ -0,0 +1,193 @@
+import { getNetworkStatus, getCachedResponseWithStatus, cacheResponse, getFallbackFutureData, scheduleRevalidation } from '../cache';
+import { generateFuture, getFutureCacheKey, FutureImageMeta, FutureResult, FutureStage } from '../openai';
+import { getDemoStatus, simulateProcessingDelay } from '../demoMode';
+import { DEFAULT_HORIZON_YEARS, HorizonYears, parseHorizonYears, PROJECTION_HORIZONS } from '../projection';
+import { DEFAULT_LOCALE, Locale, LOCALES, parseLocale } from '../i18n';
+import { getPerceptualHash, isImageDataUrl } from '../imaging';
+import { createApiResponse, toApiError } from '../api/server';
+import { isImageAvailable, toStoredImageUrl } from '../imageStore/server';
+import type { FutureResponse } from '../api/contracts';
+
+// Future projection requests shared by /api/generate-future and the job API, so both validate
+// the same way and fall back to the same cache and demo data.
+
+// Validated projection request
+export type FutureRequest = {
+  image: string;
+  mask?: string;
+  horizonYears: HorizonYears;
+  captureDate: Date;
+  locale: Locale;
+  // Wait for the refresh of a stale projection instead of being served the stale one
+  revalidate?: boolean;
+  // Substitute canned fallback data for provider failures instead of failing
+  fallback?: boolean;
+};
+
+// Hooks for callers running the projection in the background
+export type FutureRunOptions = {
+  onProgress?: (stage: FutureStage) => void;
+  signal?: AbortSignal;
+};
+
+// Validate a request body; returns the message for a 400 response when it is invalid
+export function parseFutureRequest(body: any): FutureRequest | { error: string } {
+  const { image, mask } = body || {};
+  if (!image) {
+    return { error: 'Image is required' };
+  }
+  if (!isImageDataUrl(image)) {
+    return { error: 'Image must be a base64 image data URL' };
+  }
+  if (mask !== undefined && !isImageDataUrl(mask)) {
+    return { error: 'Mask must be an image data URL' };
+  }
+
+  const horizonYears = parseHorizonYears(body.horizonYears);
+  if (horizonYears === null) {
+    return { error: `horizonYears must be one of ${PROJECTION_HORIZONS.join(', ')}` };
+  }
+
+  const captureDate = body.captureDate ? new Date(body.captureDate) : new Date();
+  if (isNaN(captureDate.getTime())) {
+    return { error: 'captureDate must be an ISO date' };
+  }
+
+  const locale = parseLocale(body.locale);
+  if (locale === null) {
+    return { error: `locale must be one of ${LOCALES.join(', ')}` };
+  }
+
+  return {
+    image,
+    mask,
+    horizonYears: horizonYears ?? DEFAULT_HORIZON_YEARS,
+    captureDate,
+    locale: locale ?? DEFAULT_LOCALE,
+    ...(body.revalidate === true ? { revalidate: true } : {}),
+    ...(body.fallback === true ? { fallback: true } : {})
+  };
+}
+
+// Cache key of the projection a request produces
+export function getFutureRequestKey(request: FutureRequest): string {
+  return getFutureCacheKey(request.image, request);
+}
+
+// Metadata for responses that show the capture itself as the projection
+function passthroughMeta(): FutureImageMeta {
+  return { mode: 'passthrough', model: 'none', generatedAt: Date.now() };
+}
+
+// Demo projection for a request: the capture itself with the fallback analysis
+export function getFallbackFuture(request: Pick<FutureRequest, 'image' | 'horizonYears' | 'captureDate' | 'locale'>): FutureResult {
+  return {
+    futureImage: request.image, // For simplicity, use the original image
+    futureImageMeta: passthroughMeta(),
+    analysis: getFallbackFutureData(request.horizonYears, request.captureDate, request.locale)
+  };
+}
+
+// Projection as cached and sent in responses: the projected image is stored and linked
+// (/api/images/:id) rather than embedded
+export async function serveFutureImage(result: FutureResult): Promise<FutureResult> {
+  return { ...result, futureImage: await toStoredImageUrl(result.futureImage) };
+}
+
+// Resolve a projection from the cache, demo data or the providers. Provider errors are thrown to
+// the caller as an ApiError unless the request opted in to fallback data; cancellation (an aborted
+// signal) is always thrown.
+export async function resolveFutureProjection(
+  request: FutureRequest,
+  runOptions: FutureRunOptions = {}
+): Promise<FutureResponse> {
+  const startTime = Date.now();
+  const { image, revalidate, fallback, ...futureOptions } = request;
+
+  // Check demo mode and network status
+  const demoStatus = getDemoStatus();
+  const networkStatus = getNetworkStatus();
+
+  // Generate image hash for cache lookup (a mask, horizon or locale yields a distinct projection),
+  // with the perceptual hash for near-identical copies of the photo
+  const imageHash = getFutureRequestKey(request);
+  const perceptualHash = await getPerceptualHash(image);
+
+  // Try to get cached response first
+  // Canned fallback entries only count where fallback data may be served
+  const cached = await getCachedResponseWithStatus('future', imageHash, {
+    perceptualHash,
+    excludeFallback: !fallback && !demoStatus.enabled
+  });
+  const { data: cachedData, match, distance } = cached;
+  // A cached projection whose stored image was pruned is produced again
+  const imagePruned = !!cachedData && !(await isImageAvailable(cachedData.futureImage));
+  const cacheStatus = imagePruned ? 'miss' : cached.status;
+
+  const createResponse = async (data: FutureResult, source: string, status: string) =>
+    createApiResponse(await serveFutureImage(data), { source, status, startTime, match, distance });
+
+  // Return cached data if valid
+  if (cacheStatus === 'hit') {
+    console.log(`Cache hit for future projection (${imageHash})`);
+    return createResponse(cachedData, 'cache', 'hit');
+  }
+
+  // If demo mode is enabled or we're offline, use demo data
+  if (demoStatus.enabled) {
+    console.log(`Demo mode enabled (${demoStatus.mode}) - using demo/fallback data for future projection`);
+
+    // Simulate processing delay for realism
+    await simulateProcessingDelay('future projection');
+
+    const fallbackData = await serveFutureImage(getFallbackFuture(request));
+    await cacheResponse('future', imageHash, fallbackData, 'fallback', { perceptualHash });
+
+    return createResponse(fallbackData, 'demo', demoStatus.mode);
+  }
+
+  // If stale cache data and offline, use it
+  if (cacheStatus === 'stale' && !networkStatus.online) {
+    console.log(`Using stale cache data for future projection (${imageHash}) - offline mode`);
+    return createResponse(cachedData, 'cache', 'stale');
+  }
+
+  // Serve stale data at once and let the providers refresh it in the background
+  if (cacheStatus === 'stale' && !revalidate) {
+    console.log(`Serving stale cache data for future projection (${imageHash}) while revalidating`);
+    scheduleRevalidation('future', imageHash, () => generateFuture(image, { ...futureOptions, refresh: true }));
+    return createResponse(cachedData, 'cache', 'stale_revalidating');
+  }
+
+  // Run the projection with the configured providers
+  try {
+    console.log(`Processing image for future projection with the providers (${imageHash.substr(0, 8)}...)`);
+    const result = await generateFuture(image, { ...futureOptions, ...runOptions, refresh: cacheStatus === 'stale' || imagePruned });
+
+    return createResponse(result, 'api', cacheStatus === 'stale' ? 'revalidated' : 'fresh');
+  } catch (apiError) {
+    if (runOptions.signal?.aborted) {
+      throw apiError;
+    }
+
+    console.error('Provider error for future projection:', apiError);
+
+    // If stale cache data exists, use it
+    if (cacheStatus === 'stale') {
+      console.log(`Using stale cache data after API error for future projection (${imageHash})`);
+      return createResponse(cachedData, 'cache', 'stale_fallback');
+    }
+
+    const error = toApiError(apiError);
+    if (!fallback) {
+      throw error;
+    }
+
+    // Fall back to demo data on API error
+    const fallbackData = await serveFutureImage(getFallbackFuture(request));
+    await cacheResponse('future', imageHash, fallbackData, 'fallback', { perceptualHash });
+
+    // An open circuit short-circuited the call; the fallback tells it apart from a failed call
+    return createResponse(fallbackData, 'fallback', error.code === 'provider_unavailable' ? 'circuit_open' : 'api_error');
+  }
+}
@@ -0,0 +1,42 @@
+import { projectFirstContact, projectTreeGrowth, VegetationObservation } from './index';
+
+// Slow cedar already close to the component: clearance lost in 1 year, contact in 16
+const SLOW_AND_CLOSE: VegetationObservation = { species: 'thuya', heightMeters: 6, clearanceMeters: 1.6, position: 'beside' };
+
+// Fast poplar further away: clearance lost in 3 years, contact in 4
+const FAST_AND_FAR: VegetationObservation = { species: 'peuplier_hybride', heightMeters: 5, clearanceMeters: 6, position: 'below' };
+
+describe('projectFirstContact', () => {
+  it('picks the tree that loses the clearance first, not the one that touches first', () => {
+    const projection = projectFirstContact([FAST_AND_FAR, SLOW_AND_CLOSE], 2025);
+
+    expect(projection?.assumptions.species).toBe('thuya');
+    expect(projection?.yearsToClearanceLoss).toBe(1);
+    expect(projection?.clearanceLostYear).toBe(2026);
+  });
+
+  it('ranks trees that stop growing short of the clearance last', () => {
+    const mature: VegetationObservation = { species: 'thuya', heightMeters: 11.5, clearanceMeters: 3, position: 'below' };
+
+    expect(projectFirstContact([mature, FAST_AND_FAR], 2025)?.assumptions.species).toBe('peuplier_hybride');
+  });
+});
+
+describe('projectTreeGrowth', () => {
+  it('stops height growth at the mature height of the species', () => {
+    // 0.5 m left to grow: the 1.5 m clearance is kept and contact never happens
+    const projection = projectTreeGrowth({ species: 'thuya', heightMeters: 11.5, clearanceMeters: 3, position: 'below' }, 2025);
+
+    expect(projection.yearsToClearanceLoss).toBeNull();
+    expect(projection.yearsToContact).toBeNull();
+    expect(projection.clearanceLostYear).toBeNull();
+  });
+
+  it('loses the clearance but stops before contact when the tree matures in between', () => {
+    // 2 m left to grow: enough to come within 1.5 m, not to reach the component 3 m away
+    const projection = projectTreeGrowth({ species: 'thuya', heightMeters: 10, clearanceMeters: 3, position: 'below' }, 2025);
+
+    expect(projection.yearsToClearanceLoss).toBe(6);
+    expect(projection.yearsToContact).toBeNull();
+  });
+});
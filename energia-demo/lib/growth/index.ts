@@ -0,0 +1,135 @@
+import { GROWTH_TABLE_VERSION, SPECIES_GROWTH, SpeciesId } from './species';
+import { DEFAULT_LOCALE, Locale, translate } from '../i18n';
+
+export { GROWTH_TABLE_VERSION, SPECIES_GROWTH, SPECIES_IDS, isSpeciesId } from './species';
+export type { SpeciesGrowth, SpeciesId } from './species';
+
+// Deterministic vegetation growth model: from a tree's species, height and current distance to
+// a component, estimate when the required clearance is lost and when contact happens.
+
+// Minimum distance to keep between vegetation and distribution equipment, in meters
+export const REQUIRED_CLEARANCE_METERS = 1.5;
+
+// Where the tree stands relative to the component; decides which growth closes the gap
+export type TreePosition = 'below' | 'beside';
+
+// A tree observed near a component, as estimated from the photo
+export type VegetationObservation = {
+  species: SpeciesId;
+  heightMeters: number;
+  clearanceMeters: number; // Current distance between the crown and the component
+  position: TreePosition;
+};
+
+// Everything a projection relied on, so it can be audited and reproduced
+export type GrowthAssumptions = {
+  species: SpeciesId;
+  speciesName: string; // Common name in the locale the projection was made for
+  heightMeters: number;
+  clearanceMeters: number;
+  position: TreePosition;
+  annualGrowthMeters: number;
+  matureHeightMeters: number;
+  requiredClearanceMeters: number;
+  tableVersion: string;
+};
+
+// Years are null when the tree stops growing (reaches its mature height) before closing the gap
+export type GrowthProjection = {
+  yearsToClearanceLoss: number | null; // 0 when the clearance is already lost
+  yearsToContact: number | null;       // 0 when the tree already touches the component
+  clearanceLostYear: number | null;
+  assumptions: GrowthAssumptions;
+};
+
+// Round to one decimal, as shown in the interface
+function roundYears(years: number): number {
+  return Math.max(0, Math.round(years * 10) / 10);
+}
+
+// Project a single tree: the gap closes by height growth for trees under the component, up to
+// the species' mature height, and by crown spread for trees next to it
+export function projectTreeGrowth(
+  observation: VegetationObservation,
+  captureYear: number,
+  requiredClearanceMeters: number = REQUIRED_CLEARANCE_METERS,
+  locale: Locale = DEFAULT_LOCALE
+): GrowthProjection {
+  const growth = SPECIES_GROWTH[observation.species];
+  const annualGrowthMeters = observation.position === 'below' ? growth.heightGrowth : growth.crownGrowth;
+  const clearance = Math.max(0, observation.clearanceMeters);
+
+  // Most a tree below the component can still rise before it stops growing
+  const remainingGrowth = observation.position === 'below'
+    ? Math.max(0, growth.matureHeight - observation.heightMeters)
+    : Infinity;
+  const yearsToClose = (gap: number): number | null => {
+    if (gap <= 0) {
+      return 0;
+    }
+    return gap > remainingGrowth ? null : roundYears(gap / annualGrowthMeters);
+  };
+
+  const yearsToClearanceLoss = yearsToClose(clearance - requiredClearanceMeters);
+  const yearsToContact = yearsToClose(clearance);
+
+  return {
+    yearsToClearanceLoss,
+    yearsToContact,
+    clearanceLostYear: yearsToClearanceLoss === null ? null : captureYear + Math.floor(yearsToClearanceLoss),
+    assumptions: {
+      species: observation.species,
+      speciesName: translate(locale, `species.${observation.species}`),
+      heightMeters: observation.heightMeters,
+      clearanceMeters: observation.clearanceMeters,
+      position: observation.position,
+      annualGrowthMeters,
+      matureHeightMeters: growth.matureHeight,
+      requiredClearanceMeters,
+      tableVersion: GROWTH_TABLE_VERSION
+    }
+  };
+}
+
+// Years for sorting, a gap that never closes last
+function yearsOrNever(years: number | null): number {
+  return years === null ? Infinity : years;
+}
+
+// The tree that takes the clearance first (the measure risk scores and projections report), the
+// earlier contact breaking ties, or null when none was observed
+export function projectFirstContact(
+  vegetation: VegetationObservation[],
+  captureYear: number,
+  requiredClearanceMeters: number = REQUIRED_CLEARANCE_METERS,
+  locale: Locale = DEFAULT_LOCALE
+): GrowthProjection | null {
+  return vegetation
+    .map(observation => projectTreeGrowth(observation, captureYear, requiredClearanceMeters, locale))
+    .reduce<GrowthProjection | null>(
+      (first, projection) => {
+        if (!first) {
+          return projection;
+        }
+        const lossDelta = yearsOrNever(projection.yearsToClearanceLoss) - yearsOrNever(first.yearsToClearanceLoss);
+        if (lossDelta !== 0) {
+          return lossDelta < 0 ? projection : first;
+        }
+        return yearsOrNever(projection.yearsToContact) < yearsOrNever(first.yearsToContact) ? projection : first;
+      },
+      null
+    );
+}
+
+// Format a distance, e.g. "1,5 m" in French or "1.5 m" in English
+export function formatMeters(meters: number, locale: Locale = DEFAULT_LOCALE): string {
+  return `${meters.toLocaleString(locale, { maximumFractionDigits: 1 })} m`;
+}
+
+// Format a number of years, e.g. "2,5 ans" in French or "2.5 years" in English
+export function formatYears(years: number, locale: Locale = DEFAULT_LOCALE): string {
+  const value = years.toLocaleString(locale, { maximumFractionDigits: 1 });
+  // French uses the singular below 2, English only for exactly 1
+  const singular = locale === 'fr-CA' ? years < 2 : years === 1;
+  return translate(locale, singular ? 'growth.years.one' : 'growth.years.many', { value });
+}
@@ -0,0 +1,51 @@
+// Annual growth rates for tree species common near Québec distribution lines.
+// Indicative averages for open-grown trees on typical sites; foresters can adjust them here.
+// Bump GROWTH_TABLE_VERSION whenever a value changes so projections show which table they used.
+export const GROWTH_TABLE_VERSION = '1.1';
+
+export const SPECIES_IDS = [
+  'erable_argente',
+  'erable_rouge',
+  'erable_a_sucre',
+  'peuplier_faux_tremble',
+  'peuplier_hybride',
+  'bouleau_blanc',
+  'frene',
+  'saule',
+  'pin_blanc',
+  'epinette_blanche',
+  'sapin_baumier',
+  'thuya',
+  'inconnue'
+] as const;
+
+export type SpeciesId = typeof SPECIES_IDS[number];
+
+// Common names are translated in the i18n catalogs under `species.<id>`
+export type SpeciesGrowth = {
+  latinName: string;
+  heightGrowth: number;  // Vertical growth, meters per year
+  crownGrowth: number;   // Lateral crown spread, meters per year (radius)
+  matureHeight: number;  // Typical height at maturity, meters; height growth stops there
+};
+
+export const SPECIES_GROWTH: Record<SpeciesId, SpeciesGrowth> = {
+  erable_argente: { latinName: 'Acer saccharinum', heightGrowth: 0.9, crownGrowth: 0.6, matureHeight: 25 },
+  erable_rouge: { latinName: 'Acer rubrum', heightGrowth: 0.6, crownGrowth: 0.4, matureHeight: 20 },
+  erable_a_sucre: { latinName: 'Acer saccharum', heightGrowth: 0.35, crownGrowth: 0.3, matureHeight: 25 },
+  peuplier_faux_tremble: { latinName: 'Populus tremuloides', heightGrowth: 0.9, crownGrowth: 0.4, matureHeight: 20 },
+  peuplier_hybride: { latinName: 'Populus × canadensis', heightGrowth: 1.5, crownGrowth: 0.8, matureHeight: 30 },
+  bouleau_blanc: { latinName: 'Betula papyrifera', heightGrowth: 0.5, crownGrowth: 0.3, matureHeight: 20 },
+  frene: { latinName: 'Fraxinus spp.', heightGrowth: 0.5, crownGrowth: 0.35, matureHeight: 20 },
+  saule: { latinName: 'Salix spp.', heightGrowth: 1.2, crownGrowth: 0.8, matureHeight: 15 },
+  pin_blanc: { latinName: 'Pinus strobus', heightGrowth: 0.6, crownGrowth: 0.3, matureHeight: 30 },
+  epinette_blanche: { latinName: 'Picea glauca', heightGrowth: 0.35, crownGrowth: 0.15, matureHeight: 20 },
+  sapin_baumier: { latinName: 'Abies balsamea', heightGrowth: 0.3, crownGrowth: 0.15, matureHeight: 15 },
+  thuya: { latinName: 'Thuja occidentalis', heightGrowth: 0.25, crownGrowth: 0.1, matureHeight: 12 },
+  // Unidentified trees use a middle-of-the-table rate and height
+  inconnue: { latinName: '', heightGrowth: 0.6, crownGrowth: 0.4, matureHeight: 20 }
+};
+
+export function isSpeciesId(value: unknown): value is SpeciesId {
+  return typeof value === 'string' && (SPECIES_IDS as readonly string[]).includes(value);
+}
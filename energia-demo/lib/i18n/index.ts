@@ -0,0 +1,70 @@
+import { frCA } from './messages/fr-CA';
+import { enCA } from './messages/en-CA';
+
+// Interface locales. fr-CA is the reference catalog and the default for people and for data.
+export const LOCALES = ['fr-CA', 'en-CA'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'fr-CA';
+
+// localStorage key holding the locale picked in the interface
+export const LOCALE_STORAGE_KEY = 'energia_locale';
+
+export type MessageKey = keyof typeof frCA;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'fr-CA': frCA,
+  'en-CA': enCA
+};
+
+// Language named in model prompts so generated text comes back in the interface language
+const PROMPT_LANGUAGES: Record<Locale, string> = {
+  'fr-CA': 'Canadian French',
+  'en-CA': 'Canadian English'
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+// Read a locale from a request or a browser setting; a bare language ("en", "en-US") maps to
+// its Canadian variant. Returns undefined when absent and null when unsupported.
+export function parseLocale(value: unknown): Locale | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (isLocale(value)) {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALES.find(locale => locale.toLowerCase().startsWith(`${language}-`)) || null;
+}
+
+export function getPromptLanguage(locale: Locale): string {
+  return PROMPT_LANGUAGES[locale];
+}
+
+// Look up a message and fill its {placeholders}; unknown placeholders are left as written
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale][key] || CATALOGS[DEFAULT_LOCALE][key] || key;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
+
+// Every translation of a key, for reading labels saved in either language
+export function allTranslations(key: MessageKey): string[] {
+  return LOCALES.map(locale => CATALOGS[locale][key]);
+}
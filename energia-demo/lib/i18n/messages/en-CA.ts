@@ -0,0 +1,327 @@
+import type { MessageKey } from '../index';
+
+// English (Canada) catalog; typed against the French reference so no key can be missing
+export const enCA: Record<MessageKey, string> = {
+  'locale.fr-CA': 'Français',
+  'locale.en-CA': 'English',
+
+  'common.loading': 'Loading...',
+  'common.loadingInterface': 'Loading interface...',
+  'common.error': 'Error',
+  'common.back': 'Back',
+  'common.backHome': 'Back to home',
+  'common.backToAnalysis': 'Back to analysis',
+  'common.close': 'Close',
+  'common.dismiss': 'Dismiss',
+
+  'layout.description': 'ÉnergIA - Hydro-Québec Hackathon Demo',
+  'layout.nav.home': 'Home',
+  'layout.nav.capture': 'Capture',
+  'layout.language': 'Language',
+  'layout.footer': 'ÉnergIA - Hackathon demo for Hydro-Québec',
+
+  'home.title': 'ÉnergIA - Home',
+  'home.heading': 'Welcome to ÉnergIA',
+  'home.subtitle': 'Analyze electrical infrastructure and visualize the future impact of vegetation',
+  'home.zoneInfo': 'Area information',
+  'home.defaultZone': 'Montréal - Downtown',
+  'home.captureCta': 'Capture image',
+
+  'infoPanel.status.good': 'Status: Good',
+  'infoPanel.status.warning': 'Status: Monitor',
+  'infoPanel.status.critical': 'Status: Critical',
+  'infoPanel.zone': 'Area',
+  'infoPanel.zoneType': 'Type: {type}',
+  'infoPanel.zoneType.urban': 'Urban',
+  'infoPanel.coordinates': 'Coordinates',
+  'infoPanel.region': 'Region: Québec, Canada',
+  'infoPanel.vegetation': 'Vegetation',
+  'infoPanel.vegetation.low': 'Low',
+  'infoPanel.vegetation.medium': 'Medium',
+  'infoPanel.vegetation.high': 'High',
+  'infoPanel.riskLevel': 'Risk level: {risk}',
+  'infoPanel.inspections': 'Inspections',
+  'infoPanel.lastInspection': 'Last:',
+  'infoPanel.nextInspection': 'Next:',
+  'infoPanel.infrastructure': 'Infrastructure:',
+  'infoPanel.infrastructureCount': '{count} pieces of equipment detected in this area',
+  'infoPanel.viewAll': 'View all',
+
+  'map.popup.title': 'Electrical infrastructure',
+  'map.popup.position': 'Position: {position}',
+  'map.popup.more': 'Click for more info',
+
+  'capture.title': 'Capture Image - ÉnergIA',
+  'capture.heading': 'Infrastructure capture',
+  'capture.subtitle': 'Take a photo of the electrical infrastructure to analyze it, or upload an existing image',
+  'capture.useCamera': 'Use camera',
+  'capture.uploadImage': 'Upload an image',
+  'capture.takePhoto': 'Take a photo',
+  'capture.cameraLoading': 'Loading camera...',
+  'capture.error.captureFailed': 'Failed to capture image. Please try again or use file upload.',
+  'capture.error.webcamNotReady': 'Webcam not initialized. Please try again or use file upload.',
+  'capture.error.readFailed': 'Failed to read the file. Please try a different one.',
+  'capture.error.processing': 'Error processing image. Please try again.',
+  'capture.error.cameraDenied': 'Camera access denied or not available. Please use file upload instead.',
+
+  'upload.error.notImage': 'Please upload an image file (JPEG, PNG, etc.).',
+  'upload.error.tooLarge': 'Image is too large. Please upload an image smaller than 10MB.',
+  'upload.dropHere': 'Drop image here',
+  'upload.dragDrop': 'Drag & drop an image here',
+  'upload.or': 'or',
+  'upload.browse': 'Browse Files',
+  'upload.accepts': 'Accepts JPG, PNG and other image formats up to 10MB',
+
+  'preview.loading': 'Loading image...',
+  'preview.invalid': 'Invalid image. Please try again.',
+  'preview.tryAgain': 'Try Again',
+  'preview.alt': 'Preview',
+  'preview.readyTitle': 'Ready to analyze?',
+  'preview.readyText': 'This image will be analyzed for electrical infrastructure components and vegetation assessment.',
+  'preview.retake': 'Retake',
+  'preview.analyze': 'Analyze Image',
+
+  'processing.title': 'Processing Your Image',
+  'processing.step.components': 'Analyzing electrical components...',
+  'processing.step.vegetation': 'Detecting vegetation features...',
+  'processing.step.conditions': 'Assessing infrastructure conditions...',
+  'processing.step.density': 'Calculating vegetation density...',
+  'processing.step.report': 'Preparing detailed analysis...',
+  'processing.complete': '{percent}% complete',
+  'processing.wait': 'Please wait while we analyze your image. This might take a few moments.',
+
+  'analysis.title': 'Infrastructure analysis - ÉnergIA',
+  'analysis.errorTitle': 'Error - ÉnergIA',
+  'analysis.heading': 'Infrastructure analysis',
+  'analysis.error.failed': 'Image analysis failed. Please try again.',
+  'analysis.noImage': 'No image available',
+  'analysis.futureVision': 'FUTURE VISION',
+  'analysis.stage.received': 'Image received',
+  'analysis.stage.cache_lookup': 'Looking for an existing analysis',
+  'analysis.stage.model_call': 'Analyzing electrical components',
+  'analysis.stage.parsing': 'Reading detected components',
+  'analysis.stage.annotations_ready': 'Preparing annotations',
+  'analysis.streaming': '{stage}... {count} component(s) detected',
+
+  'analysisPanel.noData': 'No analysis data available.',
+  'analysisPanel.detected': 'Detected components',
+  'analysisPanel.confidence': 'Confidence',
+  'analysisPanel.componentDetails': 'Component details',
+  'analysisPanel.type': 'Type',
+  'analysisPanel.details': 'Details',
+  'analysisPanel.condition': 'Condition',
+  'analysisPanel.risks': 'Vegetation-related risks',
+  'analysisPanel.riskScore': 'Risk score: {score}/100',
+  'analysisPanel.education': 'Did you know',
+  'analysisPanel.didYouKnow': 'Did you know?',
+  'analysisPanel.fact': 'Vegetation causes nearly 40% of power outages in Québec.',
+  'analysisPanel.prevention': 'Regular monitoring and preventive maintenance can significantly reduce the risk of service interruptions.',
+
+  'annotation.unknown': 'Unknown',
+  'annotation.alt': 'Infrastructure image',
+
+  'future.title': 'ÉnergIA - Future projection',
+  'future.description': 'Future projection of vegetation growth',
+  'future.heading': 'Vegetation growth projection',
+  'future.horizon': 'Projection horizon:',
+  'future.step.analysis': 'Analyzing the image...',
+  'future.step.growth': 'Predicting vegetation growth...',
+  'future.step.generation': 'Generating the future projection...',
+  'future.step.finalizing': 'Finalizing the analysis...',
+  'future.step.queued': 'Waiting to be processed...',
+  'future.cancel': 'Cancel projection',
+  'future.error.failed': 'Failed to generate the future projection. Please try again.',
+  'future.viewFuture': 'View future projection',
+  'future.viewCurrent': 'View current state',
+  'future.sideBySide': 'Side-by-side view',
+  'future.comparison': 'Comparison view',
+  'future.howToRead': 'How to read this:',
+  'future.howToReadText': 'This simulation shows potential vegetation growth over {horizon} and its impact on electrical infrastructure.',
+
+  'comparison.current': 'CURRENT',
+  'comparison.projection': 'PROJECTION {year}',
+  'comparison.currentAlt': 'Current image',
+  'comparison.futureAlt': 'Future projection',
+
+  'futurePanel.unavailable': 'Analysis unavailable',
+  'futurePanel.unavailableText': 'Analysis data is not available at the moment.',
+  'futurePanel.current': 'Current state',
+  'futurePanel.currentText': 'Switch to the future view to see projected vegetation growth and potential risks in {horizon}.',
+  'futurePanel.recommendedMeasures': 'Recommended measures',
+  'futurePanel.measure.inspection': 'Carry out regular inspections',
+  'futurePanel.measure.maintenance': 'Set up a maintenance plan',
+  'futurePanel.measure.document': 'Document the current state for future reference',
+  'futurePanel.future': 'Future projection',
+  'futurePanel.estimatedFor': 'Projection estimated for',
+  'futurePanel.vegetationGrowth': 'Vegetation growth',
+  'futurePanel.potentialRisks': 'Potential risks',
+  'futurePanel.riskFactors': 'Risk factors',
+  'futurePanel.assumptions': 'Growth model assumptions',
+  'futurePanel.assumption.species': 'Species: {species}',
+  'futurePanel.assumption.height': 'Estimated height: {height}',
+  'futurePanel.assumption.distanceBelow': 'Current distance: {distance} (below the equipment)',
+  'futurePanel.assumption.distanceBeside': 'Current distance: {distance} (beside the equipment)',
+  'futurePanel.assumption.growth': 'Annual growth used: {growth}/year',
+  'futurePanel.assumption.matureHeight': 'Mature height: {height}',
+  'futurePanel.assumption.clearance': 'Required clearance: {clearance}',
+  'futurePanel.assumption.table': 'Growth table: v{version}',
+  'futurePanel.recommendations': 'Recommendations',
+  'futurePanel.note': 'Note:',
+  'futurePanel.noteText': 'This projection is based on average growth rates of the identified species and typical climate conditions in the region.',
+
+  'demo.badge': 'Demo Mode: {scenario}',
+  'demo.controls': 'Demo Mode Controls',
+  'demo.currentScenario': 'Current Scenario:',
+  'demo.exit': 'Exit Demo Mode',
+
+  'projection.horizon.one': '{years} year',
+  'projection.horizon.many': '{years} years',
+
+  'growth.years.one': '{value} year',
+  'growth.years.many': '{value} years',
+
+  'species.erable_argente': 'Silver maple',
+  'species.erable_rouge': 'Red maple',
+  'species.erable_a_sucre': 'Sugar maple',
+  'species.peuplier_faux_tremble': 'Trembling aspen',
+  'species.peuplier_hybride': 'Hybrid poplar',
+  'species.bouleau_blanc': 'White birch',
+  'species.frene': 'Ash',
+  'species.saule': 'Willow',
+  'species.pin_blanc': 'Eastern white pine',
+  'species.epinette_blanche': 'White spruce',
+  'species.sapin_baumier': 'Balsam fir',
+  'species.thuya': 'Eastern white cedar',
+  'species.inconnue': 'Unidentified species',
+
+  'component.transformer': 'Transformer',
+  'component.power_line': 'Power line',
+  'component.pole': 'Utility pole',
+  'component.transmission_tower': 'Transmission tower',
+  'component.insulator': 'Insulators',
+  'component.fuse': 'Fuses',
+  'component.switch': 'Switch',
+  'component.other': 'Other equipment',
+
+  'risk.level.very_low': 'Very low',
+  'risk.level.low': 'Low',
+  'risk.level.medium': 'Medium',
+  'risk.level.high': 'High',
+  'risk.level.very_high': 'Very high',
+  'risk.level.critical': 'Critical',
+  'risk.factor.component_type': 'Equipment type',
+  'risk.factor.condition': 'Condition',
+  'risk.factor.vegetation_proximity': 'Vegetation proximity',
+  'risk.factor.voltage_class': 'Voltage class',
+  'risk.detail.unclassified': 'Unclassified type',
+  'risk.detail.vegetationUnknown': 'Vegetation not assessed',
+  'risk.detail.noTree': 'No tree nearby',
+  'risk.detail.clearanceLost': '{species}: clearance lost',
+  'risk.detail.clearanceLostIn': '{species}: clearance lost in {years}',
+  'risk.detail.clearanceKept': '{species}: reaches its mature height before the clearance is lost',
+  'risk.detail.voltage.transmission': 'Transmission (high voltage)',
+  'risk.detail.voltage.distribution': 'Distribution (medium voltage)',
+  'risk.detail.voltage.low': 'Low voltage',
+  'risk.detail.voltage.unknown': 'Voltage not specified',
+
+  'projectionText.vegetationGrowth': 'Growth of {min}-{max}% depending on the species present',
+  'projectionText.noTree': 'No tree likely to reach this equipment was observed.',
+  'projectionText.alreadyClose': '{species} already within {clearance} of the equipment; contact expected in {years}.',
+  'projectionText.clearanceLostBy': '{species} at {distance}: {clearance} clearance lost around {year}, contact expected in {years}.',
+  'projectionText.alreadyCloseNoContact': '{species} already within {clearance} of the equipment; it stops growing ({height}) before contact.',
+  'projectionText.clearanceLostByNoContact': '{species} at {distance}: {clearance} clearance lost around {year}; it stops growing ({height}) before contact.',
+  'projectionText.clearanceKept': '{species} at {distance}: reaches its mature height ({height}) before coming within {clearance}.',
+  'projectionText.recommendation.pruning': 'Schedule preventive pruning within the next 12 months',
+  'projectionText.recommendation.followUp': 'Schedule a follow-up inspection in 18 months',
+  'projectionText.recommendation.reinspect': 'Inspect the site again in 6 months',
+  'projectionText.recommendation.plan': 'Establish a 5-year vegetation management plan',
+  'projectionText.recommendation.protection': 'Consider installing additional protective equipment',
+
+  'fallback.future.growth': 'Significant',
+  'fallback.future.transformer': 'Vegetation could contact the transformer within 3 years.',
+  'fallback.future.line': 'Branches above the line will need pruning within 1-2 years.',
+  'fallback.future.pole': 'Stable foundation, but monitoring of the surrounding vegetation is recommended.',
+  'fallback.analysis.transformer.details': 'Distribution transformer, standard model for urban areas.',
+  'fallback.analysis.transformer.condition': 'Good condition',
+  'fallback.analysis.transformer.risks': 'Nearby vegetation could become a risk in the coming years.',
+  'fallback.analysis.transformer.annotation': 'Distribution transformer',
+  'fallback.analysis.line.details': 'Medium-voltage line, likely 25kV.',
+  'fallback.analysis.line.condition': 'Fair condition',
+  'fallback.analysis.line.risks': 'Branches nearby, pruning recommended within 6 months.',
+  'fallback.analysis.line.annotation': 'Medium-voltage line',
+  'fallback.analysis.pole.details': 'Wooden pole, standard installation.',
+  'fallback.analysis.pole.condition': 'Normal wear',
+  'fallback.analysis.pole.risks': 'No immediate risk identified.',
+  'fallback.analysis.pole.annotation': 'Wooden pole',
+
+  'cacheAdmin.title': 'ÉnergIA - Cache',
+  'cacheAdmin.heading': 'Server cache',
+  'cacheAdmin.refresh': 'Refresh',
+  'cacheAdmin.purgeSuperseded': 'Purge superseded entries',
+  'cacheAdmin.stats': 'Statistics (storage: {backend})',
+  'cacheAdmin.total': 'Total',
+  'cacheAdmin.entries': '{count} entries',
+  'cacheAdmin.hitRatio': 'Hit ratio: {ratio} ({hits} hits, {misses} misses)',
+  'cacheAdmin.perceptualHits': '{count} perceptual matches',
+  'cacheAdmin.usage': 'Storage used: {usage} of {quota}',
+  'cacheAdmin.type.analyze': 'Analyses',
+  'cacheAdmin.type.future': 'Projections',
+  'cacheAdmin.type.futureImage': 'Future images',
+  'cacheAdmin.demo.heading': 'Demo images',
+  'cacheAdmin.demo.summary': '{warm} of {total} results ready in the cache',
+  'cacheAdmin.state.warm': 'ready',
+  'cacheAdmin.state.stale': 'expired',
+  'cacheAdmin.state.missing': 'missing',
+  'cacheAdmin.entriesHeading': 'Entries',
+  'cacheAdmin.allSources': 'All sources',
+  'cacheAdmin.invalidateShown': 'Invalidate shown',
+  'cacheAdmin.empty': 'No entries.',
+  'cacheAdmin.column.hash': 'Hash',
+  'cacheAdmin.column.source': 'Source',
+  'cacheAdmin.column.hits': 'Hits',
+  'cacheAdmin.column.age': 'Age',
+  'cacheAdmin.column.expires': 'Expires',
+  'cacheAdmin.column.size': 'Size',
+  'cacheAdmin.view': 'View',
+  'cacheAdmin.invalidate': 'Invalidate',
+  'cacheAdmin.age.minutes': '{count} min',
+  'cacheAdmin.age.hours': '{count} h',
+  'cacheAdmin.age.days': '{count} d',
+  'cacheAdmin.error.load': 'Could not load the cache state.',
+  'cacheAdmin.error.invalidate': 'Could not invalidate the entries.',
+  'cacheAdmin.error.packInvalid': 'This file is not a valid demo pack or its checksums do not match.',
+  'cacheAdmin.error.packImport': 'Could not import the demo pack.',
+  'cacheAdmin.error.unauthorized': 'The admin token is missing or wrong, or the server has none (ADMIN_TOKEN).',
+  'cacheAdmin.pack.export': 'Export demo pack',
+  'cacheAdmin.pack.import': 'Import demo pack',
+  'cacheAdmin.pack.token': 'Admin token',
+  'cacheAdmin.pack.importing': 'Importing…',
+  'cacheAdmin.pack.imported': 'Demo pack imported: {entries} results, {images} images.',
+  'cacheAdmin.coalesced': '{count} calls saved by coalescing',
+  'cacheAdmin.column.saved': 'Calls saved',
+  'cacheAdmin.column.savedHint': 'Identical requests that waited for a call already running instead of starting one',
+  'provenance.kind.live': 'Live result',
+  'provenance.kind.cached': 'Cached',
+  'provenance.kind.stale': 'Cached (refreshing)',
+  'provenance.kind.demo': 'Demo data',
+  'provenance.kind.fallback': 'Illustrative data',
+  'provenance.showDetails': 'Show provenance',
+  'provenance.illustrative': 'This is sample data: it does not come from an analysis of your photo.',
+  'provenance.status': 'Status',
+  'provenance.model': 'Model',
+  'provenance.producedAt': 'Produced',
+  'provenance.cacheAge': 'Cache age',
+  'provenance.match': 'Match',
+  'provenance.match.exact': 'same image',
+  'provenance.match.perceptual': 'near-identical image',
+  'provenance.imageMode': 'Image',
+  'provenance.imageMode.image_edit': 'edited by the model',
+  'provenance.imageMode.image_edit_masked': 'edited by the model, infrastructure protected',
+  'provenance.imageMode.fixture_replay': 'recording replayed',
+  'provenance.imageMode.demo_asset': 'demo image',
+  'provenance.imageMode.passthrough': 'original photo, no projection',
+  'provenance.age.minutes': '{count} min',
+  'provenance.age.hours': '{count} h',
+  'provenance.age.days': '{count} d',
+  'demo.hideProvenance': 'Hide provenance badges'
+};
@@ -0,0 +1,327 @@
+// French (Canada) catalog. This is the reference catalog: every key must also exist in en-CA.
+// Placeholders use {name} and are filled by translate().
+export const frCA = {
+  // Locale names are shown in their own language in both catalogs
+  'locale.fr-CA': 'Français',
+  'locale.en-CA': 'English',
+
+  'common.loading': 'Chargement en cours...',
+  'common.loadingInterface': 'Chargement de l\'interface...',
+  'common.error': 'Erreur',
+  'common.back': 'Retour',
+  'common.backHome': 'Retour à l\'accueil',
+  'common.backToAnalysis': 'Retour à l\'analyse',
+  'common.close': 'Fermer',
+  'common.dismiss': 'Ignorer',
+
+  'layout.description': 'ÉnergIA - Démo du hackathon Hydro-Québec',
+  'layout.nav.home': 'Accueil',
+  'layout.nav.capture': 'Capture',
+  'layout.language': 'Langue',
+  'layout.footer': 'ÉnergIA - Démo du hackathon pour Hydro-Québec',
+
+  'home.title': 'ÉnergIA - Accueil',
+  'home.heading': 'Bienvenue sur ÉnergIA',
+  'home.subtitle': 'Analysez l\'infrastructure électrique et visualisez l\'impact futur de la végétation',
+  'home.zoneInfo': 'Information sur la zone',
+  'home.defaultZone': 'Montréal - Centre-Ville',
+  'home.captureCta': 'Capture d\'image',
+
+  'infoPanel.status.good': 'État: Bon',
+  'infoPanel.status.warning': 'État: À surveiller',
+  'infoPanel.status.critical': 'État: Critique',
+  'infoPanel.zone': 'Zone',
+  'infoPanel.zoneType': 'Type: {type}',
+  'infoPanel.zoneType.urban': 'Urbaine',
+  'infoPanel.coordinates': 'Coordonnées',
+  'infoPanel.region': 'Région: Québec, Canada',
+  'infoPanel.vegetation': 'Végétation',
+  'infoPanel.vegetation.low': 'Faible',
+  'infoPanel.vegetation.medium': 'Moyenne',
+  'infoPanel.vegetation.high': 'Élevée',
+  'infoPanel.riskLevel': 'Niveau de risque: {risk}',
+  'infoPanel.inspections': 'Inspections',
+  'infoPanel.lastInspection': 'Dernière:',
+  'infoPanel.nextInspection': 'Prochaine:',
+  'infoPanel.infrastructure': 'Infrastructures:',
+  'infoPanel.infrastructureCount': '{count} équipements détectés dans cette zone',
+  'infoPanel.viewAll': 'Voir tout',
+
+  'map.popup.title': 'Infrastructure électrique',
+  'map.popup.position': 'Position: {position}',
+  'map.popup.more': 'Cliquez pour plus d\'info',
+
+  'capture.title': 'Capture d\'image - ÉnergIA',
+  'capture.heading': 'Capture d\'infrastructure',
+  'capture.subtitle': 'Prenez une photo de l\'infrastructure électrique pour l\'analyser ou téléchargez une image existante',
+  'capture.useCamera': 'Utiliser la caméra',
+  'capture.uploadImage': 'Télécharger une image',
+  'capture.takePhoto': 'Prendre une photo',
+  'capture.cameraLoading': 'Chargement de la caméra...',
+  'capture.error.captureFailed': 'Échec de la capture. Réessayez ou téléchargez un fichier.',
+  'capture.error.webcamNotReady': 'La caméra n\'est pas initialisée. Réessayez ou téléchargez un fichier.',
+  'capture.error.readFailed': 'Impossible de lire le fichier. Essayez-en un autre.',
+  'capture.error.processing': 'Erreur lors du traitement de l\'image. Veuillez réessayer.',
+  'capture.error.cameraDenied': 'Accès à la caméra refusé ou indisponible. Téléchargez plutôt un fichier.',
+
+  'upload.error.notImage': 'Veuillez choisir un fichier image (JPEG, PNG, etc.).',
+  'upload.error.tooLarge': 'Image trop volumineuse. Choisissez une image de moins de 10 Mo.',
+  'upload.dropHere': 'Déposez l\'image ici',
+  'upload.dragDrop': 'Glissez-déposez une image ici',
+  'upload.or': 'ou',
+  'upload.browse': 'Parcourir les fichiers',
+  'upload.accepts': 'Formats JPG, PNG et autres formats d\'image jusqu\'à 10 Mo',
+
+  'preview.loading': 'Chargement de l\'image...',
+  'preview.invalid': 'Image invalide. Veuillez réessayer.',
+  'preview.tryAgain': 'Réessayer',
+  'preview.alt': 'Aperçu',
+  'preview.readyTitle': 'Prêt pour l\'analyse?',
+  'preview.readyText': 'Cette image sera analysée pour repérer les composants électriques et évaluer la végétation.',
+  'preview.retake': 'Reprendre',
+  'preview.analyze': 'Analyser l\'image',
+
+  'processing.title': 'Traitement de votre image',
+  'processing.step.components': 'Analyse des composants électriques...',
+  'processing.step.vegetation': 'Détection de la végétation...',
+  'processing.step.conditions': 'Évaluation de l\'état des infrastructures...',
+  'processing.step.density': 'Calcul de la densité de végétation...',
+  'processing.step.report': 'Préparation de l\'analyse détaillée...',
+  'processing.complete': '{percent}% terminé',
+  'processing.wait': 'Veuillez patienter pendant l\'analyse de votre image. Cela peut prendre quelques instants.',
+
+  'analysis.title': 'Analyse d\'infrastructure - ÉnergIA',
+  'analysis.errorTitle': 'Erreur - ÉnergIA',
+  'analysis.heading': 'Analyse d\'infrastructure',
+  'analysis.error.failed': 'Échec de l\'analyse d\'image. Veuillez réessayer.',
+  'analysis.noImage': 'Aucune image disponible',
+  'analysis.futureVision': 'VISION FUTUR',
+  'analysis.stage.received': 'Image reçue',
+  'analysis.stage.cache_lookup': 'Recherche d\'une analyse existante',
+  'analysis.stage.model_call': 'Analyse des composants électriques',
+  'analysis.stage.parsing': 'Lecture des composants détectés',
+  'analysis.stage.annotations_ready': 'Préparation des annotations',
+  'analysis.streaming': '{stage}... {count} composant(s) détecté(s)',
+
+  'analysisPanel.noData': 'Aucune donnée d\'analyse disponible.',
+  'analysisPanel.detected': 'Composants détectés',
+  'analysisPanel.confidence': 'Confiance',
+  'analysisPanel.componentDetails': 'Détails du composant',
+  'analysisPanel.type': 'Type',
+  'analysisPanel.details': 'Détails',
+  'analysisPanel.condition': 'État',
+  'analysisPanel.risks': 'Risques liés à la végétation',
+  'analysisPanel.riskScore': 'Score de risque: {score}/100',
+  'analysisPanel.education': 'Information éducative',
+  'analysisPanel.didYouKnow': 'Saviez-vous que?',
+  'analysisPanel.fact': 'La végétation est responsable de près de 40% des pannes d\'électricité au Québec.',
+  'analysisPanel.prevention': 'Une surveillance régulière et un entretien préventif peuvent réduire significativement les risques d\'interruption de service.',
+
+  'annotation.unknown': 'Inconnu',
+  'annotation.alt': 'Image de l\'infrastructure',
+
+  'future.title': 'ÉnergIA - Projection future',
+  'future.description': 'Projection future de la croissance végétative',
+  'future.heading': 'Projection de croissance végétative',
+  'future.horizon': 'Horizon de projection:',
+  'future.step.analysis': 'Analyse de l\'image en cours...',
+  'future.step.growth': 'Prédiction de la croissance végétative...',
+  'future.step.generation': 'Génération de la projection future...',
+  'future.step.finalizing': 'Finalisation de l\'analyse...',
+  'future.step.queued': 'En attente de traitement...',
+  'future.cancel': 'Annuler la projection',
+  'future.error.failed': 'Échec de la génération de la projection future. Veuillez réessayer.',
+  'future.viewFuture': 'Voir projection future',
+  'future.viewCurrent': 'Voir état actuel',
+  'future.sideBySide': 'Vue côte à côte',
+  'future.comparison': 'Vue comparaison',
+  'future.howToRead': 'Comment interpréter:',
+  'future.howToReadText': 'Cette simulation montre la croissance potentielle de la végétation sur {horizon} et son impact sur les infrastructures électriques.',
+
+  'comparison.current': 'ACTUEL',
+  'comparison.projection': 'PROJECTION {year}',
+  'comparison.currentAlt': 'Image actuelle',
+  'comparison.futureAlt': 'Projection future',
+
+  'futurePanel.unavailable': 'Analyse indisponible',
+  'futurePanel.unavailableText': 'Les données d\'analyse ne sont pas disponibles pour le moment.',
+  'futurePanel.current': 'État actuel',
+  'futurePanel.currentText': 'Basculez vers la vue future pour voir la projection de la croissance végétative et les risques potentiels dans {horizon}.',
+  'futurePanel.recommendedMeasures': 'Mesures recommandées',
+  'futurePanel.measure.inspection': 'Effectuer une inspection régulière',
+  'futurePanel.measure.maintenance': 'Mettre en place un plan d\'entretien',
+  'futurePanel.measure.document': 'Documenter l\'état actuel pour référence future',
+  'futurePanel.future': 'Projection future',
+  'futurePanel.estimatedFor': 'Projection estimée pour',
+  'futurePanel.vegetationGrowth': 'Croissance végétative',
+  'futurePanel.potentialRisks': 'Risques potentiels',
+  'futurePanel.riskFactors': 'Facteurs de risque',
+  'futurePanel.assumptions': 'Hypothèses du modèle de croissance',
+  'futurePanel.assumption.species': 'Espèce: {species}',
+  'futurePanel.assumption.height': 'Hauteur estimée: {height}',
+  'futurePanel.assumption.distanceBelow': 'Distance actuelle: {distance} (sous l\'équipement)',
+  'futurePanel.assumption.distanceBeside': 'Distance actuelle: {distance} (à côté de l\'équipement)',
+  'futurePanel.assumption.growth': 'Croissance annuelle retenue: {growth}/an',
+  'futurePanel.assumption.matureHeight': 'Hauteur adulte: {height}',
+  'futurePanel.assumption.clearance': 'Dégagement requis: {clearance}',
+  'futurePanel.assumption.table': 'Table de croissance: v{version}',
+  'futurePanel.recommendations': 'Recommandations',
+  'futurePanel.note': 'Note:',
+  'futurePanel.noteText': 'Cette projection est basée sur les taux de croissance moyens des espèces végétales identifiées et les conditions climatiques typiques de la région.',
+
+  'demo.badge': 'Mode démo: {scenario}',
+  'demo.controls': 'Contrôles du mode démo',
+  'demo.currentScenario': 'Scénario actuel:',
+  'demo.exit': 'Quitter le mode démo',
+
+  'projection.horizon.one': '{years} an',
+  'projection.horizon.many': '{years} ans',
+
+  'growth.years.one': '{value} an',
+  'growth.years.many': '{value} ans',
+
+  'species.erable_argente': 'Érable argenté',
+  'species.erable_rouge': 'Érable rouge',
+  'species.erable_a_sucre': 'Érable à sucre',
+  'species.peuplier_faux_tremble': 'Peuplier faux-tremble',
+  'species.peuplier_hybride': 'Peuplier hybride',
+  'species.bouleau_blanc': 'Bouleau blanc',
+  'species.frene': 'Frêne',
+  'species.saule': 'Saule',
+  'species.pin_blanc': 'Pin blanc',
+  'species.epinette_blanche': 'Épinette blanche',
+  'species.sapin_baumier': 'Sapin baumier',
+  'species.thuya': 'Thuya occidental (cèdre)',
+  'species.inconnue': 'Espèce non identifiée',
+
+  'component.transformer': 'Transformateur',
+  'component.power_line': 'Ligne électrique',
+  'component.pole': 'Poteau',
+  'component.transmission_tower': 'Pylône',
+  'component.insulator': 'Isolateurs',
+  'component.fuse': 'Fusibles',
+  'component.switch': 'Sectionneur',
+  'component.other': 'Autre équipement',
+
+  'risk.level.very_low': 'Très faible',
+  'risk.level.low': 'Faible',
+  'risk.level.medium': 'Moyen',
+  'risk.level.high': 'Élevé',
+  'risk.level.very_high': 'Très élevé',
+  'risk.level.critical': 'Critique',
+  'risk.factor.component_type': 'Type d\'équipement',
+  'risk.factor.condition': 'État',
+  'risk.factor.vegetation_proximity': 'Proximité de la végétation',
+  'risk.factor.voltage_class': 'Classe de tension',
+  'risk.detail.unclassified': 'Type non classé',
+  'risk.detail.vegetationUnknown': 'Végétation non évaluée',
+  'risk.detail.noTree': 'Aucun arbre à proximité',
+  'risk.detail.clearanceLost': '{species}: dégagement perdu',
+  'risk.detail.clearanceLostIn': '{species}: dégagement perdu dans {years}',
+  'risk.detail.clearanceKept': '{species}: atteint sa hauteur adulte avant de perdre le dégagement',
+  'risk.detail.voltage.transmission': 'Transport (haute tension)',
+  'risk.detail.voltage.distribution': 'Distribution (moyenne tension)',
+  'risk.detail.voltage.low': 'Basse tension',
+  'risk.detail.voltage.unknown': 'Tension non précisée',
+
+  'projectionText.vegetationGrowth': 'Croissance de {min}-{max}% selon les espèces présentes',
+  'projectionText.noTree': 'Aucun arbre susceptible d\'atteindre cet équipement n\'a été observé.',
+  'projectionText.alreadyClose': '{species} déjà à moins de {clearance} de l\'équipement; contact estimé dans {years}.',
+  'projectionText.clearanceLostBy': '{species} à {distance}: dégagement de {clearance} perdu vers {year}, contact estimé dans {years}.',
+  'projectionText.alreadyCloseNoContact': '{species} déjà à moins de {clearance} de l\'équipement; sa croissance s\'arrête ({height}) avant le contact.',
+  'projectionText.clearanceLostByNoContact': '{species} à {distance}: dégagement de {clearance} perdu vers {year}; sa croissance s\'arrête ({height}) avant le contact.',
+  'projectionText.clearanceKept': '{species} à {distance}: atteint sa hauteur adulte ({height}) avant d\'arriver à moins de {clearance}.',
+  'projectionText.recommendation.pruning': 'Planifier un élagage préventif dans les 12 prochains mois',
+  'projectionText.recommendation.followUp': 'Programmer une inspection de suivi dans 18 mois',
+  'projectionText.recommendation.reinspect': 'Inspecter le site à nouveau dans 6 mois',
+  'projectionText.recommendation.plan': 'Établir un plan de gestion de la végétation sur 5 ans',
+  'projectionText.recommendation.protection': 'Considérer l\'installation d\'équipement de protection supplémentaire',
+
+  'fallback.future.growth': 'Significatif',
+  'fallback.future.transformer': 'La végétation pourrait entrer en contact avec le transformateur d\'ici 3 ans.',
+  'fallback.future.line': 'Branches au-dessus de la ligne nécessiteront un élagage dans les 1-2 ans.',
+  'fallback.future.pole': 'Fondation stable, mais surveillance recommandée pour la végétation environnante.',
+  'fallback.analysis.transformer.details': 'Transformateur de distribution, modèle standard pour zone urbaine.',
+  'fallback.analysis.transformer.condition': 'Bon état',
+  'fallback.analysis.transformer.risks': 'Végétation à proximité pourrait poser un risque dans les prochaines années.',
+  'fallback.analysis.transformer.annotation': 'Transformateur de distribution',
+  'fallback.analysis.line.details': 'Ligne de moyenne tension, probablement 25kV.',
+  'fallback.analysis.line.condition': 'État correct',
+  'fallback.analysis.line.risks': 'Branches à proximité, élagage recommandé dans les 6 mois.',
+  'fallback.analysis.line.annotation': 'Ligne moyenne tension',
+  'fallback.analysis.pole.details': 'Poteau en bois, installation standard.',
+  'fallback.analysis.pole.condition': 'Usure normale',
+  'fallback.analysis.pole.risks': 'Aucun risque immédiat identifié.',
+  'fallback.analysis.pole.annotation': 'Poteau en bois',
+
+  'cacheAdmin.title': 'ÉnergIA - Cache',
+  'cacheAdmin.heading': 'Cache du serveur',
+  'cacheAdmin.refresh': 'Actualiser',
+  'cacheAdmin.purgeSuperseded': 'Purger les entrées périmées',
+  'cacheAdmin.stats': 'Statistiques (stockage : {backend})',
+  'cacheAdmin.total': 'Total',
+  'cacheAdmin.entries': '{count} entrées',
+  'cacheAdmin.hitRatio': 'Taux de succès : {ratio} ({hits} succès, {misses} échecs)',
+  'cacheAdmin.perceptualHits': '{count} correspondances perceptuelles',
+  'cacheAdmin.usage': 'Espace utilisé : {usage} sur {quota}',
+  'cacheAdmin.type.analyze': 'Analyses',
+  'cacheAdmin.type.future': 'Projections',
+  'cacheAdmin.type.futureImage': 'Images futures',
+  'cacheAdmin.demo.heading': 'Images de démonstration',
+  'cacheAdmin.demo.summary': '{warm} résultats sur {total} prêts en cache',
+  'cacheAdmin.state.warm': 'prêt',
+  'cacheAdmin.state.stale': 'expiré',
+  'cacheAdmin.state.missing': 'absent',
+  'cacheAdmin.entriesHeading': 'Entrées',
+  'cacheAdmin.allSources': 'Toutes les sources',
+  'cacheAdmin.invalidateShown': 'Invalider la sélection',
+  'cacheAdmin.empty': 'Aucune entrée.',
+  'cacheAdmin.column.hash': 'Empreinte',
+  'cacheAdmin.column.source': 'Source',
+  'cacheAdmin.column.hits': 'Accès',
+  'cacheAdmin.column.age': 'Âge',
+  'cacheAdmin.column.expires': 'Expire le',
+  'cacheAdmin.column.size': 'Taille',
+  'cacheAdmin.view': 'Voir',
+  'cacheAdmin.invalidate': 'Invalider',
+  'cacheAdmin.age.minutes': '{count} min',
+  'cacheAdmin.age.hours': '{count} h',
+  'cacheAdmin.age.days': '{count} j',
+  'cacheAdmin.error.load': 'Impossible de charger l\'état du cache.',
+  'cacheAdmin.error.invalidate': 'Impossible d\'invalider les entrées.',
+  'cacheAdmin.error.packInvalid': 'Ce fichier n\'est pas un pack démo valide ou ses sommes de contrôle ne correspondent pas.',
+  'cacheAdmin.error.packImport': 'Impossible d\'importer le pack démo.',
+  'cacheAdmin.error.unauthorized': 'Le jeton d\'administration est absent ou erroné, ou le serveur n\'en a pas (ADMIN_TOKEN).',
+  'cacheAdmin.pack.export': 'Exporter le pack démo',
+  'cacheAdmin.pack.import': 'Importer un pack démo',
+  'cacheAdmin.pack.token': 'Jeton d\'administration',
+  'cacheAdmin.pack.importing': 'Importation…',
+  'cacheAdmin.pack.imported': 'Pack démo importé : {entries} résultats, {images} images.',
+  'cacheAdmin.coalesced': '{count} appels évités par regroupement',
+  'cacheAdmin.column.saved': 'Appels évités',
+  'cacheAdmin.column.savedHint': 'Requêtes identiques qui ont attendu un appel déjà en cours au lieu d\'en lancer un',
+  'provenance.kind.live': 'Résultat en direct',
+  'provenance.kind.cached': 'En cache',
+  'provenance.kind.stale': 'En cache (mise à jour)',
+  'provenance.kind.demo': 'Données de démonstration',
+  'provenance.kind.fallback': 'Données illustratives',
+  'provenance.showDetails': 'Afficher la provenance',
+  'provenance.illustrative': 'Ces données sont un exemple : elles ne proviennent pas de l\'analyse de votre photo.',
+  'provenance.status': 'Statut',
+  'provenance.model': 'Modèle',
+  'provenance.producedAt': 'Produit le',
+  'provenance.cacheAge': 'Âge en cache',
+  'provenance.match': 'Correspondance',
+  'provenance.match.exact': 'image identique',
+  'provenance.match.perceptual': 'image quasi identique',
+  'provenance.imageMode': 'Image',
+  'provenance.imageMode.image_edit': 'modifiée par le modèle',
+  'provenance.imageMode.image_edit_masked': 'modifiée par le modèle, infrastructure protégée',
+  'provenance.imageMode.fixture_replay': 'enregistrement rejoué',
+  'provenance.imageMode.demo_asset': 'image de démonstration',
+  'provenance.imageMode.passthrough': 'photo d\'origine, sans projection',
+  'provenance.age.minutes': '{count} min',
+  'provenance.age.hours': '{count} h',
+  'provenance.age.days': '{count} j',
+  'demo.hideProvenance': 'Masquer la provenance'
+};
@@ -0,0 +1,66 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  Locale,
+  LOCALE_STORAGE_KEY,
+  parseLocale,
+  Translator
+} from './index';
+
+type I18nContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translator;
+};
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => undefined,
+  t: createTranslator(DEFAULT_LOCALE)
+});
+
+// Locale saved by the user, then the browser language, then the default
+function getPreferredLocale(): Locale {
+  try {
+    const saved = parseLocale(localStorage.getItem(LOCALE_STORAGE_KEY));
+    if (saved) {
+      return saved;
+    }
+  } catch (error) {
+    console.warn('Error reading saved locale:', error);
+  }
+  return parseLocale(navigator.language) || DEFAULT_LOCALE;
+}
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  // Pages are prerendered in the default locale; the first render must match them, so the
+  // preferred locale is only applied once mounted
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(getPreferredLocale());
+  }, []);
+
+  // Keep the document language in sync for screen readers and spell checkers
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    } catch (error) {
+      console.warn('Error saving locale:', error);
+    }
+  }, []);
+
+  const value = useMemo(() => ({ locale, setLocale, t: createTranslator(locale) }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,255 @@
+// Browser image store: captured photos and demo assets kept as Blobs in IndexedDB instead of
+// base64 strings in Web Storage. Pages hand each other the record id, never the image itself.
+// Client-only; every function resolves to nothing (or throws for writes) on the server.
+
+const DATABASE_NAME = 'energiaImages';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'images';
+
+// Captures are only needed for the capture → analysis → future flow
+const CAPTURE_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+
+// Web Storage keys used before images moved to IndexedDB
+const LEGACY_KEY_PREFIXES = ['energia_image_', 'energia_future_image_', 'demoImage_', 'demoFutureImage_', 'demoImageUrl_'];
+
+export type StoredImageKind = 'capture' | 'demo' | 'demoFuture' | 'asset';
+
+export type StoredImage = {
+  id: string;
+  // SHA-256 of the image bytes
+  hash: string;
+  blob: Blob;
+  type: string;
+  size: number;
+  kind: StoredImageKind;
+  createdAt: number;
+  // ISO date the photo was taken, for captures
+  capturedAt?: string;
+  // URL the image was fetched from, for assets
+  sourceUrl?: string;
+};
+
+export type StoredImageRef = Pick<StoredImage, 'id' | 'hash'>;
+
+export type PutImageOptions = {
+  kind: StoredImageKind;
+  // Fixed id for named images (demo assets); otherwise an identical image is reused by hash
+  id?: string;
+  capturedAt?: string;
+  sourceUrl?: string;
+};
+
+export type StorageEstimate = {
+  usage: number;
+  quota: number;
+  // Images held by this store and their total size
+  imageCount: number;
+  imageBytes: number;
+};
+
+function isAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+// Wrap an IndexedDB request in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('hash', 'hash');
+        store.createIndex('kind', 'kind');
+      };
+      request.onsuccess = () => {
+        removeLegacyImageKeys();
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry when the database cannot be opened (private browsing, blocked upgrade)
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return requestToPromise(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+// Drop the base64 images older versions left in Web Storage
+function removeLegacyImageKeys(): void {
+  for (const storage of [localStorage, sessionStorage]) {
+    try {
+      Object.keys(storage)
+        .filter(key => LEGACY_KEY_PREFIXES.some(prefix => key.startsWith(prefix)))
+        .forEach(key => storage.removeItem(key));
+    } catch (error) {
+      console.warn('Failed to remove legacy images from Web Storage:', error);
+    }
+  }
+}
+
+// Decode a data URL into a Blob
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
+  if (!match) {
+    throw new Error('Not a data URL');
+  }
+  const type = match[1] || 'application/octet-stream';
+  if (!match[2]) {
+    return new Blob([decodeURIComponent(match[3])], { type });
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+// Encode a Blob as a data URL, the form the API routes still expect
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new Error('Failed to read image blob'));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function createImageId(kind: StoredImageKind): string {
+  const random = typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 8)}`;
+  return `${kind}_${random}`;
+}
+
+// Store an image (data URL or Blob) and return its reference
+export async function putImage(image: string | Blob, options: PutImageOptions): Promise<StoredImageRef> {
+  if (!isAvailable()) {
+    throw new Error('Image store is only available in the browser');
+  }
+
+  const blob = typeof image === 'string' ? dataUrlToBlob(image) : image;
+  const hash = await hashBlob(blob);
+
+  if (!options.id) {
+    const existing = await findImageByHash(hash, options.kind);
+    if (existing) {
+      return { id: existing.id, hash };
+    }
+  }
+
+  const record: StoredImage = {
+    id: options.id || createImageId(options.kind),
+    hash,
+    blob,
+    type: blob.type,
+    size: blob.size,
+    kind: options.kind,
+    createdAt: Date.now(),
+    capturedAt: options.capturedAt,
+    sourceUrl: options.sourceUrl
+  };
+
+  try {
+    await run('readwrite', store => store.put(record));
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) {
+      throw error;
+    }
+    // Make room by dropping every previous capture, then retry once
+    console.warn('Image store quota exceeded, removing old captures');
+    await pruneImages(0);
+    await run('readwrite', store => store.put(record));
+  }
+
+  if (options.kind === 'capture') {
+    pruneImages().catch(error => console.warn('Failed to prune old captures:', error));
+  }
+
+  return { id: record.id, hash };
+}
+
+export async function getImage(id: string): Promise<StoredImage | null> {
+  if (!isAvailable()) return null;
+  return (await run<StoredImage | undefined>('readonly', store => store.get(id))) || null;
+}
+
+export async function getImageBlob(id: string): Promise<Blob | null> {
+  return (await getImage(id))?.blob || null;
+}
+
+export async function getImageDataUrl(id: string): Promise<string | null> {
+  const blob = await getImageBlob(id);
+  return blob ? blobToDataUrl(blob) : null;
+}
+
+// Image with the given content hash, optionally of one kind
+export async function findImageByHash(hash: string, kind?: StoredImageKind): Promise<StoredImage | null> {
+  if (!isAvailable()) return null;
+  const matches = await run<StoredImage[]>('readonly', store => store.index('hash').getAll(hash));
+  return matches.find(image => !kind || image.kind === kind) || null;
+}
+
+// Ids of the stored images of one kind
+export async function listImageIds(kind: StoredImageKind): Promise<string[]> {
+  if (!isAvailable()) return [];
+  const keys = await run<IDBValidKey[]>('readonly', store => store.index('kind').getAllKeys(kind));
+  return keys.map(String);
+}
+
+export async function deleteImage(id: string): Promise<void> {
+  if (!isAvailable()) return;
+  await run('readwrite', store => store.delete(id));
+}
+
+// Remove captures older than maxAge
+export async function pruneImages(maxAge: number = CAPTURE_MAX_AGE): Promise<number> {
+  if (!isAvailable()) return 0;
+  const captures = await run<StoredImage[]>('readonly', store => store.index('kind').getAll('capture'));
+  const expired = captures.filter(image => Date.now() - image.createdAt >= maxAge);
+  await Promise.all(expired.map(image => deleteImage(image.id)));
+  return expired.length;
+}
+
+// Origin usage and quota as reported by the browser, with this store's share
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!isAvailable() || typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+  const [{ usage, quota }, images] = await Promise.all([
+    navigator.storage.estimate(),
+    run<StoredImage[]>('readonly', store => store.getAll())
+  ]);
+  return {
+    usage: usage || 0,
+    quota: quota || 0,
+    imageCount: images.length,
+    imageBytes: images.reduce((total, image) => total + image.size, 0)
+  };
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+const IMAGE_DIR = path.join(os.tmpdir(), `energia-images-${process.pid}`);
+process.env.IMAGE_DIR = IMAGE_DIR;
+
+// Required once IMAGE_DIR is set, since the store reads it on load
+const { getImageInfo, isImageAvailable, pruneImages, saveImage, toImageDataUrl, toStoredImageUrl } = require('./server') as typeof import('./server');
+
+// Smallest byte run told apart as a PNG, made unique by its trailing bytes
+function png(tag: string): Readable {
+  return Readable.from([Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from(tag)])]);
+}
+
+// Date an image as stored `hours` ago
+async function age(id: string, hours: number) {
+  const time = new Date(Date.now() - hours * 60 * 60 * 1000);
+  await fs.utimes(path.join(IMAGE_DIR, `${id}.json`), time, time);
+}
+
+afterEach(() => fs.rm(IMAGE_DIR, { recursive: true, force: true }));
+
+describe('pruneImages', () => {
+  it('removes images last stored before the maximum age, with their variants', async () => {
+    const old = await saveImage(png('old'));
+    const recent = await saveImage(png('recent'));
+    await fs.writeFile(path.join(IMAGE_DIR, `${old.id}.w320.image`), 'variant');
+    await age(old.id, 48);
+
+    expect(await pruneImages(24 * 60 * 60 * 1000)).toBe(1);
+    expect(await getImageInfo(old.id)).toBeNull();
+    expect(await getImageInfo(recent.id)).not.toBeNull();
+    expect((await fs.readdir(IMAGE_DIR)).some(name => name.startsWith(old.id))).toBe(false);
+  });
+
+  it('keeps an image stored again', async () => {
+    const image = await saveImage(png('again'));
+    await age(image.id, 48);
+    await saveImage(png('again'));
+
+    expect(await pruneImages(24 * 60 * 60 * 1000)).toBe(0);
+  });
+
+  it('removes the oldest images past the size budget', async () => {
+    const oldest = await saveImage(png('oldest'));
+    const newest = await saveImage(png('newest'));
+    await age(oldest.id, 2);
+    await age(newest.id, 1);
+
+    expect(await pruneImages(24 * 60 * 60 * 1000, 200)).toBe(1);
+    expect(await getImageInfo(oldest.id)).toBeNull();
+    expect(await getImageInfo(newest.id)).not.toBeNull();
+  });
+});
+
+describe('toStoredImageUrl', () => {
+  it('stores a data URL and links it, and reads it back', async () => {
+    const dataUrl = `data:image/png;base64,${Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from('linked')]).toString('base64')}`;
+    const url = await toStoredImageUrl(dataUrl);
+
+    expect(url).toMatch(/^\/api\/images\/[0-9a-f]{64}$/);
+    expect(await toImageDataUrl(url)).toBe(dataUrl);
+    expect(await toStoredImageUrl(url)).toBe(url);
+  });
+
+  it('tells when a linked image was pruned', async () => {
+    const url = await toStoredImageUrl(`data:image/png;base64,${Buffer.from('89504e470d0a1a0a', 'hex').toString('base64')}`);
+    await fs.rm(IMAGE_DIR, { recursive: true, force: true });
+
+    expect(await isImageAvailable(url)).toBe(false);
+    expect(await toImageDataUrl(url)).toBeNull();
+    expect(await isImageAvailable('/demo-images/01.jpg')).toBe(true);
+  });
+});
@@ -0,0 +1,290 @@
+import { promises as fs, createWriteStream } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { decodeDataUrl, encodeDataUrl, resizeImage } from '../imaging';
+import { getImageUrl } from '../api';
+
+// Server image store: uploaded photos and generated projections kept as files named by the SHA-256
+// of their bytes (the same hash the browser store records), so the API routes can take an image id
+// instead of a base64 data URL inside the JSON body, and responses can link to /api/images/:id
+// instead of embedding the image. Server-only.
+
+// Directory holding the images; one image file and one metadata file per image, plus its resized variants
+const IMAGE_DIR = process.env.IMAGE_DIR || path.join(process.cwd(), '.images');
+
+// Largest accepted upload, in bytes; the vision API takes images of up to 20 MB inline, so larger
+// settings are capped to it
+const PROVIDER_MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+export const UPLOAD_MAX_BYTES = Math.min(readNumber(process.env.UPLOAD_MAX_BYTES, PROVIDER_MAX_IMAGE_BYTES), PROVIDER_MAX_IMAGE_BYTES);
+
+// Uploads each client address may make per minute
+export const UPLOAD_RATE_LIMIT = readNumber(process.env.UPLOAD_RATE_LIMIT_PER_MINUTE, 30);
+
+// Images not stored again for this long are removed, as are the oldest ones past the size budget
+const IMAGE_MAX_AGE = readNumber(process.env.IMAGE_MAX_AGE_HOURS, 24 * 7) * 60 * 60 * 1000;
+const IMAGE_DIR_MAX_BYTES = readNumber(process.env.IMAGE_DIR_MAX_BYTES, 1024 * 1024 * 1024);
+
+// Formats the vision providers accept, told apart by their leading bytes rather than the declared type
+export const UPLOAD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+export type UploadImageType = typeof UPLOAD_IMAGE_TYPES[number];
+
+// Widths of the resized variants; a requested width is rounded up to the next one, so each image
+// has few variants to render and cache
+export const IMAGE_WIDTHS = [320, 640, 1280, 1920] as const;
+
+// Side of the square thumbnails
+export const THUMBNAIL_SIZE = 160;
+
+export type ImageVariant = {
+  width?: number;
+  thumbnail?: boolean;
+};
+
+export type UploadedImage = {
+  // SHA-256 of the image bytes
+  id: string;
+  type: UploadImageType;
+  size: number;
+  uploadedAt: number;
+};
+
+export type ImageUploadErrorCode = 'too_large' | 'unsupported_type';
+
+export class ImageUploadError extends Error {
+  readonly code: ImageUploadErrorCode;
+
+  constructor(code: ImageUploadErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageUploadError';
+    this.code = code;
+  }
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function isImageId(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+function imagePath(id: string, suffix: 'image' | 'json' | `${string}.image`): string {
+  return path.join(IMAGE_DIR, `${id}.${suffix}`);
+}
+
+// Format of an image from its first bytes
+function detectImageType(header: Buffer): UploadImageType | null {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (header.length >= 8 && header.toString('hex', 0, 8) === '89504e470d0a1a0a') {
+    return 'image/png';
+  }
+  if (header.length >= 12 && header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+// Store an uploaded image as it streams in, hashing and size-checking it on the way. An image
+// uploaded twice is stored once; the second upload returns the first one's record. A rejected
+// upload leaves the source unpiped but open, so the request can still be answered.
+export async function saveImage(source: Readable): Promise<UploadedImage> {
+  await fs.mkdir(IMAGE_DIR, { recursive: true });
+
+  const hash = createHash('sha256');
+  let size = 0;
+  let header = Buffer.alloc(0);
+  const inspect = new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      size += chunk.length;
+      if (size > UPLOAD_MAX_BYTES) {
+        callback(new ImageUploadError('too_large', `Images are limited to ${UPLOAD_MAX_BYTES} bytes`));
+        return;
+      }
+      if (header.length < 12) {
+        header = Buffer.concat([header, chunk]).subarray(0, 12);
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+
+  const tempPath = path.join(IMAGE_DIR, `.upload-${randomUUID()}.tmp`);
+  try {
+    source.on('error', error => inspect.destroy(error));
+    source.pipe(inspect);
+    await pipeline(inspect, createWriteStream(tempPath));
+
+    const type = detectImageType(header);
+    if (!type) {
+      throw new ImageUploadError('unsupported_type', `Images must be one of ${UPLOAD_IMAGE_TYPES.join(', ')}`);
+    }
+
+    const id = hash.digest('hex');
+    const existing = await getImageInfo(id);
+    if (existing) {
+      // Storing an image again keeps it from being pruned
+      const now = new Date();
+      await fs.utimes(imagePath(id, 'json'), now, now).catch(() => undefined);
+      return existing;
+    }
+
+    const image: UploadedImage = { id, type, size, uploadedAt: Date.now() };
+    await fs.rename(tempPath, imagePath(id, 'image'));
+    // The metadata file is written last: an image without one is not stored yet
+    await fs.writeFile(imagePath(id, 'json'), JSON.stringify(image));
+
+    pruneImages().catch(error => console.warn('Failed to prune stored images:', error));
+    return image;
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+// Store an image held as a data URL, such as a generated projection
+export function saveImageDataUrl(dataUrl: string): Promise<UploadedImage> {
+  return saveImage(Readable.from([decodeDataUrl(dataUrl).buffer]));
+}
+
+export async function getImageInfo(id: string): Promise<UploadedImage | null> {
+  // Ids come from requests; anything but a hash cannot name an image file
+  if (!isImageId(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(imagePath(id, 'json'), 'utf8')) as UploadedImage;
+  } catch {
+    return null;
+  }
+}
+
+// Stored image as a data URL, the form the providers take, or null when there is no such image
+export async function readImageDataUrl(id: string): Promise<string | null> {
+  const image = await getImageInfo(id);
+  if (!image) {
+    return null;
+  }
+  return encodeDataUrl(await fs.readFile(imagePath(id, 'image')), image.type);
+}
+
+// Id of the stored image a URL of getImageUrl links, or null for any other value
+export function getStoredImageId(value: string): string | null {
+  const match = /^\/api\/images\/([0-9a-f]{64})$/.exec(value);
+  return match ? match[1] : null;
+}
+
+// Image as cached and sent in results: a data URL is stored and replaced by its URL (/api/images/:id),
+// so the cache holds the id rather than the image; other values (URLs, paths) are kept, as is a data
+// URL the store does not take
+export async function toStoredImageUrl(image: string): Promise<string> {
+  if (!image.startsWith('data:')) {
+    return image;
+  }
+  try {
+    const stored = await saveImageDataUrl(image);
+    return getImageUrl(stored.id);
+  } catch (error) {
+    console.warn('Could not store the image, keeping it inline:', error);
+    return image;
+  }
+}
+
+// Reverse of toStoredImageUrl, or null when the linked image was pruned
+export async function toImageDataUrl(image: string): Promise<string | null> {
+  const id = getStoredImageId(image);
+  return id ? readImageDataUrl(id) : image;
+}
+
+// Whether an image of a cached result can still be served; a linked image may have been pruned
+export async function isImageAvailable(image: string): Promise<boolean> {
+  const id = getStoredImageId(image);
+  return !id || (await getImageInfo(id)) !== null;
+}
+
+// Remove the images (with their variants) last stored more than maxAge ago, then the oldest ones
+// until the directory fits in maxBytes; returns how many were removed
+export async function pruneImages(maxAge: number = IMAGE_MAX_AGE, maxBytes: number = IMAGE_DIR_MAX_BYTES): Promise<number> {
+  let names: string[];
+  try {
+    names = await fs.readdir(IMAGE_DIR);
+  } catch {
+    return 0;
+  }
+
+  // Files of each image, keyed by its id, with the time of its metadata file and of its newest file
+  const images = new Map<string, { files: string[], bytes: number, metadataAt?: number, newestAt: number }>();
+  for (const name of names) {
+    const id = name.slice(0, 64);
+    if (!isImageId(id)) continue;
+    const stats = await fs.stat(path.join(IMAGE_DIR, name)).catch(() => null);
+    if (!stats) continue;
+    const image = images.get(id) || { files: [], bytes: 0, newestAt: 0 };
+    image.files.push(name);
+    image.bytes += stats.size;
+    image.newestAt = Math.max(image.newestAt, stats.mtimeMs);
+    if (name === `${id}.json`) {
+      image.metadataAt = stats.mtimeMs;
+    }
+    images.set(id, image);
+  }
+
+  // The metadata file dates an image; one still being written has none yet and is dated by its newest file
+  const storedAt = (image: { metadataAt?: number, newestAt: number }) => image.metadataAt ?? image.newestAt;
+  const now = Date.now();
+  let totalBytes = Array.from(images.values()).reduce((total, image) => total + image.bytes, 0);
+  const oldestFirst = Array.from(images.entries()).sort(([, a], [, b]) => storedAt(a) - storedAt(b));
+
+  let removed = 0;
+  for (const [id, image] of oldestFirst) {
+    if (now - storedAt(image) < maxAge && totalBytes <= maxBytes) {
+      break;
+    }
+    // The metadata file goes first, so the image stops being served before its files go
+    const files = [`${id}.json`, ...image.files.filter(name => name !== `${id}.json`)];
+    for (const name of files) {
+      await fs.rm(path.join(IMAGE_DIR, name), { force: true });
+    }
+    totalBytes -= image.bytes;
+    removed++;
+  }
+
+  if (removed > 0) {
+    console.log(`Pruned ${removed} stored images`);
+  }
+  return removed;
+}
+
+// Width of the variant served for a requested width, or null for the original
+export function getVariantWidth(width: number): number | null {
+  return IMAGE_WIDTHS.find(candidate => candidate >= width) ?? null;
+}
+
+// Bytes of a stored image or of one of its variants, rendered on first request and kept beside the original
+export async function readImage(id: string, variant: ImageVariant = {}): Promise<{ image: UploadedImage, data: Buffer } | null> {
+  const image = await getImageInfo(id);
+  if (!image) {
+    return null;
+  }
+
+  const width = variant.thumbnail ? THUMBNAIL_SIZE : variant.width !== undefined ? getVariantWidth(variant.width) : null;
+  if (width === null) {
+    return { image, data: await fs.readFile(imagePath(id, 'image')) };
+  }
+
+  const variantPath = imagePath(id, variant.thumbnail ? 'thumb.image' : `w${width}.image`);
+  try {
+    return { image, data: await fs.readFile(variantPath) };
+  } catch {
+    const data = await resizeImage(await fs.readFile(imagePath(id, 'image')), { width, square: variant.thumbnail });
+    // Identical renders may race; the rename leaves one complete file either way
+    const tempPath = `${variantPath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, variantPath);
+    return { image, data };
+  }
+}
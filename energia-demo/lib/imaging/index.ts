@@ -0,0 +1,146 @@
+import sharp from 'sharp';
+import type { OpenAIAnnotation } from '../openai';
+
+// Server-side image helpers (sharp). Not available in the browser bundle.
+
+// Geometry of an annotation, in either coordinate space
+export type RegionGeometry = OpenAIAnnotation['geometry'];
+
+// Margin added around protected regions, as a fraction of the image size
+const PROTECTED_REGION_PADDING = 0.01;
+
+// Rows and columns compared by the perceptual hash (8x8 = 64 bits)
+const PERCEPTUAL_HASH_SIZE = 8;
+
+// Whether a request value is a base64 image data URL, the form the providers take
+export function isImageDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^data:image\/[\w.+-]+;base64,/.test(value);
+}
+
+// Split a data URL into its mime type and raw bytes
+export function decodeDataUrl(dataUrl: string): { mimeType: string, buffer: Buffer } {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) {
+    return { mimeType: 'image/jpeg', buffer: Buffer.from(dataUrl, 'base64') };
+  }
+  return { mimeType: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
+// Encode raw bytes as a data URL
+export function encodeDataUrl(buffer: Buffer, mimeType: string): string {
+  return `data:${mimeType};base64,${buffer.toString('base64')}`;
+}
+
+// Convert a region to a pixel rectangle clamped to the image, with padding
+function toPixelRect(region: RegionGeometry, width: number, height: number) {
+  const { space = 'pixels' } = region;
+  const scaleX = space === 'normalized' ? width : 1;
+  const scaleY = space === 'normalized' ? height : 1;
+  const padX = PROTECTED_REGION_PADDING * width;
+  const padY = PROTECTED_REGION_PADDING * height;
+
+  const left = Math.max(0, Math.floor(region.x * scaleX - padX));
+  const top = Math.max(0, Math.floor(region.y * scaleY - padY));
+  const right = Math.min(width, Math.ceil((region.x + region.width) * scaleX + padX));
+  const bottom = Math.min(height, Math.ceil((region.y + region.height) * scaleY + padY));
+
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Build an edit mask: transparent where vegetation may change, opaque over the protected infrastructure
+export async function buildVegetationMask(width: number, height: number, protectedRegions: RegionGeometry[]): Promise<Buffer> {
+  const rects = protectedRegions
+    .map(region => toPixelRect(region, width, height))
+    .filter(rect => rect.width > 0 && rect.height > 0);
+
+  return sharp({
+    create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+  })
+    .composite(rects.map(rect => ({
+      input: {
+        create: { width: rect.width, height: rect.height, channels: 4 as const, background: { r: 255, g: 255, b: 255, alpha: 1 } }
+      },
+      left: rect.left,
+      top: rect.top
+    })))
+    .png()
+    .toBuffer();
+}
+
+// Prepare a capture (and optional mask) for the image edit API: both PNG, same dimensions
+export async function prepareEditInputs(
+  imageData: string,
+  options: { mask?: string; protectedRegions?: RegionGeometry[] } = {}
+): Promise<{ image: Buffer, mask: Buffer | null, width: number, height: number }> {
+  const { buffer } = decodeDataUrl(imageData);
+  const source = sharp(buffer).rotate(); // Apply EXIF orientation so the mask lines up
+  const { data: image, info } = await source.png().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  let mask: Buffer | null = null;
+
+  if (options.mask) {
+    // Caller-provided mask: resize to the capture and make sure it has an alpha channel
+    mask = await sharp(decodeDataUrl(options.mask).buffer)
+      .resize(width, height, { fit: 'fill' })
+      .ensureAlpha()
+      .png()
+      .toBuffer();
+  } else if (options.protectedRegions && options.protectedRegions.length > 0) {
+    mask = await buildVegetationMask(width, height, options.protectedRegions);
+  }
+
+  return { image, mask, width, height };
+}
+
+// Resize a generated image back to the capture dimensions so both share the same geometry
+export async function resizeToMatch(buffer: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(buffer)
+    .resize(width, height, { fit: 'fill' })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+}
+
+// Smaller copy of an image in its own format: `width` keeps the aspect ratio, `square` crops a
+// centred square of that side. Images already smaller are never enlarged.
+export async function resizeImage(buffer: Buffer, options: { width: number, square?: boolean }): Promise<Buffer> {
+  return sharp(buffer)
+    .rotate() // Bake in the EXIF orientation, which the resized copy loses
+    .resize(options.width, options.square ? options.width : undefined, { fit: 'cover', withoutEnlargement: true })
+    .toBuffer();
+}
+
+// Perceptual (difference) hash of an image as 16 hex digits. The image is reduced to a 9x8 grayscale
+// thumbnail and each bit tells whether a pixel is brighter than its right neighbour, so re-encoding
+// or resizing the same photo changes few bits. Null when the image cannot be decoded.
+export async function getPerceptualHash(imageData: string): Promise<string | null> {
+  // sharp is left out of the browser bundle
+  if (typeof window !== 'undefined') {
+    return null;
+  }
+
+  try {
+    const { data, info } = await sharp(decodeDataUrl(imageData).buffer)
+      .rotate()
+      .removeAlpha()
+      .greyscale()
+      .resize(PERCEPTUAL_HASH_SIZE + 1, PERCEPTUAL_HASH_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const pixel = (row: number, column: number) => data[(row * (PERCEPTUAL_HASH_SIZE + 1) + column) * info.channels];
+
+    let hash = '';
+    for (let row = 0; row < PERCEPTUAL_HASH_SIZE; row++) {
+      let byte = 0;
+      for (let column = 0; column < PERCEPTUAL_HASH_SIZE; column++) {
+        byte = (byte << 1) | (pixel(row, column) > pixel(row, column + 1) ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+  } catch (error) {
+    console.warn('Could not compute perceptual hash:', error);
+    return null;
+  }
+}
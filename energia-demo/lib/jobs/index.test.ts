@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const JOB_DIR = path.join(os.tmpdir(), `energia-jobs-${process.pid}`);
+process.env.JOB_DIR = JOB_DIR;
+
+// Projection that runs until it is aborted, recording the signal it was given
+const mockProjection: { signal?: AbortSignal } = {};
+
+jest.mock('../future', () => ({
+  parseFutureRequest: (input: any) => ({ ...input, captureDate: new Date(input.captureDate) }),
+  getFutureRequestKey: (request: any) => `${request.image}_h${request.horizonYears}`,
+  resolveFutureProjection: (request: any, options: { signal: AbortSignal }) => {
+    mockProjection.signal = options.signal;
+    return new Promise((resolve, reject) => {
+      options.signal.addEventListener('abort', () => reject(options.signal.reason));
+    });
+  }
+}));
+
+// Copy of the module as bundled with one API route; Next.js gives each route its own
+function loadRouteCopy(): typeof import('./index') {
+  let jobs: typeof import('./index') | undefined;
+  jest.isolateModules(() => {
+    jobs = require('./index');
+  });
+  return jobs!;
+}
+
+afterEach(() => fs.rm(JOB_DIR, { recursive: true, force: true }));
+
+describe('cancelJob', () => {
+  it('aborts the running projection from another copy of the module', async () => {
+    const startingRoute = loadRouteCopy();
+    const cancellingRoute = loadRouteCopy();
+
+    const job = startingRoute.enqueueFutureJob({
+      image: 'data:image/png;base64,AAAA',
+      horizonYears: 5,
+      captureDate: new Date('2025-06-01'),
+      locale: 'fr-CA'
+    });
+    expect(mockProjection.signal?.aborted).toBe(false);
+
+    expect(cancellingRoute.cancelJob(job.id)?.status).toBe('cancelled');
+    expect(mockProjection.signal?.aborted).toBe(true);
+
+    // Let the worker settle before the job files are removed
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+});
@@ -0,0 +1,301 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { FUTURE_STAGES, FutureStage } from '../openai/progress';
+import { FutureRequest, getFutureRequestKey, parseFutureRequest, resolveFutureProjection } from '../future';
+import type { ApiErrorCode } from '../api/errors';
+import type { FutureResponse } from '../api/contracts';
+import { toApiError } from '../api/server';
+
+// Background future projections, persisted as JSON files so queued jobs and finished results survive
+// a server restart. Jobs run in the server process, one at a time, oldest first.
+
+// Directory holding the job files; one record, input and result file per job
+const JOB_DIR = process.env.JOB_DIR || path.join(process.cwd(), '.jobs');
+
+// Finished jobs are removed after a day
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Jobs interrupted by a restart are retried once, then reported as failed
+const MAX_ATTEMPTS = 2;
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// Job record as reported by GET /api/jobs/:id
+export type FutureJob = {
+  id: string;
+  type: 'future';
+  status: JobStatus;
+  // Stage of a running job, null while queued and once finished
+  stage: FutureStage | null;
+  // Completion between 0 and 1
+  progress: number;
+  // Projection cache key, so identical pending requests share one job; suffixed with `:fallback`
+  // for requests accepting fallback data, which must not share a job with the others
+  key: string;
+  attempts: number;
+  // Server process running the job, to tell jobs interrupted by a restart from live ones
+  workerPid?: number;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  // Typed error of a failed projection
+  code?: ApiErrorCode;
+  retryable?: boolean;
+};
+
+// Serialized form of a FutureRequest (dates as ISO strings)
+type FutureJobInput = {
+  image: string;
+  mask?: string;
+  horizonYears: number;
+  captureDate: string;
+  locale: string;
+  fallback?: boolean;
+};
+
+// Worker state: the controllers of the jobs it runs, to abort them on cancellation, the running
+// worker loop and whether interrupted jobs were recovered. Kept on globalThis since Next.js bundles
+// each API route with its own copy of this module; the job routes must share one worker, and
+// cancellation must reach the controller of the route that started the job.
+type WorkerState = {
+  runningJobs: Map<string, AbortController>;
+  worker: Promise<void> | null;
+  recovered: boolean;
+};
+
+const workerHolder = globalThis as typeof globalThis & { __energiaJobWorker?: WorkerState };
+
+const workerState: WorkerState = workerHolder.__energiaJobWorker ||= {
+  runningJobs: new Map(),
+  worker: null,
+  recovered: false
+};
+
+const { runningJobs } = workerState;
+
+function jobPath(id: string, suffix: 'job' | 'input' | 'result'): string {
+  return path.join(JOB_DIR, `${id}.${suffix}.json`);
+}
+
+// Write through a temporary file so a crash never leaves a truncated record
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(JOB_DIR, { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data));
+  fs.renameSync(tempPath, filePath);
+}
+
+function readJson<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function listJobs(): FutureJob[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(JOB_DIR);
+  } catch {
+    return [];
+  }
+
+  return files
+    .filter(file => file.endsWith('.job.json'))
+    .map(file => readJson<FutureJob>(path.join(JOB_DIR, file)))
+    .filter((job): job is FutureJob => job !== null)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function removeJob(id: string): void {
+  (['job', 'input', 'result'] as const).forEach(suffix => {
+    fs.rmSync(jobPath(id, suffix), { force: true });
+  });
+}
+
+// Apply a change to the stored record, or none when update returns null. Records are read and
+// written synchronously, so changes from the worker and from cancellation never overwrite each other.
+function updateJob(id: string, update: (job: FutureJob) => Partial<FutureJob> | null): FutureJob | null {
+  const job = readJson<FutureJob>(jobPath(id, 'job'));
+  const changes = job && update(job);
+  if (!job || !changes) {
+    return null;
+  }
+
+  const updated: FutureJob = { ...job, ...changes, updatedAt: Date.now() };
+  writeJson(jobPath(id, 'job'), updated);
+  return updated;
+}
+
+function isFinished(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+// Completion reported for a stage; the image generation dominates the run time
+function stageProgress(stage: FutureStage): number {
+  return [0.1, 0.3, 0.9][FUTURE_STAGES.indexOf(stage)];
+}
+
+// Requeue jobs a previous server process left running, and remove expired ones
+function recoverJobs(): void {
+  const now = Date.now();
+
+  listJobs().forEach(job => {
+    if (isFinished(job.status) && now - job.updatedAt > JOB_RETENTION_MS) {
+      removeJob(job.id);
+    } else if (job.status === 'running' && job.workerPid !== process.pid) {
+      console.log(`Recovering interrupted job ${job.id}`);
+      updateJob(job.id, ({ attempts }) => attempts >= MAX_ATTEMPTS
+        ? { status: 'failed', stage: null, finishedAt: now, error: 'Interrupted by a server restart' }
+        : { status: 'queued', stage: null, progress: 0 });
+    }
+  });
+}
+
+async function runJob(job: FutureJob): Promise<void> {
+  // Claim the job; another worker in this process may have taken it first
+  const claimed = updateJob(job.id, current => current.status === 'queued'
+    ? { status: 'running', startedAt: Date.now(), attempts: current.attempts + 1, workerPid: process.pid }
+    : null);
+  if (!claimed) {
+    return;
+  }
+
+  const input = readJson<FutureJobInput>(jobPath(job.id, 'input'));
+  const request = input ? parseFutureRequest(input) : { error: 'Job input is missing' };
+  if ('error' in request) {
+    updateJob(job.id, () => ({ status: 'failed', finishedAt: Date.now(), error: request.error }));
+    return;
+  }
+
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  try {
+    const result = await resolveFutureProjection(request, {
+      signal: controller.signal,
+      onProgress: stage => {
+        // Cancellation may have been recorded by a worker that does not hold the controller
+        const current = updateJob(job.id, ({ status }) => status === 'running' ? { stage, progress: stageProgress(stage) } : null);
+        if (!current) {
+          controller.abort();
+        }
+      }
+    });
+
+    // The result is written first so a succeeded job always has one; a job cancelled meanwhile drops it
+    writeJson(jobPath(job.id, 'result'), result);
+    const succeeded = updateJob(job.id, ({ status }) => status === 'running'
+      ? { status: 'succeeded', stage: null, progress: 1, finishedAt: Date.now() }
+      : null);
+    fs.rmSync(jobPath(job.id, succeeded ? 'input' : 'result'), { force: true });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`Future job ${job.id} failed:`, error);
+      const { message, code, retryable } = toApiError(error);
+      updateJob(job.id, ({ status }) => status === 'running'
+        ? { status: 'failed', stage: null, finishedAt: Date.now(), error: message, code, retryable }
+        : null);
+    }
+  } finally {
+    runningJobs.delete(job.id);
+  }
+}
+
+// Run queued jobs until the queue is empty
+async function drainQueue(): Promise<void> {
+  if (!workerState.recovered) {
+    workerState.recovered = true;
+    recoverJobs();
+  }
+
+  let next = listJobs().find(job => job.status === 'queued');
+  while (next) {
+    await runJob(next);
+    next = listJobs().find(job => job.status === 'queued');
+  }
+}
+
+// Start the worker unless it is already running
+export function startJobWorker(): void {
+  if (!workerState.worker) {
+    workerState.worker = drainQueue()
+      .catch(error => console.error('Job worker stopped:', error))
+      .finally(() => {
+        workerState.worker = null;
+      });
+  }
+}
+
+// Queue a projection; a pending job for the same projection is returned instead of a new one
+export function enqueueFutureJob(request: FutureRequest): FutureJob {
+  const key = request.fallback ? `${getFutureRequestKey(request)}:fallback` : getFutureRequestKey(request);
+  const pending = listJobs().find(job => job.key === key && !isFinished(job.status));
+  if (pending) {
+    startJobWorker();
+    return pending;
+  }
+
+  const now = Date.now();
+  const job: FutureJob = {
+    id: randomUUID(),
+    type: 'future',
+    status: 'queued',
+    stage: null,
+    progress: 0,
+    key,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const input: FutureJobInput = {
+    image: request.image,
+    mask: request.mask,
+    horizonYears: request.horizonYears,
+    captureDate: request.captureDate.toISOString(),
+    locale: request.locale,
+    fallback: request.fallback
+  };
+
+  writeJson(jobPath(job.id, 'input'), input);
+  writeJson(jobPath(job.id, 'job'), job);
+  startJobWorker();
+
+  return job;
+}
+
+export function getJob(id: string): FutureJob | null {
+  // Ids come from the URL; anything but a UUID cannot name a job file
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    return null;
+  }
+
+  // A restart leaves queued jobs without a worker until someone asks about them
+  startJobWorker();
+  return readJson<FutureJob>(jobPath(id, 'job'));
+}
+
+export function getJobResult(id: string): FutureResponse | null {
+  return readJson<FutureResponse>(jobPath(id, 'result'));
+}
+
+// Cancel a queued or running job; finished jobs are returned unchanged
+export function cancelJob(id: string): FutureJob | null {
+  const job = getJob(id);
+  if (!job || isFinished(job.status)) {
+    return job;
+  }
+
+  const cancelled = updateJob(id, () => ({ status: 'cancelled', stage: null, finishedAt: Date.now() }));
+  runningJobs.get(id)?.abort();
+  fs.rmSync(jobPath(id, 'input'), { force: true });
+
+  return cancelled;
+}
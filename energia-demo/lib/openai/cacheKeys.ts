@@ -0,0 +1,83 @@
+import { CacheType, getCacheFingerprint, getImageHash } from '../cache';
+import { getImageGenerationProvider, getVisionProvider } from '../providers';
+import { DEFAULT_HORIZON_YEARS, HorizonYears } from '../projection';
+import { GROWTH_TABLE_VERSION } from '../growth';
+import { DEFAULT_LOCALE, Locale } from '../i18n';
+import { ANALYSIS_SCHEMA_VERSION } from './schema';
+
+// Cache keys are `<image hash>_<fingerprint>`. The fingerprint covers the settings that shape the
+// result (provider, model, prompt and schema versions) and the request parameters (locale, horizon,
+// mask), so changing a model or a prompt never serves results of the previous configuration.
+
+type FingerprintParts = Record<string, string | number | undefined>;
+
+// Settings behind an analysis
+function analysisConfig(): FingerprintParts {
+  const provider = getVisionProvider();
+  return {
+    visionProvider: provider.id,
+    visionModel: provider.model,
+    visionPrompt: provider.promptVersion,
+    schema: ANALYSIS_SCHEMA_VERSION
+  };
+}
+
+// Settings behind a future image
+function futureImageConfig(): FingerprintParts {
+  const provider = getImageGenerationProvider();
+  return {
+    imageProvider: provider.id,
+    imageModel: provider.model,
+    imagePrompt: provider.promptVersion
+  };
+}
+
+// Settings behind a future projection: its analysis, its image and the growth table
+function futureConfig(): FingerprintParts {
+  return { ...analysisConfig(), ...futureImageConfig(), growthTable: GROWTH_TABLE_VERSION };
+}
+
+// Fingerprint of the current settings of each cache type, stored with every entry so entries of
+// superseded settings can be listed and purged
+export function getCacheConfigFingerprints(): Record<CacheType, string> {
+  return {
+    analyze: getCacheFingerprint(analysisConfig()),
+    future: getCacheFingerprint(futureConfig()),
+    futureImage: getCacheFingerprint(futureImageConfig())
+  };
+}
+
+// Cache key for an analysis; free text is written in the requested locale, so each locale is cached apart
+export function getAnalysisCacheKey(imageData: string, locale: Locale = DEFAULT_LOCALE): string {
+  return `${getImageHash(imageData)}_${getCacheFingerprint({ ...analysisConfig(), locale })}`;
+}
+
+// Cache key for a future projection; a caller-provided mask, another horizon or another locale
+// produces a distinct result
+export function getFutureCacheKey(
+  imageData: string,
+  options: { mask?: string, horizonYears?: HorizonYears, locale?: Locale } = {}
+): string {
+  const { mask, horizonYears = DEFAULT_HORIZON_YEARS, locale = DEFAULT_LOCALE } = options;
+  const fingerprint = getCacheFingerprint({
+    ...futureConfig(),
+    horizonYears,
+    locale,
+    mask: mask && getImageHash(mask)
+  });
+  return `${getImageHash(imageData)}_${fingerprint}`;
+}
+
+// Cache key for a future image; images are not localized, so the locale is left out
+export function getFutureImageCacheKey(
+  imageData: string,
+  options: { mask?: string, horizonYears?: HorizonYears } = {}
+): string {
+  const { mask, horizonYears = DEFAULT_HORIZON_YEARS } = options;
+  const fingerprint = getCacheFingerprint({
+    ...futureImageConfig(),
+    horizonYears,
+    mask: mask && getImageHash(mask)
+  });
+  return `${getImageHash(imageData)}_${fingerprint}`;
+}
@@ -0,0 +1,43 @@
+import { Locale, translate } from '../i18n';
+
+// Canonical component types. The model also returns a free-text `type` in the user's language;
+// the interface translates `typeKey` instead so labels stay consistent across locales.
+export const COMPONENT_TYPE_KEYS = [
+  'transformer',
+  'power_line',
+  'pole',
+  'transmission_tower',
+  'insulator',
+  'fuse',
+  'switch',
+  'other'
+] as const;
+
+export type ComponentTypeKey = typeof COMPONENT_TYPE_KEYS[number];
+
+export function isComponentTypeKey(value: unknown): value is ComponentTypeKey {
+  return typeof value === 'string' && (COMPONENT_TYPE_KEYS as readonly string[]).includes(value);
+}
+
+// Free-text patterns, in French and English, most specific first
+const TYPE_PATTERNS: Array<[ComponentTypeKey, RegExp]> = [
+  ['transformer', /transfo/i],
+  ['transmission_tower', /pylône|pylone|tower/i],
+  ['insulator', /isolateur|insulator/i],
+  ['fuse', /fusible|fuse/i],
+  ['switch', /sectionneur|interrupteur|switch/i],
+  ['power_line', /ligne|câble|cable|conducteur|line|wire/i],
+  ['pole', /poteau|pole/i]
+];
+
+// Canonical key for a free-text type, for payloads and demo data saved before typeKey existed
+export function inferComponentTypeKey(type: string): ComponentTypeKey {
+  const match = TYPE_PATTERNS.find(([, pattern]) => pattern.test(type));
+  return match ? match[0] : 'other';
+}
+
+// Label shown for a component: the translated canonical type, or the model's own text when no key fits
+export function getComponentTypeLabel(type: string, typeKey: ComponentTypeKey | undefined, locale: Locale): string {
+  const key = typeKey || inferComponentTypeKey(type);
+  return key === 'other' ? type : translate(locale, `component.${key}`);
+}
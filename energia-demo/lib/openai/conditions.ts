@@ -0,0 +1,22 @@
+// Canonical component conditions. The model also returns a free-text `condition` in the user's
+// language; risk scoring reads `conditionKey` instead so the score does not depend on the locale.
+export const CONDITION_KEYS = ['good', 'fair', 'poor', 'unknown'] as const;
+
+export type ConditionKey = typeof CONDITION_KEYS[number];
+
+export function isConditionKey(value: unknown): value is ConditionKey {
+  return typeof value === 'string' && (CONDITION_KEYS as readonly string[]).includes(value);
+}
+
+// Free-text patterns, in French and English, worst condition first
+const CONDITION_PATTERNS: Array<[ConditionKey, RegExp]> = [
+  ['poor', /mauvais|détérior|deterior|endommag|critique|poor|damaged|bad/i],
+  ['fair', /usure|correct|moyen|worn|wear|fair|average/i],
+  ['good', /bon|excellent|neuf|good|new/i]
+];
+
+// Canonical key for a free-text condition, for payloads and demo data saved before conditionKey existed
+export function inferConditionKey(condition: string): ConditionKey {
+  const match = CONDITION_PATTERNS.find(([, pattern]) => pattern.test(condition));
+  return match ? match[0] : 'unknown';
+}
@@ -1,24 +1,56 @@
-import { OpenAI } from 'openai';
-import { getImageHash, getCachedResponse, cacheResponse } from '../cache';
+import { getCachedResponse, cacheResponse, singleFlight } from '../cache';
+import { getImageGenerationProvider, getVisionProvider } from '../providers';
+import { getPerceptualHash } from '../imaging';
+import { isImageAvailable, toStoredImageUrl } from '../imageStore/server';
+import type { AnalysisOptions, FutureImageOptions } from '../providers';
+import { ANALYSIS_SCHEMA_VERSION } from './schema';
+import { DEFAULT_HORIZON_YEARS, formatProjectionDate, getHorizonGrowth, HorizonYears } from '../projection';
+import { assessComponentRisk, RiskAssessment, RiskFactor, RiskLevel } from '../risk';
+import { formatMeters, formatYears, GROWTH_TABLE_VERSION, GrowthAssumptions, projectFirstContact, REQUIRED_CLEARANCE_METERS, VegetationObservation } from '../growth';
+import { DEFAULT_LOCALE, Locale, translate } from '../i18n';
+import { ComponentTypeKey, inferComponentTypeKey } from './componentTypes';
+import type { ConditionKey } from './conditions';
+import type { AnalysisProgressEvent, FutureStage } from './progress';
+import { getAnalysisCacheKey, getCacheConfigFingerprints, getFutureCacheKey, getFutureImageCacheKey } from './cacheKeys';
 
-// Initialize OpenAI client
-let openaiInstance: OpenAI;
+export { AnalysisPayloadError, ANALYSIS_SCHEMA_VERSION } from './schema';
+export type { AnalysisPayloadErrorCode } from './schema';
+export { COMPONENT_TYPE_KEYS, getComponentTypeLabel, inferComponentTypeKey, isComponentTypeKey } from './componentTypes';
+export type { ComponentTypeKey } from './componentTypes';
+export { CONDITION_KEYS, inferConditionKey, isConditionKey } from './conditions';
+export type { ConditionKey } from './conditions';
+export { ANALYSIS_STAGES, FUTURE_STAGES, getStageIndex } from './progress';
+export { getAnalysisCacheKey, getCacheConfigFingerprints, getFutureCacheKey, getFutureImageCacheKey } from './cacheKeys';
+export type { AnalysisProgressEvent, AnalysisStage, FutureStage } from './progress';
 
-// Initialize with environment variable API key
-openaiInstance = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
+// Types for OpenAI API responses
 
-export const openai = openaiInstance;
+// Coordinate space of an annotation: fractions of the image size, or pixels of the original image
+export type CoordinateSpace = 'normalized' | 'pixels';
+
+// Axis-aligned box normalized to the image size (0-1, origin at top-left)
+export type BoundingBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
 
-// Types for OpenAI API responses
 export type OpenAIComponent = {
-  type: string;
+  type: string; // Free text in the analysis locale; translate typeKey for display
+  // Canonical type; absent on analyses from before schema 2.3, use inferComponentTypeKey(type) then
+  typeKey?: ComponentTypeKey;
   confidence: number;
   details: string;
-  condition: string;
+  condition: string; // Free text in the analysis locale
+  // Canonical condition, scored for risk; absent on analyses from before schema 2.4, use inferConditionKey(condition) then
+  conditionKey?: ConditionKey;
   risks: string;
+  boundingBox?: BoundingBox;
+  // Trees that may reach the component; absent on analyses from before schema 2.2
+  vegetation?: VegetationObservation[];
+  // Computed from the fields above after the analysis, never produced by the model
+  riskAssessment?: RiskAssessment;
 };
 
 export type OpenAIAnnotation = {
@@ -29,9 +61,11 @@ export type OpenAIAnnotation = {
     y: number;
     width: number;
     height: number;
+    space: CoordinateSpace;
   };
   data: {
     label: string;
+    typeKey?: ComponentTypeKey;
     description: string;
   };
 };
@@ -44,27 +78,68 @@ export type AnalysisResult = {
     source: string;
     model?: string;
     version?: string;
+    locale?: Locale;
   };
 };
 
 export type FutureAnalysis = {
   projectionDate: string;
+  horizonYears?: HorizonYears;
   vegetationGrowth: string;
   potentialIssues: Array<{
     component: string;
-    risk: string;
+    componentKey?: ComponentTypeKey;
+    risk: RiskLevel;
+    score?: number;
+    factors?: RiskFactor[];
     description: string;
+    // Growth model output, present when trees were observed near the component and absent when the
+    // tree stops growing before reaching it
+    yearsToContact?: number;
+    clearanceLostYear?: number;
+    assumptions?: GrowthAssumptions;
   }>;
+  // Growth model settings shared by every issue
+  growthModel?: {
+    tableVersion: string;
+    requiredClearanceMeters: number;
+    captureYear: number;
+  };
   recommendations: string[];
   meta?: {
     timestamp: number;
     source: string;
+    // Provider of the analysis the projected issues build on (`meta.source` of the analysis)
+    analysisSource?: string;
     version?: string;
+    locale?: Locale;
   };
 };
 
+// How a future image was produced
+export type GenerationMode =
+  | 'image_edit'         // Capture edited by the model, whole frame editable
+  | 'image_edit_masked'  // Capture edited by the model, infrastructure protected by a mask
+  | 'fixture_replay'     // Recorded image replayed from disk
+  | 'demo_asset'         // Pre-generated demo image
+  | 'passthrough';       // Original capture returned unchanged
+
+export type FutureImageMeta = {
+  mode: GenerationMode;
+  model: string;
+  generatedAt: number;
+};
+
+export type GeneratedFutureImage = {
+  // Image data URL, or on the server the URL of the stored image (/api/images/:id)
+  image: string;
+  meta: FutureImageMeta;
+};
+
 export type FutureResult = {
+  // Image data URL, or on the server the URL of the stored image (/api/images/:id)
   futureImage: string;
+  futureImageMeta?: FutureImageMeta;
   analysis: FutureAnalysis;
   meta?: {
     timestamp: number;
@@ -73,69 +148,20 @@ export type FutureResult = {
   };
 };
 
-// Helper function to extract components from OpenAI text response
-export function processOpenAIResponse(response: any): OpenAIComponent[] {
-  try {
-    // This is a simplified implementation
-    // In a real app, we would parse the response more carefully
-    const content = response.choices[0].message.content;
-    
-    // Example format we expect from OpenAI:
-    // "1. Transformer: High confidence (95%). Details: Distribution transformer, standard urban model. Condition: Good. Risks: Nearby vegetation could pose risk in coming years.
-    // 2. Power Line: High confidence (92%). Details: Medium voltage line, likely 25kV. Condition: Fair. Risks: Nearby branches, pruning recommended within 6 months.
-    // 3. Utility Pole: High confidence (98%). Details: Wooden pole, standard installation. Condition: Normal wear. Risks: No immediate risks identified."
-    
-    // Split content by numbered items and parse each component
-    const componentStrings = content.split(/\d+\.\s+/).filter(Boolean);
-    
-    return componentStrings.map((str) => {
-      // Extract component details using regex or string manipulation
-      const typeMatch = str.match(/^([^:]+):/);
-      const confidenceMatch = str.match(/confidence \((\d+)%\)/);
-      const detailsMatch = str.match(/Details:\s+([^.]+)/);
-      const conditionMatch = str.match(/Condition:\s+([^.]+)/);
-      const risksMatch = str.match(/Risks:\s+([^.]*)/);
-      
-      return {
-        type: typeMatch ? typeMatch[1].trim() : 'Unknown component',
-        confidence: confidenceMatch ? parseInt(confidenceMatch[1]) / 100 : 0.8,
-        details: detailsMatch ? detailsMatch[1].trim() : 'No details available',
-        condition: conditionMatch ? conditionMatch[1].trim() : 'Unknown condition',
-        risks: risksMatch ? risksMatch[1].trim() : 'No risks identified',
-      };
-    });
-  } catch (error) {
-    console.error('Error processing OpenAI response:', error);
-    return [];
-  }
-}
-
-// Generate annotations based on components
+// Generate annotations from the bounding boxes returned by the model
 export function generateAnnotations(components: OpenAIComponent[]): OpenAIAnnotation[] {
-  // In a real application, we would use computer vision or LLM to generate accurate bounding boxes
-  // For the demo, we'll place components in predefined areas of the image
+  const annotations: OpenAIAnnotation[] = [];
   
-  // Create annotations with predefined positions (for demo purposes)
-  return components.map((component, index) => {
-    // Calculate positions based on component type and index
-    // These are arbitrary placements for demo purposes
-    let x = 10 + (index * 50);
-    let y = 20 + (index * 40);
-    let width = 100;
-    let height = 150;
-    
-    // Adjust based on component type
-    if (component.type.toLowerCase().includes('line')) {
-      // Make power lines more horizontal
-      width = 300;
-      height = 10;
-    } else if (component.type.toLowerCase().includes('pole')) {
-      // Make poles more vertical
-      width = 30;
-      height = 300;
+  components.forEach((component, index) => {
+    // Components without a located box are listed in the panel but not drawn
+    if (!component.boundingBox) {
+      return;
     }
     
-    return {
+    const { x, y, width, height } = component.boundingBox;
+    
+    annotations.push({
+      // Ids follow the component index so the panel and the overlay stay in sync
       id: (index + 1).toString(),
       type: 'rectangle',
       geometry: {
@@ -143,275 +169,310 @@ export function generateAnnotations(components: OpenAIComponent[]): OpenAIAnnota
         y,
         width,
         height,
+        space: 'normalized',
       },
       data: {
         label: component.type,
+        typeKey: component.typeKey || inferComponentTypeKey(component.type),
         description: component.details,
       },
-    };
+    });
   });
+  
+  return annotations;
 }
 
-// Function to analyze an image using OpenAI Vision API
-export async function analyzeImage(imageData: string): Promise<AnalysisResult> {
-  // Check cache first
-  const imageHash = getImageHash(imageData);
-  const cachedResult = getCachedResponse('analyze', imageHash);
+// Options for an analysis request
+export type AnalyzeImageOptions = AnalysisOptions & {
+  // Skip the cache lookup and call the provider, to replace a stale entry
+  refresh?: boolean;
+};
+
+// Function to analyze an image with the configured vision provider
+export async function analyzeImage(imageData: string, options: AnalyzeImageOptions = {}): Promise<AnalysisResult> {
+  const { locale = DEFAULT_LOCALE } = options;
+  
+  // Check cache first; canned fallback entries are not an analysis of this image
+  const analysisKey = getAnalysisCacheKey(imageData, locale);
+  const perceptualHash = await getPerceptualHash(imageData);
+  const cachedResult = options.refresh ? null : await getCachedResponse('analyze', analysisKey, { perceptualHash, excludeFallback: true });
   
   if (cachedResult) {
     console.log('Using cached analysis result');
     return cachedResult;
   }
   
+  // Identical analyses already running (another request, a projection) share one provider call
+  return singleFlight('analyze', analysisKey, signal => runAnalysis(imageData, analysisKey, perceptualHash, { ...options, signal }), options.signal);
+}
+
+// Provider call behind analyzeImage, caching its result
+async function runAnalysis(imageData: string, analysisKey: string, perceptualHash: string | null, options: AnalyzeImageOptions): Promise<AnalysisResult> {
+  const { locale = DEFAULT_LOCALE } = options;
+  const provider = getVisionProvider();
+  
+  // Components reported so far, scored before they reach the caller; providers that do not
+  // stream report nothing, so the remaining stages and components are filled in below
+  let parsingReported = false;
+  let componentsReported = 0;
+  const onProgress = options.onProgress && ((event: AnalysisProgressEvent) => {
+    if (event.type === 'stage' && event.stage === 'parsing') {
+      parsingReported = true;
+    }
+    if (event.type === 'component') {
+      componentsReported = event.index + 1;
+      event = { ...event, component: { ...event.component, riskAssessment: assessComponentRisk(event.component, { locale }) } };
+    }
+    options.onProgress!(event);
+  });
+  
   try {
-    console.log('Analyzing image with OpenAI Vision API...');
-    // Call OpenAI API
-    const response = await openai.chat.completions.create({
-      model: "gpt-4-vision-preview",
-      messages: [
-        {
-          role: "user",
-          content: [
-            { 
-              type: "text", 
-              text: `Analyze this image of electrical infrastructure. Identify all electrical components present such as transformers, power lines, utility poles, etc.
-              
-              For each component provide:
-              1. The type of component
-              2. Your confidence level (as a percentage)
-              3. Details about the component (model, purpose, etc.)
-              4. Assessment of its condition
-              5. Potential risks related to vegetation growth
-              
-              Format your response as a numbered list:
-              1. [Component Type]: [Confidence (X%)]. Details: [details]. Condition: [condition]. Risks: [risks].
-              2. [Component Type]: [Confidence (X%)]. Details: [details]. Condition: [condition]. Risks: [risks].
-              ... and so on
-              
-              Only include electrical infrastructure components. Focus on identifying components that could be affected by vegetation growth.`
-            },
-            { 
-              type: "image_url", 
-              image_url: { url: imageData } 
-            }
-          ]
-        }
-      ],
-      max_tokens: 800
-    });
+    console.log(`Analyzing image with ${provider.id} vision provider (${provider.model})...`);
+    onProgress?.({ type: 'stage', stage: 'model_call' });
+    const components = (await provider.analyze(imageData, { locale, onProgress, signal: options.signal })).map(component => ({
+      ...component,
+      riskAssessment: assessComponentRisk(component, { locale })
+    }));
+    
+    if (onProgress) {
+      if (!parsingReported) {
+        onProgress({ type: 'stage', stage: 'parsing' });
+      }
+      components.slice(componentsReported).forEach((component, offset) => {
+        options.onProgress!({ type: 'component', index: componentsReported + offset, component });
+      });
+    }
     
-    // Process the response
-    const components = processOpenAIResponse(response);
     const annotations = generateAnnotations(components);
+    onProgress?.({ type: 'stage', stage: 'annotations_ready' });
     
     const result: AnalysisResult = {
       components,
       annotations,
       meta: {
         timestamp: Date.now(),
-        source: 'openai',
-        model: 'gpt-4-vision-preview',
-        version: '1.0'
+        source: provider.id,
+        model: provider.model,
+        version: ANALYSIS_SCHEMA_VERSION,
+        locale
       }
     };
     
     // Cache the result as from API
-    cacheResponse('analyze', imageHash, result, 'api');
+    await cacheResponse('analyze', analysisKey, result, 'api', { perceptualHash, config: getCacheConfigFingerprints().analyze });
     console.log('Analysis complete and cached');
     
     return result;
   } catch (error) {
-    console.error('Error analyzing image with OpenAI:', error);
+    console.error(`Error analyzing image with ${provider.id} provider:`, error);
     throw error;
   }
 }
 
-// Function to generate a future projection using OpenAI
-export async function generateFuture(imageData: string): Promise<FutureResult> {
+// Options for a future projection request
+export type FutureOptions = {
+  mask?: string;
+  horizonYears?: HorizonYears;
+  // When the photo was taken; the projection date is counted from it
+  captureDate?: Date;
+  // Language of the generated text
+  locale?: Locale;
+  // Called as the projection enters each stage
+  onProgress?: (stage: FutureStage) => void;
+  // Cancels the projection: aborts its provider calls and abandons it before its next stage
+  signal?: AbortSignal;
+  // Skip the cache lookup of the projection, to replace a stale entry
+  refresh?: boolean;
+};
+
+// Function to generate a future projection from the analysis and the image provider
+export async function generateFuture(imageData: string, options: FutureOptions = {}): Promise<FutureResult> {
+  const { horizonYears = DEFAULT_HORIZON_YEARS, locale = DEFAULT_LOCALE } = options;
+  
   // Check cache first
-  const imageHash = getImageHash(imageData);
-  const cachedResult = getCachedResponse('future', imageHash);
+  const futureKey = getFutureCacheKey(imageData, { mask: options.mask, horizonYears, locale });
+  const perceptualHash = await getPerceptualHash(imageData);
+  const cachedResult = options.refresh ? null : await getCachedResponse('future', futureKey, { perceptualHash, excludeFallback: true });
   
   if (cachedResult) {
     console.log('Using cached future projection result');
     return cachedResult;
   }
   
+  // Identical projections already running share one run
+  return singleFlight('future', futureKey, signal => runFuture(imageData, futureKey, perceptualHash, { ...options, signal }), options.signal);
+}
+
+// Analysis, image generation and growth projection behind generateFuture, caching the result
+async function runFuture(imageData: string, futureKey: string, perceptualHash: string | null, options: FutureOptions): Promise<FutureResult> {
+  const { horizonYears = DEFAULT_HORIZON_YEARS, captureDate = new Date(), locale = DEFAULT_LOCALE, onProgress, signal } = options;
+  
+  // Report a stage, unless the caller gave up on the projection
+  const enterStage = (stage: FutureStage) => {
+    signal?.throwIfAborted();
+    onProgress?.(stage);
+  };
+  
   try {
     console.log('Generating future projection...');
+    enterStage('analysis');
     
     // First, get the analysis to base our future projection on
     let analysisData: AnalysisResult;
     
     // Try to use cached analysis data
-    const cachedAnalysis = getCachedResponse('analyze', imageHash);
+    const cachedAnalysis = await getCachedResponse('analyze', getAnalysisCacheKey(imageData, locale), { perceptualHash, excludeFallback: true });
     if (cachedAnalysis) {
       analysisData = cachedAnalysis;
       console.log('Using cached analysis data for future projection');
     } else {
       // Generate new analysis if we don't have it cached
       console.log('No cached analysis found, generating new analysis for future projection');
-      analysisData = await analyzeImage(imageData);
+      analysisData = await analyzeImage(imageData, { locale, signal });
     }
     
-    // Generate future image using the OpenAI Images API
+    // Generate future image with the configured image provider
+    // The detected components are protected so the infrastructure keeps its position
     console.log('Generating future image for projection...');
-    const futureImage = await generateFutureImage(imageData);
+    enterStage('image_generation');
+    const futureImage = await generateFutureImage(imageData, {
+      mask: options.mask,
+      horizonYears,
+      protectedRegions: analysisData.annotations.map(annotation => annotation.geometry),
+      signal
+    });
     
     // Generate future analysis based on the components from the analysis
+    enterStage('growth_projection');
+    const growth = getHorizonGrowth(horizonYears);
+    const captureYear = captureDate.getFullYear();
     const futureAnalysis: FutureAnalysis = {
-      projectionDate: 'Mai 2030',
-      vegetationGrowth: 'Croissance de 30-50% selon les espèces présentes',
+      projectionDate: formatProjectionDate(horizonYears, captureDate, locale),
+      horizonYears,
+      vegetationGrowth: translate(locale, 'projectionText.vegetationGrowth', growth),
       potentialIssues: analysisData.components.map(component => {
-        // Generate issue details based on component type
-        let risk = 'Moyen';
-        let description = 'Risque standard lié à la croissance de la végétation.';
+        // Project the tree that takes the clearance first, and score the risk at the projection date
+        const projection = projectFirstContact(component.vegetation || [], captureYear, undefined, locale);
+        const assessment = assessComponentRisk(component, { captureYear, yearsAhead: horizonYears, locale });
+        const componentKey = component.typeKey || inferComponentTypeKey(component.type);
         
-        // Customize risk based on component type
-        const typeLower = component.type.toLowerCase();
-        if (typeLower.includes('transformateur')) {
-          risk = 'Élevé';
-          description = 'La végétation pourrait entrer en contact avec le transformateur d\'ici 3 ans si non entretenue.';
-        } else if (typeLower.includes('ligne') || typeLower.includes('câble')) {
-          risk = 'Moyen';
-          description = 'Branches au-dessus de la ligne nécessiteront un élagage dans les 1-2 ans.';
-        } else if (typeLower.includes('poteau') || typeLower.includes('pylône')) {
-          risk = 'Faible';
-          description = 'Peu de risque à court terme, mais surveillance recommandée.';
+        if (!projection) {
+          return {
+            component: component.type,
+            componentKey,
+            risk: assessment.level,
+            score: assessment.score,
+            factors: assessment.factors,
+            description: translate(locale, 'projectionText.noTree')
+          };
         }
         
+        const { assumptions, yearsToClearanceLoss, yearsToContact, clearanceLostYear } = projection;
+        // A tree that reaches its mature height first may keep the clearance, or lose it without touching
+        const messageKey = yearsToClearanceLoss === null
+          ? 'projectionText.clearanceKept'
+          : yearsToClearanceLoss === 0
+            ? (yearsToContact === null ? 'projectionText.alreadyCloseNoContact' : 'projectionText.alreadyClose')
+            : (yearsToContact === null ? 'projectionText.clearanceLostByNoContact' : 'projectionText.clearanceLostBy');
+        const description = translate(locale, messageKey, {
+          species: assumptions.speciesName,
+          distance: formatMeters(assumptions.clearanceMeters, locale),
+          clearance: formatMeters(assumptions.requiredClearanceMeters, locale),
+          height: formatMeters(assumptions.matureHeightMeters, locale),
+          year: clearanceLostYear ?? '',
+          years: yearsToContact !== null ? formatYears(yearsToContact, locale) : ''
+        });
+        
         return {
           component: component.type,
-          risk,
-          description
+          componentKey,
+          risk: assessment.level,
+          score: assessment.score,
+          factors: assessment.factors,
+          description,
+          yearsToContact: yearsToContact ?? undefined,
+          clearanceLostYear: clearanceLostYear ?? undefined,
+          assumptions
         };
       }),
+      growthModel: {
+        tableVersion: GROWTH_TABLE_VERSION,
+        requiredClearanceMeters: REQUIRED_CLEARANCE_METERS,
+        captureYear
+      },
       recommendations: [
-        'Planifier un élagage préventif dans les 12 prochains mois',
-        'Programmer une inspection de suivi dans 18 mois',
-        'Établir un plan de gestion de la végétation sur 5 ans',
-        'Considérer l\'installation d\'équipement de protection supplémentaire'
+        translate(locale, 'projectionText.recommendation.pruning'),
+        translate(locale, 'projectionText.recommendation.followUp'),
+        translate(locale, 'projectionText.recommendation.plan'),
+        translate(locale, 'projectionText.recommendation.protection')
       ],
       meta: {
         timestamp: Date.now(),
         source: 'generated',
-        version: '1.0'
+        analysisSource: analysisData.meta?.source,
+        version: '1.0',
+        locale
       }
     };
     
     const result: FutureResult = {
-      futureImage,
+      futureImage: futureImage.image,
+      futureImageMeta: futureImage.meta,
       analysis: futureAnalysis
     };
     
     // Cache the result as from API
-    cacheResponse('future', imageHash, result, 'api');
+    await cacheResponse('future', futureKey, result, 'api', { perceptualHash, config: getCacheConfigFingerprints().future });
     console.log('Future projection complete and cached');
     
     return result;
   } catch (error) {
-    console.error('Error generating future projection with OpenAI:', error);
+    console.error('Error generating future projection:', error);
     throw error;
   }
 }
 
-// Function to generate a future image using DALL-E
-export async function generateFutureImage(imageData: string): Promise<string> {
+// Function to generate a future image with the configured image generation provider. Failures
+// (timeouts, an open circuit) are thrown: a projection without its image is not cached as one, and
+// the route decides whether fallback data stands in for it.
+export async function generateFutureImage(imageData: string, options: FutureImageOptions = {}): Promise<GeneratedFutureImage> {
+  const provider = getImageGenerationProvider();
+  
   try {
-    // Check cache first using a hash of the input image plus a "future" prefix
-    const imageHash = getImageHash(`future_${imageData}`);
-    const cachedResult = getCachedResponse('futureImage', imageHash);
+    // Check cache first (entries from before generation metadata existed are plain strings and are regenerated)
+    const imageHash = getFutureImageCacheKey(imageData, { mask: options.mask, horizonYears: options.horizonYears });
+    const perceptualHash = await getPerceptualHash(imageData);
+    const cachedResult = await getCachedResponse('futureImage', imageHash, { perceptualHash });
     
-    if (cachedResult) {
+    // A stored image may have been pruned since
+    if (cachedResult && typeof cachedResult !== 'string' && await isImageAvailable(cachedResult.image)) {
       console.log('Using cached future image');
       return cachedResult;
     }
     
-    console.log('Generating future image using OpenAI Images API...');
-    
-    // Standard prompt for consistent vegetation growth projection
-    const standardPrompt = `Generate a realistic modified version of this image showing the same electrical infrastructure after 5 years of vegetation growth. 
-    The image should maintain the exact same perspective, infrastructure components, and overall lighting, but show:
-    
-    1. Trees that have grown 30-50% taller with expanded canopies
-    2. Bushes and undergrowth that have become denser and encroached closer to infrastructure
-    3. Vines or climbing plants that may have started growing on poles or structures
-    4. Some branches that now extend closer to or touch power lines
-    5. Overall more dense vegetation that creates potential hazards to the electrical equipment
-    
-    The changes should be subtle yet noticeable and scientifically plausible for 5 years of growth. Maintain photorealism and avoid artistic filters or styles.`;
-    
-    // Use the OpenAI Images API to generate the future image
-    // Since we want to generate a modified version of the current image, we'll use
-    // the createImage API with a detailed prompt that describes the current image
-    // and the vegetation growth we want to see
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: `${standardPrompt}
+    // Identical generations already running share one provider call
+    return await singleFlight('futureImage', imageHash, async signal => {
+      console.log(`Generating future image with ${provider.id} image provider (${provider.model})...`);
+      const generated = await provider.generateFutureImage(imageData, { ...options, signal });
       
-      The image should be a photorealistic modification of an electrical infrastructure scene that shows:
-      - The exact same infrastructure components (poles, lines, transformers) in the same positions
-      - The same perspective and general composition
-      - The same lighting conditions and weather
-      - Only natural vegetation growth changes that would occur over 5 years
-      
-      This is for a utility company's vegetation management planning tool, so accuracy and realism are critical.`,
-      n: 1,
-      size: "1024x1024",
-      quality: "hd",
-    });
-    
-    // Check if we have a valid response
-    if (!response.data || response.data.length === 0 || !response.data[0].url) {
-      console.error('Invalid response from OpenAI Images API');
-      return imageData; // Fall back to original image
-    }
-    
-    // Get the generated image URL
-    const futureImageUrl = response.data[0].url;
-    
-    // Convert the URL to base64
-    const futureImageBase64 = await urlToBase64(futureImageUrl);
-    
-    // Cache the result for future use
-    cacheResponse('futureImage', imageHash, futureImageBase64, 'api');
-    
-    console.log('Future image generated and cached');
-    return futureImageBase64;
-  } catch (error) {
-    console.error('Error generating future image with OpenAI:', error);
-    console.log('Falling back to original image');
-    return imageData; // Fall back to original image
-  }
-}
-
-// Helper function to convert URL to base64
-async function urlToBase64(url: string): Promise<string> {
-  try {
-    // Fetch the image
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
-    }
-    
-    // Convert to blob
-    const blob = await response.blob();
-    
-    // Convert blob to base64
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        if (typeof reader.result === 'string') {
-          resolve(reader.result);
-        } else {
-          reject(new Error('Failed to convert image to base64'));
+      const result: GeneratedFutureImage = {
+        // On the server the image is stored and cached as its URL (/api/images/:id)
+        image: typeof window === 'undefined' ? await toStoredImageUrl(generated.image) : generated.image,
+        meta: {
+          mode: generated.mode,
+          model: provider.model,
+          generatedAt: Date.now()
         }
       };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+      
+      // Cache the result for future use
+      await cacheResponse('futureImage', imageHash, result, 'api', { perceptualHash, config: getCacheConfigFingerprints().futureImage });
+      
+      console.log(`Future image generated (${generated.mode}) and cached`);
+      return result;
+    }, options.signal);
   } catch (error) {
-    console.error('Error converting URL to base64:', error);
+    console.error(`Error generating future image with ${provider.id} provider:`, error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+import type { OpenAIComponent } from './index';
+
+// Stages of an analysis, in order. The API route reports `received` and `cache_lookup`;
+// analyzeImage reports the rest.
+export const ANALYSIS_STAGES = ['received', 'cache_lookup', 'model_call', 'parsing', 'annotations_ready'] as const;
+
+export type AnalysisStage = typeof ANALYSIS_STAGES[number];
+
+// Progress reported while an analysis runs; components arrive as soon as they are parsed,
+// before their annotations exist
+export type AnalysisProgressEvent =
+  | { type: 'stage', stage: AnalysisStage }
+  | { type: 'component', index: number, component: OpenAIComponent };
+
+export function getStageIndex(stage: AnalysisStage): number {
+  return ANALYSIS_STAGES.indexOf(stage);
+}
+
+// Stages of a future projection, in order
+export const FUTURE_STAGES = ['analysis', 'image_generation', 'growth_projection'] as const;
+
+export type FutureStage = typeof FUTURE_STAGES[number];
@@ -0,0 +1,352 @@
+import type { BoundingBox, OpenAIComponent } from './index';
+import { isSpeciesId, SPECIES_IDS, VegetationObservation } from '../growth';
+import { COMPONENT_TYPE_KEYS, ComponentTypeKey, inferComponentTypeKey, isComponentTypeKey } from './componentTypes';
+import { CONDITION_KEYS, ConditionKey, inferConditionKey, isConditionKey } from './conditions';
+
+// Version of the analysis payload contract, bumped whenever the schema changes
+export const ANALYSIS_SCHEMA_VERSION = '2.4';
+
+// JSON schema sent to the model through response_format (strict structured output).
+// Strict mode requires every property to be listed in `required` and
+// `additionalProperties: false` on every object.
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['components'],
+  properties: {
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['type', 'typeKey', 'confidence', 'details', 'condition', 'conditionKey', 'risks', 'boundingBox', 'vegetation'],
+        properties: {
+          type: { type: 'string', description: 'Type of electrical component, in the requested language (e.g. transformer, power line, utility pole)' },
+          typeKey: { type: 'string', enum: COMPONENT_TYPE_KEYS, description: 'Canonical component type, "other" when none fits' },
+          confidence: { type: 'number', description: 'Detection confidence between 0 and 1' },
+          details: { type: 'string', description: 'Details about the component (model, purpose, voltage, etc.)' },
+          condition: { type: 'string', description: 'Assessment of the component condition' },
+          conditionKey: { type: 'string', enum: CONDITION_KEYS, description: 'Canonical condition: good, fair (normal wear), poor (damaged or deteriorated), "unknown" when it cannot be assessed' },
+          risks: { type: 'string', description: 'Potential risks related to vegetation growth' },
+          boundingBox: {
+            type: 'object',
+            description: 'Tight box around the component, normalized to the image size (0-1, origin at top-left)',
+            additionalProperties: false,
+            required: ['x', 'y', 'width', 'height'],
+            properties: {
+              x: { type: 'number', description: 'Left edge as a fraction of image width' },
+              y: { type: 'number', description: 'Top edge as a fraction of image height' },
+              width: { type: 'number', description: 'Box width as a fraction of image width' },
+              height: { type: 'number', description: 'Box height as a fraction of image height' }
+            }
+          },
+          vegetation: {
+            type: 'array',
+            description: 'Trees close enough to the component to reach it as they grow (empty if none)',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['species', 'heightMeters', 'clearanceMeters', 'position'],
+              properties: {
+                species: { type: 'string', enum: SPECIES_IDS, description: 'Tree species, or "inconnue" when it cannot be identified' },
+                heightMeters: { type: 'number', description: 'Estimated current tree height in meters' },
+                clearanceMeters: { type: 'number', description: 'Estimated current distance between the crown and the component, in meters' },
+                position: { type: 'string', enum: ['below', 'beside'], description: 'Whether the tree grows up toward the component or sideways into it' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+} as const;
+
+// response_format parameter for chat.completions.create
+export const ANALYSIS_RESPONSE_FORMAT = {
+  type: 'json_schema' as const,
+  json_schema: {
+    name: 'infrastructure_analysis',
+    strict: true,
+    schema: ANALYSIS_JSON_SCHEMA as unknown as Record<string, unknown>
+  }
+};
+
+// Error codes raised while turning a model payload into components
+export type AnalysisPayloadErrorCode = 'empty_response' | 'refusal' | 'invalid_json' | 'schema_mismatch';
+
+// Typed error for malformed analysis payloads, carrying the raw content so a repair pass can use it
+export class AnalysisPayloadError extends Error {
+  readonly code: AnalysisPayloadErrorCode;
+  readonly issues: string[];
+  readonly raw: string | null;
+
+  constructor(code: AnalysisPayloadErrorCode, message: string, issues: string[] = [], raw: string | null = null) {
+    super(message);
+    this.name = 'AnalysisPayloadError';
+    this.code = code;
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+// Check that a value is a non-empty string, recording an issue otherwise
+function checkString(value: unknown, path: string, issues: string[]): value is string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    issues.push(`${path} must be a non-empty string`);
+    return false;
+  }
+  return true;
+}
+
+// Small tolerance for boxes that overshoot the image edge by rounding
+const BOX_EDGE_TOLERANCE = 0.02;
+
+// Check a normalized bounding box, clamping it to the image when it barely overshoots
+function checkBoundingBox(value: unknown, path: string, issues: string[]): BoundingBox | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push(`${path} must be an object with x, y, width and height`);
+    return null;
+  }
+
+  const box = value as Record<string, unknown>;
+  const fields = ['x', 'y', 'width', 'height'] as const;
+  let valid = true;
+
+  fields.forEach(field => {
+    const coordinate = box[field];
+    if (typeof coordinate !== 'number' || !isFinite(coordinate) || coordinate < 0 || coordinate > 1) {
+      issues.push(`${path}.${field} must be a number between 0 and 1`);
+      valid = false;
+    }
+  });
+
+  if (!valid) {
+    return null;
+  }
+
+  const x = box.x as number;
+  const y = box.y as number;
+  const width = box.width as number;
+  const height = box.height as number;
+
+  if (width === 0 || height === 0) {
+    issues.push(`${path} must have a non-zero width and height`);
+    return null;
+  }
+
+  if (x + width > 1 + BOX_EDGE_TOLERANCE || y + height > 1 + BOX_EDGE_TOLERANCE) {
+    issues.push(`${path} extends outside the image (x + width and y + height must not exceed 1)`);
+    return null;
+  }
+
+  return {
+    x,
+    y,
+    width: Math.min(width, 1 - x),
+    height: Math.min(height, 1 - y)
+  };
+}
+
+// Check the canonical type; payloads from before schema 2.3 have none and it is inferred from the free text
+function checkTypeKey(value: unknown, type: string, path: string, issues: string[]): ComponentTypeKey | null {
+  if (value === undefined) {
+    return inferComponentTypeKey(type);
+  }
+  if (!isComponentTypeKey(value)) {
+    issues.push(`${path} must be one of ${COMPONENT_TYPE_KEYS.join(', ')}`);
+    return null;
+  }
+  return value;
+}
+
+// Check the canonical condition; payloads from before schema 2.4 have none and it is inferred from the free text
+function checkConditionKey(value: unknown, condition: string, path: string, issues: string[]): ConditionKey | null {
+  if (value === undefined) {
+    return inferConditionKey(condition);
+  }
+  if (!isConditionKey(value)) {
+    issues.push(`${path} must be one of ${CONDITION_KEYS.join(', ')}`);
+    return null;
+  }
+  return value;
+}
+
+// Check the trees observed near a component; payloads from before schema 2.2 have none
+function checkVegetation(value: unknown, path: string, issues: string[]): VegetationObservation[] | null {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return null;
+  }
+
+  const result: VegetationObservation[] = [];
+  let valid = true;
+
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    const tree = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+
+    if (!isSpeciesId(tree.species)) {
+      issues.push(`${itemPath}.species must be one of ${SPECIES_IDS.join(', ')}`);
+      valid = false;
+    }
+    (['heightMeters', 'clearanceMeters'] as const).forEach(field => {
+      const measure = tree[field];
+      if (typeof measure !== 'number' || !isFinite(measure) || measure < 0) {
+        issues.push(`${itemPath}.${field} must be a non-negative number`);
+        valid = false;
+      }
+    });
+    if (tree.position !== 'below' && tree.position !== 'beside') {
+      issues.push(`${itemPath}.position must be "below" or "beside"`);
+      valid = false;
+    }
+
+    if (valid) {
+      result.push({
+        species: tree.species as VegetationObservation['species'],
+        heightMeters: tree.heightMeters as number,
+        clearanceMeters: tree.clearanceMeters as number,
+        position: tree.position as VegetationObservation['position']
+      });
+    }
+  });
+
+  return valid ? result : null;
+}
+
+// Validate a parsed payload against the analysis schema and return typed components
+export function validateAnalysisPayload(payload: unknown, raw: string | null = null): OpenAIComponent[] {
+  const issues: string[] = [];
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new AnalysisPayloadError('schema_mismatch', 'Analysis payload must be a JSON object', ['root must be an object'], raw);
+  }
+
+  const components = (payload as { components?: unknown }).components;
+  if (!Array.isArray(components)) {
+    throw new AnalysisPayloadError('schema_mismatch', 'Analysis payload is missing the components array', ['components must be an array'], raw);
+  }
+
+  const result: OpenAIComponent[] = [];
+
+  components.forEach((item, index) => {
+    const path = `components[${index}]`;
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+
+    const candidate = item as Record<string, unknown>;
+    const validType = checkString(candidate.type, `${path}.type`, issues);
+    const typeKey = validType ? checkTypeKey(candidate.typeKey, candidate.type as string, `${path}.typeKey`, issues) : null;
+    const validDetails = checkString(candidate.details, `${path}.details`, issues);
+    const validCondition = checkString(candidate.condition, `${path}.condition`, issues);
+    const conditionKey = validCondition ? checkConditionKey(candidate.conditionKey, candidate.condition as string, `${path}.conditionKey`, issues) : null;
+    const validRisks = checkString(candidate.risks, `${path}.risks`, issues);
+
+    let validConfidence = true;
+    if (typeof candidate.confidence !== 'number' || !isFinite(candidate.confidence)
+      || candidate.confidence < 0 || candidate.confidence > 1) {
+      issues.push(`${path}.confidence must be a number between 0 and 1`);
+      validConfidence = false;
+    }
+
+    const boundingBox = checkBoundingBox(candidate.boundingBox, `${path}.boundingBox`, issues);
+    const vegetation = checkVegetation(candidate.vegetation, `${path}.vegetation`, issues);
+
+    if (validType && typeKey && validDetails && validCondition && conditionKey && validRisks && validConfidence && boundingBox && vegetation) {
+      result.push({
+        type: (candidate.type as string).trim(),
+        typeKey,
+        confidence: candidate.confidence as number,
+        details: (candidate.details as string).trim(),
+        condition: (candidate.condition as string).trim(),
+        conditionKey,
+        risks: (candidate.risks as string).trim(),
+        boundingBox,
+        vegetation
+      });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new AnalysisPayloadError('schema_mismatch', `Analysis payload failed validation (${issues.length} issue(s))`, issues, raw);
+  }
+
+  return result;
+}
+
+// Parse raw model content (a JSON string) into validated components
+export function parseAnalysisContent(content: string | null | undefined): OpenAIComponent[] {
+  if (!content || content.trim().length === 0) {
+    throw new AnalysisPayloadError('empty_response', 'Model returned an empty analysis payload');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new AnalysisPayloadError('invalid_json', 'Model returned invalid JSON', [reason], content);
+  }
+
+  return validateAnalysisPayload(payload, content);
+}
+
+// Components whose JSON object is already complete in a partial (streamed) payload, in order.
+// Only the outer structure is scanned here; each object is validated like a full payload would be.
+export function extractCompleteComponents(partial: string): unknown[] {
+  const key = partial.indexOf('"components"');
+  const start = key === -1 ? -1 : partial.indexOf('[', key);
+  if (start === -1) {
+    return [];
+  }
+
+  const objects: unknown[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start + 1; i < partial.length; i++) {
+    const char = partial[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) {
+        objectStart = i;
+      }
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) {
+        break; // end of the components array
+      }
+      depth--;
+      if (depth === 0) {
+        try {
+          objects.push(JSON.parse(partial.slice(objectStart, i + 1)));
+        } catch {
+          return objects;
+        }
+      }
+    }
+  }
+
+  return objects;
+}
@@ -0,0 +1,58 @@
+import { DEFAULT_LOCALE, Locale, translate } from '../i18n';
+
+// Projection horizon helpers, shared by the API, the providers and the pages
+
+// Horizons offered for future projections, in years
+export const PROJECTION_HORIZONS = [1, 3, 5, 10] as const;
+
+export type HorizonYears = typeof PROJECTION_HORIZONS[number];
+
+// Horizon used when none is requested; matches the pre-generated demo projections
+export const DEFAULT_HORIZON_YEARS: HorizonYears = 5;
+
+// Expected tree growth over each horizon, used in prompts and in the projection summary
+const HORIZON_GROWTH: Record<HorizonYears, { min: number, max: number }> = {
+  1: { min: 5, max: 10 },
+  3: { min: 15, max: 30 },
+  5: { min: 30, max: 50 },
+  10: { min: 60, max: 100 }
+};
+
+export function isHorizonYears(value: unknown): value is HorizonYears {
+  return typeof value === 'number' && (PROJECTION_HORIZONS as readonly number[]).includes(value);
+}
+
+// Parse a horizon from a request body or query value; undefined when absent, null when invalid
+export function parseHorizonYears(value: unknown): HorizonYears | undefined | null {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return isHorizonYears(parsed) ? parsed : null;
+}
+
+export function getHorizonGrowth(horizonYears: HorizonYears): { min: number, max: number } {
+  return HORIZON_GROWTH[horizonYears];
+}
+
+// Horizon as displayed in the interface, e.g. "1 an", "5 ans" or "5 years"
+export function formatHorizon(horizonYears: HorizonYears, locale: Locale = DEFAULT_LOCALE): string {
+  return translate(locale, horizonYears === 1 ? 'projection.horizon.one' : 'projection.horizon.many', { years: horizonYears });
+}
+
+// Date the projection represents: capture date plus the horizon
+export function addHorizon(captureDate: Date, horizonYears: HorizonYears): Date {
+  const projected = new Date(captureDate.getTime());
+  projected.setFullYear(projected.getFullYear() + horizonYears);
+  return projected;
+}
+
+// Localized projection date, e.g. "Mai 2030" or "May 2030"
+export function formatProjectionDate(
+  horizonYears: HorizonYears,
+  captureDate: Date = new Date(),
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const formatted = addHorizon(captureDate, horizonYears).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+  return formatted.charAt(0).toUpperCase() + formatted.slice(1);
+}
@@ -0,0 +1,117 @@
+import { STALE_RESPONSE_STATUSES } from '../cache';
+import type { CacheMatch } from '../cache';
+import type { AnalysisResult, FutureImageMeta, FutureResult, GenerationMode } from '../openai';
+import type { ApiResponse, ResponseMeta } from '../api/contracts';
+import { MODEL_PROVIDER_IDS } from '../providers/types';
+
+// Provenance of a result shown in the UI: where it came from (`_meta` of the API response) and what
+// produced it (the result's own metadata), so field users can tell a fresh analysis of their photo
+// from a cached one or from illustrative demo data.
+
+// live: produced by the providers for this request; cached / stale: served from the cache (stale
+// ones are being refreshed); demo: served by demo mode; fallback: canned data standing in for a failure
+export const PROVENANCE_KINDS = ['live', 'cached', 'stale', 'demo', 'fallback'] as const;
+
+export type ProvenanceKind = typeof PROVENANCE_KINDS[number];
+
+export type Provenance = {
+  kind: ProvenanceKind;
+  // `_meta` of the response, as sent by the route
+  source: string;
+  status: string;
+  // Model that produced the result, when known
+  model?: string;
+  // When the result was produced
+  producedAt?: number;
+  // How old the result was when served from the cache
+  cacheAge?: number;
+  match?: CacheMatch;
+  // The data is not derived from the captured image (canned fallback or demo data, or the capture
+  // itself standing in for a projection)
+  illustrative: boolean;
+  // How a projected image was produced
+  imageMode?: GenerationMode;
+};
+
+// Image generation modes in which a model actually projected the capture
+const MODEL_IMAGE_MODES: readonly GenerationMode[] = ['image_edit', 'image_edit_masked'];
+
+// What produced the result, from the result's own metadata
+type ResultDetails = {
+  // `meta.source` of the result: 'fallback' for canned data
+  source?: string;
+  model?: string;
+  producedAt?: number;
+};
+
+// Whether a result's `meta.source` names something other than a model reading the photo: canned
+// fallback data, or the fixture and local providers. Results without one are not flagged.
+function isIllustrativeSource(source: string | undefined): boolean {
+  return source !== undefined && !(MODEL_PROVIDER_IDS as readonly string[]).includes(source);
+}
+
+function getProvenanceKind(meta: ResponseMeta, illustrative: boolean): ProvenanceKind {
+  if (illustrative && meta.source !== 'demo') {
+    return 'fallback';
+  }
+  if (meta.source === 'demo') {
+    return 'demo';
+  }
+  if (meta.source === 'cache') {
+    return STALE_RESPONSE_STATUSES.includes(meta.status) ? 'stale' : 'cached';
+  }
+  return 'live';
+}
+
+function buildProvenance(meta: ResponseMeta | undefined, details: ResultDetails, illustrative: boolean, now: number): Provenance | null {
+  // Results from before `_meta` existed (or built in the browser) carry no provenance
+  if (!meta) {
+    return null;
+  }
+
+  return {
+    kind: getProvenanceKind(meta, illustrative),
+    source: meta.source,
+    status: meta.status,
+    ...(details.model ? { model: details.model } : {}),
+    ...(details.producedAt ? { producedAt: details.producedAt } : {}),
+    ...(meta.source === 'cache' && details.producedAt ? { cacheAge: Math.max(0, now - details.producedAt) } : {}),
+    ...(meta.match ? { match: meta.match } : {}),
+    illustrative
+  };
+}
+
+// Provenance of an analysis response
+export function getAnalysisProvenance(result: ApiResponse<AnalysisResult>, now = Date.now()): Provenance | null {
+  const details: ResultDetails = {
+    source: result.meta?.source,
+    model: result.meta?.model,
+    producedAt: result.meta?.timestamp
+  };
+  const illustrative = isIllustrativeSource(details.source) || result._meta?.source === 'fallback';
+  return buildProvenance(result._meta, details, illustrative, now);
+}
+
+// Provenance of the projected risks of a future response
+export function getFutureProvenance(result: ApiResponse<FutureResult>, now = Date.now()): Provenance | null {
+  const meta = result.analysis.meta;
+  const details: ResultDetails = {
+    source: meta?.source,
+    producedAt: meta?.timestamp
+  };
+  // Projected issues are only as real as the analysis they are computed from
+  const illustrative = details.source === 'fallback' || isIllustrativeSource(meta?.analysisSource) || result._meta?.source === 'fallback';
+  return buildProvenance(result._meta, details, illustrative, now);
+}
+
+// Provenance of the projected image of a future response; the capture returned unchanged is no projection
+export function getFutureImageProvenance(result: ApiResponse<FutureResult>, now = Date.now()): Provenance | null {
+  const imageMeta: FutureImageMeta | undefined = result.futureImageMeta;
+  const details: ResultDetails = {
+    model: imageMeta && imageMeta.model !== 'none' ? imageMeta.model : undefined,
+    producedAt: imageMeta?.generatedAt
+  };
+  const illustrative = result._meta?.source === 'fallback' || (!!imageMeta && !MODEL_IMAGE_MODES.includes(imageMeta.mode));
+  const provenance = buildProvenance(result._meta, details, illustrative, now);
+  return provenance && imageMeta ? { ...provenance, imageMode: imageMeta.mode } : provenance;
+}
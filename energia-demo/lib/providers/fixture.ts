@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { OpenAIComponent } from '../openai';
+import { validateAnalysisPayload } from '../openai/schema';
+import { getImageHash } from '../cache';
+import { decodeDataUrl, encodeDataUrl } from '../imaging';
+import { DEFAULT_HORIZON_YEARS, HorizonYears } from '../projection';
+import { DEFAULT_LOCALE, Locale } from '../i18n';
+import { AnalysisOptions, FutureImageOptions, GeneratedImage, ImageGenerationProvider, ProviderError, VisionProvider } from './types';
+
+// Fixture layout (one file per image hash):
+//   <dir>/analyze/<hash>.json            { "components": [...] } in the analysis schema (<hash>_<locale> for other locales)
+//   <dir>/futureImage/<hash>.<png|jpg>   projected image for the capture (<hash>_h<years> for other horizons)
+const FIXTURE_DIR = process.env.PROVIDER_FIXTURE_DIR || path.join(process.cwd(), 'fixtures');
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp'
+};
+
+// Fixture name of an analysis; the default locale keeps the bare hash
+function analysisFixtureName(imageData: string, locale: Locale = DEFAULT_LOCALE): string {
+  const imageHash = getImageHash(imageData);
+  return locale === DEFAULT_LOCALE ? imageHash : `${imageHash}_${locale}`;
+}
+
+// Fixture name of a future image; the default horizon keeps the bare hash
+function futureImageFixtureName(imageData: string, horizonYears: HorizonYears = DEFAULT_HORIZON_YEARS): string {
+  const imageHash = getImageHash(imageData);
+  return horizonYears === DEFAULT_HORIZON_YEARS ? imageHash : `${imageHash}_h${horizonYears}`;
+}
+
+// Find the fixture image for a hash, whatever its extension
+async function findImageFixture(imageHash: string): Promise<string | null> {
+  for (const extension of Object.keys(IMAGE_EXTENSIONS)) {
+    const filePath = path.join(FIXTURE_DIR, 'futureImage', `${imageHash}${extension}`);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch (error) {
+      // Try the next extension
+    }
+  }
+  return null;
+}
+
+// Vision provider replaying recorded analyses from disk
+export const fixtureVisionProvider: VisionProvider = {
+  id: 'fixture',
+  model: 'fixture-replay',
+  promptVersion: 'none',
+
+  async analyze(imageData: string, options: AnalysisOptions = {}): Promise<OpenAIComponent[]> {
+    const imageHash = analysisFixtureName(imageData, options.locale);
+    const filePath = path.join(FIXTURE_DIR, 'analyze', `${imageHash}.json`);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      throw new ProviderError('fixture_missing', 'fixture', `No analysis fixture for image ${imageHash} in ${FIXTURE_DIR}`);
+    }
+
+    // Fixtures go through the same validation as live model output
+    return validateAnalysisPayload(JSON.parse(content), content);
+  }
+};
+
+// Image provider replaying recorded future images from disk
+export const fixtureImageProvider: ImageGenerationProvider = {
+  id: 'fixture',
+  model: 'fixture-replay',
+  promptVersion: 'none',
+
+  async generateFutureImage(imageData: string, options: FutureImageOptions = {}): Promise<GeneratedImage> {
+    const imageHash = futureImageFixtureName(imageData, options.horizonYears);
+    const filePath = await findImageFixture(imageHash);
+
+    if (!filePath) {
+      throw new ProviderError('fixture_missing', 'fixture', `No future image fixture for image ${imageHash} in ${FIXTURE_DIR}`);
+    }
+
+    const buffer = await fs.readFile(filePath);
+    const mimeType = IMAGE_EXTENSIONS[path.extname(filePath).toLowerCase()];
+    return { image: encodeDataUrl(buffer, mimeType), mode: 'fixture_replay' };
+  }
+};
+
+// Wrap a vision provider so every successful analysis is written as a fixture
+export function recordingVisionProvider(inner: VisionProvider): VisionProvider {
+  return {
+    id: inner.id,
+    model: inner.model,
+    promptVersion: inner.promptVersion,
+
+    async analyze(imageData: string, options?: AnalysisOptions): Promise<OpenAIComponent[]> {
+      const components = await inner.analyze(imageData, options);
+      const filePath = path.join(FIXTURE_DIR, 'analyze', `${analysisFixtureName(imageData, options?.locale)}.json`);
+
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify({ components }, null, 2));
+        console.log(`Recorded analysis fixture ${filePath}`);
+      } catch (error) {
+        console.warn('Failed to record analysis fixture:', error);
+      }
+
+      return components;
+    }
+  };
+}
+
+// Wrap an image provider so every generated image is written as a fixture
+export function recordingImageProvider(inner: ImageGenerationProvider): ImageGenerationProvider {
+  return {
+    id: inner.id,
+    model: inner.model,
+    promptVersion: inner.promptVersion,
+
+    async generateFutureImage(imageData: string, options?: FutureImageOptions): Promise<GeneratedImage> {
+      const generated = await inner.generateFutureImage(imageData, options);
+      const { mimeType, buffer } = decodeDataUrl(generated.image);
+      const extension = Object.keys(IMAGE_EXTENSIONS).find(ext => IMAGE_EXTENSIONS[ext] === mimeType) || '.png';
+      const filePath = path.join(FIXTURE_DIR, 'futureImage', `${futureImageFixtureName(imageData, options?.horizonYears)}${extension}`);
+
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+        console.log(`Recorded future image fixture ${filePath}`);
+      } catch (error) {
+        console.warn('Failed to record future image fixture:', error);
+      }
+
+      return generated;
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import { ImageGenerationProvider, ProviderId, VisionProvider } from './types';
+import { openAIImageProvider, openAIVisionProvider } from './openai';
+import { fixtureImageProvider, fixtureVisionProvider, recordingImageProvider, recordingVisionProvider } from './fixture';
+import { localImageProvider, localVisionProvider } from './local';
+import { resilientImageProvider, resilientVisionProvider } from './resilience';
+
+export type { AnalysisOptions, FutureImageOptions, GeneratedImage, ImageGenerationProvider, ProviderErrorCode, ProviderId, VisionProvider } from './types';
+export { MODEL_PROVIDER_IDS, ProviderError } from './types';
+export type { CircuitKind, CircuitSnapshot, CircuitState } from './resilience';
+export { CIRCUIT_KINDS, getCircuitSnapshot, getCircuitStates } from './resilience';
+
+// Provider configuration, read from the environment:
+//   VISION_PROVIDER / IMAGE_PROVIDER   openai | fixture | local (defaults to openai, which fails with a
+//                                      not_configured error without OPENAI_API_KEY; the canned local
+//                                      results are only served when chosen on purpose)
+//   PROVIDER_RECORD_FIXTURES=true      write every OpenAI result as a fixture for later replay
+//   PROVIDER_FIXTURE_DIR               fixture directory (defaults to ./fixtures)
+// OpenAI calls also get timeouts, retries and a circuit breaker, configured in ./resilience
+const PROVIDER_CONFIG = {
+  DEFAULT: 'openai' as ProviderId,
+  VISION: process.env.VISION_PROVIDER,
+  IMAGE: process.env.IMAGE_PROVIDER,
+  RECORD_FIXTURES: process.env.PROVIDER_RECORD_FIXTURES === 'true'
+};
+
+const visionProviders: Record<ProviderId, VisionProvider> = {
+  openai: openAIVisionProvider,
+  fixture: fixtureVisionProvider,
+  local: localVisionProvider
+};
+
+const imageProviders: Record<ProviderId, ImageGenerationProvider> = {
+  openai: openAIImageProvider,
+  fixture: fixtureImageProvider,
+  local: localImageProvider
+};
+
+// Resolve a configured provider id, warning about unknown values
+function resolveProviderId(configured: string | undefined, kind: string): ProviderId {
+  if (!configured) {
+    return PROVIDER_CONFIG.DEFAULT;
+  }
+
+  if (configured === 'openai' || configured === 'fixture' || configured === 'local') {
+    return configured;
+  }
+
+  console.warn(`Unknown ${kind} provider "${configured}", using ${PROVIDER_CONFIG.DEFAULT}`);
+  return PROVIDER_CONFIG.DEFAULT;
+}
+
+// Get the vision provider selected by configuration
+export function getVisionProvider(): VisionProvider {
+  const id = resolveProviderId(PROVIDER_CONFIG.VISION, 'vision');
+  const provider = visionProviders[id];
+  if (id !== 'openai') {
+    return provider;
+  }
+  return resilientVisionProvider(PROVIDER_CONFIG.RECORD_FIXTURES ? recordingVisionProvider(provider) : provider);
+}
+
+// Get the image generation provider selected by configuration
+export function getImageGenerationProvider(): ImageGenerationProvider {
+  const id = resolveProviderId(PROVIDER_CONFIG.IMAGE, 'image');
+  const provider = imageProviders[id];
+  if (id !== 'openai') {
+    return provider;
+  }
+  return resilientImageProvider(PROVIDER_CONFIG.RECORD_FIXTURES ? recordingImageProvider(provider) : provider);
+}
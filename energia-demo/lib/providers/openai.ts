@@ -0,0 +1,246 @@
+import { OpenAI, toFile } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { OpenAIComponent } from '../openai';
+import type { AnalysisProgressEvent } from '../openai/progress';
+import { AnalysisPayloadError, ANALYSIS_RESPONSE_FORMAT, extractCompleteComponents, parseAnalysisContent, validateAnalysisPayload } from '../openai/schema';
+import { encodeDataUrl, prepareEditInputs, resizeToMatch } from '../imaging';
+import { DEFAULT_HORIZON_YEARS, getHorizonGrowth } from '../projection';
+import { DEFAULT_LOCALE, getPromptLanguage } from '../i18n';
+import { AnalysisOptions, FutureImageOptions, GeneratedImage, ImageGenerationProvider, ProviderError, VisionProvider } from './types';
+
+// Vision model used for analysis; must support structured outputs with image input
+const ANALYSIS_MODEL = 'gpt-4o';
+
+// Image model used for future projections; edits the captured photo rather than generating from text
+const IMAGE_MODEL = 'gpt-image-1';
+
+// Prompt template versions; bump them with any change to the prompts below so cached results are not reused
+const ANALYSIS_PROMPT_VERSION = '2';
+const IMAGE_PROMPT_VERSION = '1';
+
+// Lazily created client, so a missing key only fails when OpenAI is actually used
+let openaiInstance: OpenAI | null = null;
+
+function getClient(): OpenAI {
+  if (!openaiInstance) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new ProviderError('not_configured', 'openai', 'OPENAI_API_KEY is not set');
+    }
+
+    openaiInstance = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      dangerouslyAllowBrowser: true,
+      // Retries and timeouts are handled by the resilience wrapper (see ./resilience)
+      maxRetries: 0
+    });
+  }
+
+  return openaiInstance;
+}
+
+// Helper function to extract validated components from an OpenAI structured response
+export function processOpenAIResponse(response: any): OpenAIComponent[] {
+  const message = response?.choices?.[0]?.message;
+
+  // The model can decline to answer; structured outputs report it in `refusal`
+  if (message?.refusal) {
+    throw new AnalysisPayloadError('refusal', `Model refused the analysis request: ${message.refusal}`, [], message.refusal);
+  }
+
+  return parseAnalysisContent(message?.content);
+}
+
+// Ask the model to fix a malformed payload once; a second failure is surfaced to the caller
+async function repairAnalysisPayload(
+  messages: ChatCompletionMessageParam[],
+  parseError: AnalysisPayloadError,
+  signal?: AbortSignal
+): Promise<OpenAIComponent[]> {
+  const issues = parseError.issues.length > 0 ? parseError.issues.join('\n- ') : parseError.message;
+
+  const response = await getClient().chat.completions.create({
+    model: ANALYSIS_MODEL,
+    messages: [
+      ...messages,
+      { role: "assistant", content: parseError.raw || '' },
+      {
+        role: "user",
+        content: `Your previous answer was not valid for the required schema:\n- ${issues}\n\nReturn the corrected analysis as JSON matching the schema exactly.`
+      }
+    ],
+    response_format: ANALYSIS_RESPONSE_FORMAT,
+    max_tokens: 1200
+  }, { signal });
+
+  return processOpenAIResponse(response);
+}
+
+// Stream the analysis, reporting each component once its JSON object is complete. Returns the
+// accumulated message in the shape of a regular completion so it goes through the same checks.
+async function streamAnalysis(
+  messages: ChatCompletionMessageParam[],
+  onProgress: (event: AnalysisProgressEvent) => void,
+  signal?: AbortSignal
+) {
+  const stream = await getClient().chat.completions.create({
+    model: ANALYSIS_MODEL,
+    messages,
+    response_format: ANALYSIS_RESPONSE_FORMAT,
+    max_tokens: 1200,
+    stream: true
+  }, { signal });
+
+  let content = '';
+  let refusal = '';
+  let reported = 0;
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta;
+    if (delta?.refusal) {
+      refusal += delta.refusal;
+    }
+    if (!delta?.content) {
+      continue;
+    }
+
+    if (content.length === 0) {
+      onProgress({ type: 'stage', stage: 'parsing' });
+    }
+    content += delta.content;
+
+    const completed = extractCompleteComponents(content);
+    for (; reported < completed.length; reported++) {
+      try {
+        const [component] = validateAnalysisPayload({ components: [completed[reported]] });
+        onProgress({ type: 'component', index: reported, component });
+      } catch {
+        // Left to the validation of the full payload, which triggers the repair pass
+      }
+    }
+  }
+
+  return { choices: [{ message: { content, refusal: refusal || null } }] };
+}
+
+// Pick the supported output size closest to the capture's aspect ratio
+function editSizeFor(width: number, height: number): '1536x1024' | '1024x1536' | '1024x1024' {
+  const ratio = width / height;
+  if (ratio > 1.2) return '1536x1024';
+  if (ratio < 1 / 1.2) return '1024x1536';
+  return '1024x1024';
+}
+
+// Vision provider backed by the OpenAI chat completions API
+export const openAIVisionProvider: VisionProvider = {
+  id: 'openai',
+  model: ANALYSIS_MODEL,
+  promptVersion: ANALYSIS_PROMPT_VERSION,
+
+  async analyze(imageData: string, options: AnalysisOptions = {}): Promise<OpenAIComponent[]> {
+    const language = getPromptLanguage(options.locale || DEFAULT_LOCALE);
+    const messages: ChatCompletionMessageParam[] = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Analyze this image of electrical infrastructure. Identify all electrical components present such as transformers, power lines, utility poles, etc.
+
+            For each component provide:
+            - type: the type of component
+            - typeKey: the canonical type among the listed keys, "other" when none fits
+            - confidence: your confidence level as a number between 0 and 1
+            - details: details about the component (model, purpose, etc.)
+            - condition: assessment of its condition
+            - conditionKey: the canonical condition among the listed keys (good, fair for normal wear, poor when damaged or deteriorated), "unknown" when it cannot be assessed
+            - risks: potential risks related to vegetation growth
+            - boundingBox: a tight box around the component with x, y, width and height as fractions (0-1) of the image width and height, origin at the top-left corner
+            - vegetation: each tree that could reach the component as it grows, with its species (one of the listed ids, "inconnue" if unsure), estimated height in meters, estimated current distance between its crown and the component in meters, and whether it stands below the component (grows up into it) or beside it (grows sideways into it). Use an empty array when no tree is close.
+
+            Write type, details, condition and risks in ${language}.
+            Respond only with JSON matching the provided schema.
+            Only include electrical infrastructure components. Focus on identifying components that could be affected by vegetation growth.`
+          },
+          {
+            type: "image_url",
+            image_url: { url: imageData }
+          }
+        ]
+      }
+    ];
+
+    // Call OpenAI API with a strict JSON schema, streaming when the caller wants progress
+    const response = options.onProgress
+      ? await streamAnalysis(messages, options.onProgress, options.signal)
+      : await getClient().chat.completions.create({
+          model: ANALYSIS_MODEL,
+          messages,
+          response_format: ANALYSIS_RESPONSE_FORMAT,
+          max_tokens: 1200
+        }, { signal: options.signal });
+
+    // Process the response, with a single repair pass if the payload is malformed
+    try {
+      return processOpenAIResponse(response);
+    } catch (parseError) {
+      if (!(parseError instanceof AnalysisPayloadError) || parseError.code === 'refusal') {
+        throw parseError;
+      }
+
+      console.warn(`Malformed analysis payload (${parseError.code}), attempting repair:`, parseError.issues);
+      return repairAnalysisPayload(messages, parseError, options.signal);
+    }
+  }
+};
+
+// Image generation provider backed by the OpenAI Images API
+export const openAIImageProvider: ImageGenerationProvider = {
+  id: 'openai',
+  model: IMAGE_MODEL,
+  promptVersion: IMAGE_PROMPT_VERSION,
+
+  async generateFutureImage(imageData: string, options: FutureImageOptions = {}): Promise<GeneratedImage> {
+    const { horizonYears = DEFAULT_HORIZON_YEARS } = options;
+    const growth = getHorizonGrowth(horizonYears);
+    const period = horizonYears === 1 ? '1 year' : `${horizonYears} years`;
+
+    // Edit prompt: only vegetation changes, the capture itself provides the scene
+    const editPrompt = `Edit this photo of electrical infrastructure to show the same scene after ${period} of vegetation growth.
+    Keep the exact same camera position, framing, lighting and weather. Poles, lines, transformers and other equipment must stay exactly where they are and unchanged.
+    Only change the vegetation:
+
+    1. Trees that have grown ${growth.min}-${growth.max}% taller with expanded canopies
+    2. Bushes and undergrowth that have become denser and encroached closer to infrastructure
+    3. Vines or climbing plants that may have started growing on poles or structures
+    4. Some branches that now extend closer to or touch power lines
+
+    The changes should be subtle yet noticeable and scientifically plausible for ${period} of growth. Maintain photorealism and avoid artistic filters or styles.`;
+
+    // Normalize the capture (and mask) so both match in size and format
+    const { image, mask, width, height } = await prepareEditInputs(imageData, options);
+
+    const response = await getClient().images.edit({
+      model: IMAGE_MODEL,
+      image: await toFile(image, 'capture.png', { type: 'image/png' }),
+      ...(mask ? { mask: await toFile(mask, 'mask.png', { type: 'image/png' }) } : {}),
+      prompt: editPrompt,
+      n: 1,
+      size: editSizeFor(width, height),
+      quality: 'high'
+    }, { signal: options.signal });
+
+    // gpt-image-1 always returns base64 data
+    const generated = response.data?.[0]?.b64_json;
+    if (!generated) {
+      throw new ProviderError('invalid_response', 'openai', 'Invalid response from OpenAI Images API');
+    }
+
+    // Bring the result back to the capture dimensions so annotations line up in the comparison view
+    const resized = await resizeToMatch(Buffer.from(generated, 'base64'), width, height);
+
+    return {
+      image: encodeDataUrl(resized, 'image/jpeg'),
+      mode: mask ? 'image_edit_masked' : 'image_edit'
+    };
+  }
+};
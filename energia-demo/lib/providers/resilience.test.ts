@@ -0,0 +1,112 @@
+import type { GeneratedImage, ImageGenerationProvider } from './types';
+
+process.env.PROVIDER_MAX_RETRIES = '1';
+process.env.CIRCUIT_FAILURE_THRESHOLD = '2';
+process.env.CIRCUIT_RESET_MS = '1000';
+
+const GENERATED: GeneratedImage = { image: 'data:image/png;base64,AAAA', mode: 'image_edit' };
+
+// Fresh copy of the module with closed circuits; the circuits live on globalThis
+function loadResilience(): typeof import('./resilience') {
+  delete (globalThis as { __energiaProviderCircuits?: unknown }).__energiaProviderCircuits;
+  let resilience: typeof import('./resilience') | undefined;
+  jest.isolateModules(() => {
+    resilience = require('./resilience');
+  });
+  return resilience!;
+}
+
+function createProvider(generateFutureImage: jest.Mock): ImageGenerationProvider {
+  return { id: 'openai', model: 'test-model', promptVersion: 'test', generateFutureImage };
+}
+
+function httpError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+beforeEach(() => {
+  // No retry delay, and no log noise from the breaker
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('circuit breaker', () => {
+  it('opens after the failure threshold and goes half-open after the reset timeout', async () => {
+    const { resilientImageProvider, getCircuitSnapshot } = loadResilience();
+    const generate = jest.fn().mockRejectedValue(httpError(503));
+    const provider = resilientImageProvider(createProvider(generate));
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+
+    await expect(provider.generateFutureImage('image')).rejects.toThrow('HTTP 503');
+    expect(getCircuitSnapshot('image').state).toBe('closed');
+    await expect(provider.generateFutureImage('image')).rejects.toThrow('HTTP 503');
+    expect(getCircuitSnapshot('image').state).toBe('open');
+    // One retry for each of the two calls
+    expect(generate).toHaveBeenCalledTimes(4);
+
+    await expect(provider.generateFutureImage('image')).rejects.toMatchObject({ code: 'circuit_open' });
+    expect(generate).toHaveBeenCalledTimes(4);
+
+    now.mockReturnValue(11000);
+    generate.mockResolvedValueOnce(GENERATED);
+    await expect(provider.generateFutureImage('image')).resolves.toBe(GENERATED);
+    expect(generate).toHaveBeenCalledTimes(5);
+    expect(getCircuitSnapshot('image')).toEqual({ state: 'closed', failures: 0 });
+  });
+
+  it('reopens when the half-open trial fails, without retrying it', async () => {
+    const { resilientImageProvider, getCircuitSnapshot } = loadResilience();
+    const generate = jest.fn().mockRejectedValue(httpError(500));
+    const provider = resilientImageProvider(createProvider(generate));
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+
+    await expect(provider.generateFutureImage('image')).rejects.toThrow();
+    await expect(provider.generateFutureImage('image')).rejects.toThrow();
+    expect(generate).toHaveBeenCalledTimes(4);
+
+    now.mockReturnValue(11000);
+    await expect(provider.generateFutureImage('image')).rejects.toThrow('HTTP 500');
+    expect(generate).toHaveBeenCalledTimes(5);
+    expect(getCircuitSnapshot('image')).toMatchObject({ state: 'open', openedAt: 11000 });
+  });
+});
+
+describe('retries', () => {
+  it('retries a transient failure', async () => {
+    const { resilientImageProvider } = loadResilience();
+    const generate = jest.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce(GENERATED);
+    const provider = resilientImageProvider(createProvider(generate));
+
+    await expect(provider.generateFutureImage('image')).resolves.toBe(GENERATED);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry an error that cannot be retried, nor count it against the circuit', async () => {
+    const { resilientImageProvider, getCircuitSnapshot } = loadResilience();
+    const generate = jest.fn().mockRejectedValue(httpError(400));
+    const provider = resilientImageProvider(createProvider(generate));
+
+    await expect(provider.generateFutureImage('image')).rejects.toThrow('HTTP 400');
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(getCircuitSnapshot('image')).toEqual({ state: 'closed', failures: 0 });
+  });
+});
+
+describe('caller signal', () => {
+  it('stops a call whose signal is already aborted before any provider request', async () => {
+    const { resilientImageProvider, getCircuitSnapshot } = loadResilience();
+    const generate = jest.fn().mockResolvedValue(GENERATED);
+    const provider = resilientImageProvider(createProvider(generate));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(provider.generateFutureImage('image', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(generate).not.toHaveBeenCalled();
+    expect(getCircuitSnapshot('image')).toEqual({ state: 'closed', failures: 0 });
+  });
+});
@@ -0,0 +1,259 @@
+import { APIConnectionError } from 'openai';
+import type { OpenAIComponent } from '../openai';
+import type { AnalysisProgressEvent } from '../openai/progress';
+import { AnalysisOptions, FutureImageOptions, GeneratedImage, ImageGenerationProvider, ProviderError, ProviderId, VisionProvider } from './types';
+
+// Resilience for remote providers: every attempt gets a timeout, transient failures (429, 5xx,
+// timeouts, dropped connections) are retried with exponential backoff and jitter, and a circuit
+// breaker per provider kind stops calling a failing API so callers fall back to cached or demo data
+// at once instead of waiting out every timeout.
+
+// Resilience configuration, read from the environment:
+//   VISION_TIMEOUT_MS / IMAGE_TIMEOUT_MS   timeout of each attempt (defaults to 60s / 120s)
+//   PROVIDER_MAX_RETRIES                   retries after a transient failure (defaults to 2)
+//   CIRCUIT_FAILURE_THRESHOLD              consecutive failed calls that open the circuit (defaults to 5)
+//   CIRCUIT_RESET_MS                       time an open circuit waits before a trial call (defaults to 30s)
+const RESILIENCE_CONFIG = {
+  VISION_TIMEOUT: readNumber(process.env.VISION_TIMEOUT_MS, 60 * 1000),
+  IMAGE_TIMEOUT: readNumber(process.env.IMAGE_TIMEOUT_MS, 120 * 1000),
+  MAX_RETRIES: readNumber(process.env.PROVIDER_MAX_RETRIES, 2),
+  RETRY_BASE_DELAY: 500,
+  FAILURE_THRESHOLD: readNumber(process.env.CIRCUIT_FAILURE_THRESHOLD, 5),
+  RESET_TIMEOUT: readNumber(process.env.CIRCUIT_RESET_MS, 30 * 1000)
+};
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Provider kinds, each with its own circuit
+export const CIRCUIT_KINDS = ['vision', 'image'] as const;
+
+export type CircuitKind = typeof CIRCUIT_KINDS[number];
+
+// closed: calls go through; open: calls fail at once; half_open: one trial call decides
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitSnapshot = {
+  state: CircuitState;
+  // Consecutive failed calls
+  failures: number;
+  // When the circuit last opened, and when it lets a trial call through
+  openedAt?: number;
+  retryAt?: number;
+  lastError?: string;
+};
+
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  lastError?: string;
+  // A half-open circuit lets a single trial call through
+  trialRunning: boolean;
+};
+
+// Kept on globalThis since Next.js bundles each API route with its own copy of this module, and
+// the routes must share the breakers
+const circuitHolder = globalThis as typeof globalThis & { __energiaProviderCircuits?: Record<CircuitKind, Circuit> }
+
+const circuits: Record<CircuitKind, Circuit> = circuitHolder.__energiaProviderCircuits ||= {
+  vision: { state: 'closed', failures: 0, openedAt: 0, trialRunning: false },
+  image: { state: 'closed', failures: 0, openedAt: 0, trialRunning: false }
+};
+
+export function getCircuitSnapshot(kind: CircuitKind): CircuitSnapshot {
+  const circuit = circuits[kind];
+  return {
+    state: circuit.state,
+    failures: circuit.failures,
+    ...(circuit.state !== 'closed' ? {
+      openedAt: circuit.openedAt,
+      retryAt: circuit.openedAt + RESILIENCE_CONFIG.RESET_TIMEOUT
+    } : {}),
+    ...(circuit.lastError ? { lastError: circuit.lastError } : {})
+  };
+}
+
+// State of every circuit, as reported in response metadata
+export function getCircuitStates(): Record<CircuitKind, CircuitState> {
+  return { vision: circuits.vision.state, image: circuits.image.state };
+}
+
+// Let a call through, or throw when the circuit is open; an open circuit past its reset timeout
+// becomes half-open and lets this call through as the trial
+function enterCircuit(kind: CircuitKind, provider: ProviderId) {
+  const circuit = circuits[kind];
+
+  if (circuit.state === 'open' && Date.now() - circuit.openedAt >= RESILIENCE_CONFIG.RESET_TIMEOUT) {
+    console.log(`Circuit for ${kind} provider half-open, trying a call`);
+    circuit.state = 'half_open';
+    circuit.trialRunning = false;
+  }
+
+  if (circuit.state === 'open' || (circuit.state === 'half_open' && circuit.trialRunning)) {
+    throw new ProviderError('circuit_open', provider, `Circuit for ${kind} provider is open after ${circuit.failures} failures`);
+  }
+
+  if (circuit.state === 'half_open') {
+    circuit.trialRunning = true;
+  }
+}
+
+function recordSuccess(kind: CircuitKind) {
+  const circuit = circuits[kind];
+  if (circuit.state !== 'closed') {
+    console.log(`Circuit for ${kind} provider closed`);
+  }
+  circuit.state = 'closed';
+  circuit.failures = 0;
+  circuit.trialRunning = false;
+  circuit.lastError = undefined;
+}
+
+// Count a failed call; a failed trial reopens the circuit at once
+function recordFailure(kind: CircuitKind, error: unknown) {
+  const circuit = circuits[kind];
+  circuit.failures++;
+  circuit.trialRunning = false;
+  circuit.lastError = error instanceof Error ? error.message : String(error);
+
+  if (circuit.state === 'half_open' || circuit.failures >= RESILIENCE_CONFIG.FAILURE_THRESHOLD) {
+    if (circuit.state !== 'open') {
+      console.warn(`Circuit for ${kind} provider opened after ${circuit.failures} failures`);
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+// Rate limits, server errors, timeouts and dropped connections are worth another attempt; bad
+// requests, authentication errors and invalid responses are not
+function isTransient(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.code === 'timeout';
+  }
+  if (error instanceof APIConnectionError) {
+    return true;
+  }
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+// Full jitter: a random delay up to the exponential backoff of the attempt
+function getRetryDelay(attempt: number): number {
+  return Math.random() * RESILIENCE_CONFIG.RETRY_BASE_DELAY * 2 ** attempt;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run a provider call with a timeout per attempt and retries on transient failures, through the
+// circuit of its kind. canRetry tells whether a failed attempt may be repeated (not once partial
+// results reached the caller).
+async function callResilient<T>(
+  kind: CircuitKind,
+  provider: ProviderId,
+  timeout: number,
+  callerSignal: AbortSignal | undefined,
+  call: (signal: AbortSignal) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  enterCircuit(kind, provider);
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const abortFromCaller = () => controller.abort();
+    callerSignal?.addEventListener('abort', abortFromCaller);
+
+    try {
+      // A signal aborted before this attempt never fires its listener, so stop here instead
+      callerSignal?.throwIfAborted();
+      const result = await call(controller.signal);
+      recordSuccess(kind);
+      return result;
+    } catch (callError) {
+      const error = timedOut
+        ? new ProviderError('timeout', provider, `${kind} provider call timed out after ${timeout}ms`)
+        : callError;
+
+      // A call cancelled by its caller says nothing about the provider's health
+      if (callerSignal?.aborted) {
+        circuits[kind].trialRunning = false;
+        throw error;
+      }
+
+      if (!isTransient(error)) {
+        circuits[kind].trialRunning = false;
+        throw error;
+      }
+
+      if (attempt >= RESILIENCE_CONFIG.MAX_RETRIES || circuits[kind].state === 'half_open' || !canRetry()) {
+        recordFailure(kind, error);
+        throw error;
+      }
+
+      const retryDelay = getRetryDelay(attempt);
+      console.warn(`${kind} provider call failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(retryDelay)}ms`);
+      await delay(retryDelay);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+}
+
+// Wrap a vision provider with timeouts, retries and the vision circuit
+export function resilientVisionProvider(inner: VisionProvider): VisionProvider {
+  return {
+    id: inner.id,
+    model: inner.model,
+    promptVersion: inner.promptVersion,
+
+    analyze(imageData: string, options: AnalysisOptions = {}): Promise<OpenAIComponent[]> {
+      // A streamed analysis that already reported components cannot start over
+      let componentsReported = false;
+      const onProgress = options.onProgress && ((event: AnalysisProgressEvent) => {
+        if (event.type === 'component') {
+          componentsReported = true;
+        }
+        options.onProgress!(event);
+      });
+
+      return callResilient(
+        'vision',
+        inner.id,
+        RESILIENCE_CONFIG.VISION_TIMEOUT,
+        options.signal,
+        signal => inner.analyze(imageData, { ...options, onProgress, signal }),
+        () => !componentsReported
+      );
+    }
+  };
+}
+
+// Wrap an image provider with timeouts, retries and the image circuit
+export function resilientImageProvider(inner: ImageGenerationProvider): ImageGenerationProvider {
+  return {
+    id: inner.id,
+    model: inner.model,
+    promptVersion: inner.promptVersion,
+
+    generateFutureImage(imageData: string, options: FutureImageOptions = {}): Promise<GeneratedImage> {
+      return callResilient(
+        'image',
+        inner.id,
+        RESILIENCE_CONFIG.IMAGE_TIMEOUT,
+        options.signal,
+        signal => inner.generateFutureImage(imageData, { ...options, signal })
+      );
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { GenerationMode, OpenAIComponent } from '../openai';
+import type { RegionGeometry } from '../imaging';
+import type { HorizonYears } from '../projection';
+import type { Locale } from '../i18n';
+import type { AnalysisProgressEvent } from '../openai/progress';
+
+// Identifiers of the available provider implementations
+export type ProviderId = 'openai' | 'fixture' | 'local';
+
+// Providers whose results are a model's reading of the submitted image; fixture replays a recording
+// and local makes its results up, so their output is illustrative
+export const MODEL_PROVIDER_IDS: readonly ProviderId[] = ['openai'];
+
+// Options for an analysis request
+export type AnalysisOptions = {
+  // Language of the free-text fields (type, details, condition, risks); defaults to DEFAULT_LOCALE
+  locale?: Locale;
+  // Called with stage and component events as the analysis runs; providers that can stream report
+  // components as soon as each one is parsed
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  // Aborts the provider call: the caller cancelling it, or the resilience wrapper enforcing its timeout
+  signal?: AbortSignal;
+};
+
+// Analyzes a captured image and returns the detected components
+export interface VisionProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  // Version of the prompt template; part of the cache key, so bump it whenever the prompt changes
+  readonly promptVersion: string;
+  analyze(imageData: string, options?: AnalysisOptions): Promise<OpenAIComponent[]>;
+}
+
+// Options for conditioning the future image on the capture
+export type FutureImageOptions = {
+  // Edit mask as a PNG data URL: transparent where vegetation may change, opaque where the scene must be kept
+  mask?: string;
+  // Infrastructure regions to keep in place, used to build a mask when none is given
+  protectedRegions?: RegionGeometry[];
+  // Years of vegetation growth to project (defaults to DEFAULT_HORIZON_YEARS)
+  horizonYears?: HorizonYears;
+  // Aborts the provider call: the caller cancelling it, or the resilience wrapper enforcing its timeout
+  signal?: AbortSignal;
+};
+
+// Projected image as a data URL, with the mode that produced it
+export type GeneratedImage = {
+  image: string;
+  mode: GenerationMode;
+};
+
+// Produces the projected "future" version of a captured image
+export interface ImageGenerationProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  // Version of the prompt template; part of the cache key, so bump it whenever the prompt changes
+  readonly promptVersion: string;
+  generateFutureImage(imageData: string, options?: FutureImageOptions): Promise<GeneratedImage>;
+}
+
+// Error codes shared by every provider
+export type ProviderErrorCode = 'not_configured' | 'fixture_missing' | 'invalid_response' | 'timeout' | 'circuit_open';
+
+// Typed error raised by providers, so callers can tell configuration problems from API failures
+export class ProviderError extends Error {
+  readonly code: ProviderErrorCode;
+  readonly provider: ProviderId;
+
+  constructor(code: ProviderErrorCode, provider: ProviderId, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = code;
+    this.provider = provider;
+  }
+}
@@ -0,0 +1,45 @@
+import type { OpenAIComponent } from '../openai';
+import { assessComponentRisk } from './index';
+
+// The same pole, as analyzed in each locale: only the free text differs
+const POLE: Omit<OpenAIComponent, 'type' | 'details' | 'condition' | 'risks'> = {
+  typeKey: 'pole',
+  confidence: 0.9,
+  vegetation: []
+};
+
+const POLE_BY_LOCALE = {
+  'fr-CA': { type: 'Poteau', details: 'Poteau en bois, 25kV', condition: 'Usure normale', risks: 'Aucun risque immédiat' },
+  'en-CA': { type: 'Utility pole', details: 'Wooden pole, 25kV', condition: 'Normal wear', risks: 'No immediate risk' }
+} as const;
+
+function conditionPoints(component: OpenAIComponent) {
+  return assessComponentRisk(component).factors.find(factor => factor.id === 'condition')!.points;
+}
+
+describe('assessComponentRisk', () => {
+  describe.each(Object.keys(POLE_BY_LOCALE) as Array<keyof typeof POLE_BY_LOCALE>)('in %s', locale => {
+    it('scores the condition from its canonical key', () => {
+      const component = { ...POLE, ...POLE_BY_LOCALE[locale], conditionKey: 'fair' as const };
+      const assessment = assessComponentRisk(component, { captureYear: 2025, locale });
+
+      expect(conditionPoints(component)).toBe(10);
+      expect(assessment.score).toBe(30);
+      expect(assessment.level).toBe('medium');
+    });
+
+    it('infers the same key from the free text of analyses without one', () => {
+      const component = { ...POLE, ...POLE_BY_LOCALE[locale] };
+
+      expect(conditionPoints(component)).toBe(10);
+    });
+  });
+
+  it('gives the same score in every locale', () => {
+    const scores = (Object.keys(POLE_BY_LOCALE) as Array<keyof typeof POLE_BY_LOCALE>).map(locale =>
+      assessComponentRisk({ ...POLE, ...POLE_BY_LOCALE[locale] }, { captureYear: 2025, locale }).score
+    );
+
+    expect(new Set(scores).size).toBe(1);
+  });
+});
@@ -0,0 +1,199 @@
+import type { OpenAIComponent } from '../openai';
+import { ComponentTypeKey, inferComponentTypeKey } from '../openai/componentTypes';
+import { ConditionKey, inferConditionKey } from '../openai/conditions';
+import { formatYears, GrowthProjection, projectFirstContact } from '../growth';
+import { allTranslations, DEFAULT_LOCALE, Locale, translate } from '../i18n';
+
+// Risk scoring: a 0-100 score per component, built from four factors and mapped to a canonical level.
+
+// Canonical risk levels, lowest first. Use these codes in data; show getRiskLevelLabel() to people.
+export const RISK_LEVELS = ['very_low', 'low', 'medium', 'high', 'very_high', 'critical'] as const;
+
+export type RiskLevel = typeof RISK_LEVELS[number];
+
+export function getRiskLevelLabel(level: RiskLevel, locale: Locale = DEFAULT_LOCALE): string {
+  return translate(locale, `risk.level.${level}`);
+}
+
+// Lowest score for each level, highest level first
+const LEVEL_THRESHOLDS: Array<[RiskLevel, number]> = [
+  ['critical', 80],
+  ['very_high', 65],
+  ['high', 50],
+  ['medium', 30],
+  ['low', 15],
+  ['very_low', 0]
+];
+
+export type RiskFactorId = 'component_type' | 'condition' | 'vegetation_proximity' | 'voltage_class';
+
+// One contribution to the score, with the reason it was given
+export type RiskFactor = {
+  id: RiskFactorId;
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+};
+
+export type RiskAssessment = {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+};
+
+export function isRiskLevel(value: unknown): value is RiskLevel {
+  return typeof value === 'string' && (RISK_LEVELS as readonly string[]).includes(value);
+}
+
+// Read a level from a code or from a label in any locale (data saved before levels were canonical)
+export function parseRiskLevel(value: string): RiskLevel | null {
+  if (isRiskLevel(value)) {
+    return value;
+  }
+  const normalized = value.trim().toLowerCase();
+  const match = RISK_LEVELS.find(level =>
+    allTranslations(`risk.level.${level}`).some(label => label.toLowerCase() === normalized)
+  );
+  return match || null;
+}
+
+export function scoreToRiskLevel(score: number): RiskLevel {
+  const match = LEVEL_THRESHOLDS.find(([, minimum]) => score >= minimum);
+  return match ? match[0] : 'very_low';
+}
+
+// Equipment more exposed to vegetation contact weighs more; unclassified equipment sits in between
+const COMPONENT_TYPE_POINTS: Record<ComponentTypeKey, number> = {
+  transformer: 25,
+  power_line: 25,
+  insulator: 15,
+  fuse: 15,
+  switch: 15,
+  pole: 10,
+  transmission_tower: 10,
+  other: 12
+};
+const COMPONENT_TYPE_MAX = 25;
+
+// Scored from the canonical condition, never from the free text, which is written in the analysis locale
+const CONDITION_POINTS: Record<ConditionKey, number> = {
+  poor: 20,
+  fair: 10,
+  good: 0,
+  unknown: 8
+};
+const CONDITION_MAX = 20;
+
+// Years before the clearance is lost, at the assessed date, and the points they give
+const PROXIMITY_POINTS: Array<{ maxYears: number, points: number }> = [
+  { maxYears: 0, points: 40 },
+  { maxYears: 1, points: 35 },
+  { maxYears: 3, points: 25 },
+  { maxYears: 5, points: 15 },
+  { maxYears: 10, points: 8 }
+];
+const PROXIMITY_MAX = 40;
+const PROXIMITY_DISTANT = 2;
+const PROXIMITY_UNKNOWN = 10;
+
+const VOLTAGE_MAX = 15;
+const VOLTAGE_DEFAULT = 7;
+
+function scoreComponentType(component: OpenAIComponent, locale: Locale): RiskFactor {
+  const typeKey = component.typeKey || inferComponentTypeKey(component.type);
+  return {
+    id: 'component_type',
+    label: translate(locale, 'risk.factor.component_type'),
+    points: COMPONENT_TYPE_POINTS[typeKey],
+    maxPoints: COMPONENT_TYPE_MAX,
+    detail: typeKey === 'other' ? translate(locale, 'risk.detail.unclassified') : translate(locale, `component.${typeKey}`)
+  };
+}
+
+function scoreCondition(component: OpenAIComponent, locale: Locale): RiskFactor {
+  const conditionKey = component.conditionKey || inferConditionKey(component.condition);
+  return {
+    id: 'condition',
+    label: translate(locale, 'risk.factor.condition'),
+    points: CONDITION_POINTS[conditionKey],
+    maxPoints: CONDITION_MAX,
+    detail: component.condition
+  };
+}
+
+function scoreProximity(
+  component: OpenAIComponent,
+  projection: GrowthProjection | null,
+  yearsAhead: number,
+  locale: Locale
+): RiskFactor {
+  const base = {
+    id: 'vegetation_proximity' as const,
+    label: translate(locale, 'risk.factor.vegetation_proximity'),
+    maxPoints: PROXIMITY_MAX
+  };
+
+  if (!component.vegetation) {
+    return { ...base, points: PROXIMITY_UNKNOWN, detail: translate(locale, 'risk.detail.vegetationUnknown') };
+  }
+  if (!projection) {
+    return { ...base, points: 0, detail: translate(locale, 'risk.detail.noTree') };
+  }
+  const species = projection.assumptions.speciesName;
+  if (projection.yearsToClearanceLoss === null) {
+    return { ...base, points: PROXIMITY_DISTANT, detail: translate(locale, 'risk.detail.clearanceKept', { species }) };
+  }
+
+  // Years left before the clearance is lost, counted from the assessed date
+  const remaining = Math.max(0, projection.yearsToClearanceLoss - yearsAhead);
+  const band = PROXIMITY_POINTS.find(entry => remaining <= entry.maxYears);
+  return {
+    ...base,
+    points: band ? band.points : PROXIMITY_DISTANT,
+    detail: remaining === 0
+      ? translate(locale, 'risk.detail.clearanceLost', { species })
+      : translate(locale, 'risk.detail.clearanceLostIn', { species, years: formatYears(remaining, locale) })
+  };
+}
+
+// Voltage class from the highest kV value mentioned, or from the usual French and English terms
+function scoreVoltage(component: OpenAIComponent, locale: Locale): RiskFactor {
+  const text = `${component.type} ${component.details}`;
+  const base = { id: 'voltage_class' as const, label: translate(locale, 'risk.factor.voltage_class'), maxPoints: VOLTAGE_MAX };
+
+  const kilovolts = Array.from(text.matchAll(/(\d+(?:[.,]\d+)?)\s*kV/gi))
+    .map(match => parseFloat(match[1].replace(',', '.')));
+  const maxKilovolts = kilovolts.length > 0 ? Math.max(...kilovolts) : null;
+
+  if ((maxKilovolts !== null && maxKilovolts >= 69) || /haute tension|transport|high[- ]voltage|transmission/i.test(text)) {
+    return { ...base, points: 15, detail: translate(locale, 'risk.detail.voltage.transmission') };
+  }
+  if ((maxKilovolts !== null && maxKilovolts >= 1) || /moyenne tension|medium[- ]voltage/i.test(text)) {
+    return { ...base, points: 10, detail: translate(locale, 'risk.detail.voltage.distribution') };
+  }
+  if (/basse tension|low[- ]voltage|\b(120|240|347|600)\s*V\b/i.test(text)) {
+    return { ...base, points: 5, detail: translate(locale, 'risk.detail.voltage.low') };
+  }
+  return { ...base, points: VOLTAGE_DEFAULT, detail: translate(locale, 'risk.detail.voltage.unknown') };
+}
+
+// Score a component at the capture date, or `yearsAhead` years later for projections.
+// Factor labels and details are written in `locale`; the score does not depend on it.
+export function assessComponentRisk(
+  component: OpenAIComponent,
+  options: { captureYear?: number, yearsAhead?: number, locale?: Locale } = {}
+): RiskAssessment {
+  const { captureYear = new Date().getFullYear(), yearsAhead = 0, locale = DEFAULT_LOCALE } = options;
+  const projection = projectFirstContact(component.vegetation || [], captureYear, undefined, locale);
+
+  const factors = [
+    scoreComponentType(component, locale),
+    scoreCondition(component, locale),
+    scoreProximity(component, projection, yearsAhead, locale),
+    scoreVoltage(component, locale)
+  ];
+  const score = Math.min(100, factors.reduce((total, factor) => total + factor.points, 0));
+
+  return { score, level: scoreToRiskLevel(score), factors };
+}
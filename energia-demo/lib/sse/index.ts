@@ -0,0 +1,70 @@
+import type { ServerResponse } from 'http';
+
+// Minimal Server-Sent Events helpers. Streams are read with fetch rather than EventSource,
+// since EventSource cannot send the POST body that carries the image.
+
+export type ServerSentEvent = {
+  event: string;
+  data: string;
+};
+
+// Start an event stream; `no-transform` keeps the compression middleware from buffering it
+export function openEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+}
+
+// Write one event with a JSON payload
+export function sendEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Parse one event block; comment-only blocks (keep-alives) yield null
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+// Read an event stream from a fetch response, calling onEvent for each event in order
+export async function readEventStream(response: Response, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no readable body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) {
+        onEvent(parsed);
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
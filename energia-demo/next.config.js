@@ -4,6 +4,15 @@ const nextConfig = {
   images: {
     domains: ['localhost'],
   },
+  webpack: (config, { isServer }) => {
+    // Server-only modules (fixture provider, image processing, image store) are reachable from shared
+    // lib code; keep the Node filesystem, stream promises and sharp out of the browser bundle
+    if (!isServer) {
+      config.resolve.fallback = { ...config.resolve.fallback, fs: false, 'stream/promises': false }
+      config.resolve.alias = { ...config.resolve.alias, sharp: false }
+    }
+    return config
+  },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
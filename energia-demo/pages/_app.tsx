@@ -4,6 +4,7 @@ import type { AppProps } from 'next/app'
 import { useEffect, useState } from 'react'
 import Head from 'next/head'
 import dynamic from 'next/dynamic'
+import { I18nProvider } from '../lib/i18n/react'
 
 // Loading component to avoid hydration mismatch
 const LoadingScreen = dynamic(
@@ -17,7 +18,10 @@ const initializeFunctions = async () => {
   
   try {
     // Dynamically import initialization functions to avoid SSR issues
+    const { initializeCache } = await import('../lib/cache');
     const { initializeDemoMode } = await import('../lib/demoMode');
+    // Cache maintenance, and the refresh of stale results when the network comes back
+    await initializeCache();
     await initializeDemoMode();
     console.log('App initialized with demo mode and caching');
   } catch (error) {
@@ -50,16 +54,20 @@ function MyApp({ Component, pageProps }: AppProps) {
   
   // Handle loading state
   if (isLoading && isClient) {
-    return <LoadingScreen />;
+    return (
+      <I18nProvider>
+        <LoadingScreen />
+      </I18nProvider>
+    );
   }
   
   return (
-    <>
+    <I18nProvider>
       <Head>
         <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
       </Head>
       {isClient ? <Component {...pageProps} /> : <div />}
-    </>
+    </I18nProvider>
   );
 }
 
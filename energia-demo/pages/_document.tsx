@@ -1,8 +1,9 @@
 import { Html, Head, Main, NextScript } from 'next/document'
+import { DEFAULT_LOCALE } from '../lib/i18n'
 
 export default function Document() {
   return (
-    <Html>
+    <Html lang={DEFAULT_LOCALE}>
       <Head>
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
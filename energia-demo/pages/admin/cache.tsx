@@ -0,0 +1,335 @@
+import { useState, useEffect, useCallback } from 'react'
+import Layout from '../../components/Layout'
+import { Alert, Button } from '../../components/ui'
+import { CACHE_SOURCES, CACHE_TYPES } from '../../lib/cache'
+import type { CacheEntryInfo, CacheSource, CacheStats, CacheType } from '../../lib/cache'
+import type { DemoCacheState, DemoImageCacheStatus } from '../../lib/demoMode'
+import { DemoPackError, importDemoPack, parseDemoPack, withoutDemoImages } from '../../lib/demoPack'
+import type { DemoPackImportResult } from '../../lib/demoPack'
+import {
+  ApiError,
+  fetchCacheEntries,
+  fetchCacheEntry,
+  fetchCacheStats,
+  fetchDemoCacheStatus,
+  getAdminToken,
+  invalidateCacheEntries,
+  purgeSupersededEntries,
+  setAdminToken,
+  uploadDemoPack
+} from '../../lib/api'
+import type { CacheEntryResponse } from '../../lib/api'
+import type { Locale, MessageKey, Translator } from '../../lib/i18n'
+import { useI18n } from '../../lib/i18n/react'
+
+// Long strings (base64 images) are cut so the data stays readable
+const MAX_PREVIEW_STRING = 160
+
+const STATE_CLASSES: Record<DemoCacheState, string> = {
+  warm: 'bg-green-100 text-green-800',
+  stale: 'bg-yellow-100 text-yellow-800',
+  missing: 'bg-red-100 text-red-800'
+}
+
+function formatBytes(bytes: number, locale: Locale): string {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toLocaleString(locale, { maximumFractionDigits: 1 })} ${units[unit]}`
+}
+
+function formatRatio(ratio: number | null, locale: Locale): string {
+  return ratio === null ? '–' : ratio.toLocaleString(locale, { style: 'percent', maximumFractionDigits: 0 })
+}
+
+function formatAge(milliseconds: number, t: Translator): string {
+  const minutes = Math.floor(milliseconds / 60000)
+  if (minutes < 60) return t('cacheAdmin.age.minutes', { count: minutes })
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return t('cacheAdmin.age.hours', { count: hours })
+  return t('cacheAdmin.age.days', { count: Math.floor(hours / 24) })
+}
+
+function previewData(data: any): string {
+  return JSON.stringify(data, (key, value) =>
+    typeof value === 'string' && value.length > MAX_PREVIEW_STRING
+      ? `${value.slice(0, MAX_PREVIEW_STRING)}… (${value.length})`
+      : value,
+    2)
+}
+
+// Message of a failed request; a refused admin token gets its own
+function getErrorMessage(err: unknown, fallback: MessageKey): MessageKey {
+  return err instanceof ApiError && (err.code === 'unauthorized' || err.code === 'forbidden')
+    ? 'cacheAdmin.error.unauthorized'
+    : fallback
+}
+
+// Server cache inspector: statistics, demo image warmth and the entries of each type
+export default function CacheAdmin() {
+  const { locale, t } = useI18n()
+  const [stats, setStats] = useState<CacheStats | null>(null)
+  const [demoImages, setDemoImages] = useState<DemoImageCacheStatus[]>([])
+  const [type, setType] = useState<CacheType>('analyze')
+  const [source, setSource] = useState<CacheSource | ''>('')
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([])
+  const [selected, setSelected] = useState<CacheEntryResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<MessageKey | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [imported, setImported] = useState<DemoPackImportResult | null>(null)
+  // ADMIN_TOKEN of the server, saved in this browser for the administration routes
+  const [adminToken, setAdminTokenState] = useState('')
+
+  useEffect(() => {
+    setAdminTokenState(getAdminToken() || '')
+  }, [])
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [statsResponse, demoResponse, entriesResponse] = await Promise.all([
+        fetchCacheStats(),
+        fetchDemoCacheStatus(),
+        fetchCacheEntries(type, source ? { source } : {})
+      ])
+      setStats(statsResponse)
+      setDemoImages(demoResponse.images)
+      setEntries(entriesResponse.entries)
+    } catch (err) {
+      console.error('Error loading cache state:', err)
+      setError('cacheAdmin.error.load')
+    } finally {
+      setLoading(false)
+    }
+  }, [type, source])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Run an invalidation, then reload everything it may have changed
+  const invalidate = async (run: () => Promise<unknown>) => {
+    try {
+      await run()
+      setSelected(null)
+      await refresh()
+    } catch (err) {
+      console.error('Error invalidating cache entries:', err)
+      setError(getErrorMessage(err, 'cacheAdmin.error.invalidate'))
+    }
+  }
+
+  const showEntry = async (key: string) => {
+    try {
+      setSelected(await fetchCacheEntry(type, key))
+    } catch (err) {
+      console.error('Error loading cache entry:', err)
+      setError(getErrorMessage(err, 'cacheAdmin.error.load'))
+    }
+  }
+
+  // Verify a demo pack file, then prewarm the server cache and this browser's caches with it
+  const importPack = async (file: File) => {
+    setImporting(true)
+    setImported(null)
+    setError(null)
+    try {
+      const pack = parseDemoPack(JSON.parse(await file.text()))
+      await uploadDemoPack(withoutDemoImages(pack))
+      setImported(await importDemoPack(pack))
+      await refresh()
+    } catch (err) {
+      console.error('Error importing demo pack:', err)
+      setError(err instanceof DemoPackError || err instanceof SyntaxError ? 'cacheAdmin.error.packInvalid'
+        : getErrorMessage(err, 'cacheAdmin.error.packImport'))
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const demoChecks = demoImages.flatMap(image => image.checks)
+  const warmCount = demoChecks.filter(check => check.state === 'warm').length
+
+  return (
+    <Layout title={t('cacheAdmin.title')}>
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold text-secondary-800 font-display">{t('cacheAdmin.heading')}</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => invalidate(() => purgeSupersededEntries())}>
+              {t('cacheAdmin.purgeSuperseded')}
+            </Button>
+            <Button size="sm" isLoading={loading} onClick={refresh}>
+              {t('cacheAdmin.refresh')}
+            </Button>
+          </div>
+        </div>
+
+        {imported && (
+          <Alert type="success" onDismiss={() => setImported(null)}>
+            {t('cacheAdmin.pack.imported', { entries: imported.entries, images: imported.images })}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert type="error" onDismiss={() => setError(null)}>
+            {t(error)}
+          </Alert>
+        )}
+
+        {stats && (
+          <section className="bg-white p-4 rounded-lg shadow-sm">
+            <h2 className="text-lg font-bold text-secondary-800 mb-3">
+              {t('cacheAdmin.stats', { backend: stats.backend })}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+              {[...CACHE_TYPES.map(cacheType => ({ label: t(`cacheAdmin.type.${cacheType}` as MessageKey), values: stats.types[cacheType] })),
+                { label: t('cacheAdmin.total'), values: stats.total }].map(({ label, values }) => (
+                <div key={label} className="border border-secondary-200 rounded-md p-3">
+                  <div className="font-semibold text-secondary-800 mb-1">{label}</div>
+                  <div>{t('cacheAdmin.entries', { count: values.entries })}</div>
+                  <div>{formatBytes(values.bytes, locale)}</div>
+                  <div>{t('cacheAdmin.hitRatio', { ratio: formatRatio(values.hitRatio, locale), hits: values.hits, misses: values.misses })}</div>
+                  <div>{t('cacheAdmin.perceptualHits', { count: values.perceptualHits })}</div>
+                  <div>{t('cacheAdmin.coalesced', { count: values.coalesced })}</div>
+                </div>
+              ))}
+            </div>
+            {stats.usage && (
+              <p className="text-xs text-secondary-500 mt-2">
+                {t('cacheAdmin.usage', { usage: formatBytes(stats.usage.usage, locale), quota: formatBytes(stats.usage.quota, locale) })}
+              </p>
+            )}
+          </section>
+        )}
+
+        <section className="bg-white p-4 rounded-lg shadow-sm">
+          <h2 className="text-lg font-bold text-secondary-800 mb-1">{t('cacheAdmin.demo.heading')}</h2>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <p className="text-sm text-secondary-600 mr-auto">
+              {t('cacheAdmin.demo.summary', { warm: warmCount, total: demoChecks.length })}
+            </p>
+            <a href="/api/cache/demo-pack" download
+              className="inline-flex items-center px-3 py-2 text-sm leading-4 rounded-md font-medium border border-secondary-300 bg-white hover:bg-secondary-50 text-secondary-700">
+              {t('cacheAdmin.pack.export')}
+            </a>
+            <input type="password" value={adminToken}
+              onChange={event => {
+                setAdminTokenState(event.target.value)
+                setAdminToken(event.target.value)
+              }}
+              placeholder={t('cacheAdmin.pack.token')} aria-label={t('cacheAdmin.pack.token')} autoComplete="off"
+              className="px-3 py-2 text-sm leading-4 rounded-md border border-secondary-300" />
+            <label className={`inline-flex items-center px-3 py-2 text-sm leading-4 rounded-md font-medium bg-primary-600 hover:bg-primary-700 text-white cursor-pointer ${importing ? 'opacity-60 pointer-events-none' : ''}`}>
+              {importing ? t('cacheAdmin.pack.importing') : t('cacheAdmin.pack.import')}
+              <input type="file" accept="application/json,.json" className="hidden" disabled={importing}
+                onChange={event => {
+                  const file = event.target.files?.[0]
+                  event.target.value = ''
+                  if (file) importPack(file)
+                }} />
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <tbody>
+                {demoImages.map(image => (
+                  <tr key={image.image} className="border-t border-secondary-100">
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <div className="font-medium">{image.scenario || image.image}</div>
+                      <div className="text-xs text-secondary-500">{image.image}</div>
+                    </td>
+                    <td className="py-2 flex flex-wrap gap-1">
+                      {image.checks.map(check => (
+                        <span key={check.key} className={`px-2 py-0.5 rounded text-xs ${STATE_CLASSES[check.state]}`}>
+                          {t(`cacheAdmin.type.${check.type}` as MessageKey)}{check.locale ? ` (${check.locale})` : ''}: {t(`cacheAdmin.state.${check.state}` as MessageKey)}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <section className="bg-white p-4 rounded-lg shadow-sm">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h2 className="text-lg font-bold text-secondary-800 mr-auto">{t('cacheAdmin.entriesHeading')}</h2>
+            <select className="border rounded px-2 py-1 text-sm" value={type} onChange={event => setType(event.target.value as CacheType)}>
+              {CACHE_TYPES.map(cacheType => (
+                <option key={cacheType} value={cacheType}>{t(`cacheAdmin.type.${cacheType}` as MessageKey)}</option>
+              ))}
+            </select>
+            <select className="border rounded px-2 py-1 text-sm" value={source} onChange={event => setSource(event.target.value as CacheSource | '')}>
+              <option value="">{t('cacheAdmin.allSources')}</option>
+              {CACHE_SOURCES.map(cacheSource => (
+                <option key={cacheSource} value={cacheSource}>{cacheSource}</option>
+              ))}
+            </select>
+            <Button variant="danger" size="sm" disabled={entries.length === 0}
+              onClick={() => invalidate(() => invalidateCacheEntries({ type, ...(source ? { source } : {}) }))}>
+              {t('cacheAdmin.invalidateShown')}
+            </Button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-secondary-500">{t('cacheAdmin.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-secondary-500">
+                    <th className="pr-4">{t('cacheAdmin.column.hash')}</th>
+                    <th className="pr-4">{t('cacheAdmin.column.source')}</th>
+                    <th className="pr-4">{t('cacheAdmin.column.hits')}</th>
+                    <th className="pr-4" title={t('cacheAdmin.column.savedHint')}>{t('cacheAdmin.column.saved')}</th>
+                    <th className="pr-4">{t('cacheAdmin.column.age')}</th>
+                    <th className="pr-4">{t('cacheAdmin.column.expires')}</th>
+                    <th className="pr-4">{t('cacheAdmin.column.size')}</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr key={entry.key} className="border-t border-secondary-100">
+                      <td className="pr-4 py-1 font-mono text-xs" title={entry.key}>{entry.imageHash.slice(0, 12)}</td>
+                      <td className="pr-4">{entry.source}</td>
+                      <td className="pr-4">{entry.hits}</td>
+                      <td className="pr-4">{entry.coalesced}</td>
+                      <td className="pr-4 whitespace-nowrap">{formatAge(entry.age, t)}</td>
+                      <td className="pr-4 whitespace-nowrap">{new Date(entry.expiresAt).toLocaleString(locale)}</td>
+                      <td className="pr-4 whitespace-nowrap">{entry.size !== undefined ? formatBytes(entry.size, locale) : '–'}</td>
+                      <td className="whitespace-nowrap">
+                        <Button variant="text" size="xs" onClick={() => showEntry(entry.key)}>{t('cacheAdmin.view')}</Button>
+                        <Button variant="text" size="xs" onClick={() => invalidate(() => invalidateCacheEntries({ type, key: entry.key }))}>
+                          {t('cacheAdmin.invalidate')}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {selected && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-mono text-xs">{selected.key}</span>
+                <Button variant="text" size="xs" onClick={() => setSelected(null)}>{t('common.close')}</Button>
+              </div>
+              <pre className="bg-secondary-50 p-3 rounded text-xs overflow-auto max-h-96">{previewData(selected.data)}</pre>
+            </div>
+          )}
+        </section>
+      </div>
+    </Layout>
+  )
+}
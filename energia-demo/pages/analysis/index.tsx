@@ -1,10 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
-import axios from 'axios';
 import dynamic from 'next/dynamic';
 import Layout from '../../components/Layout';
 import ProcessingAnimation from '../../components/ProcessingAnimation';
-import { AnalysisResult } from '../../lib/openai';
+import type { OpenAIComponent } from '../../lib/openai';
+import { ANALYSIS_STAGES, AnalysisStage, getStageIndex } from '../../lib/openai/progress';
+import { getImage as getStoredImage } from '../../lib/imageStore';
+import { scheduleRevalidation, STALE_RESPONSE_STATUSES } from '../../lib/cache';
+import { isFallbackAllowed } from '../../lib/demoMode';
+import { getImageUrl, requestAnalysis, streamAnalysis, uploadImage } from '../../lib/api';
+import type { AnalysisResponse, ImageSource } from '../../lib/api';
+import { getAnalysisProvenance } from '../../lib/provenance';
+import type { MessageKey } from '../../lib/i18n';
+import { useI18n } from '../../lib/i18n/react';
 
 // Import components with client-side only rendering
 const AnalysisInfoPanel = dynamic(
@@ -21,11 +29,14 @@ const SimpleAnnotationView = dynamic(
 export default function Analysis() {
   const router = useRouter();
   const { imageId, imageKey } = router.query;
+  const { locale, t } = useI18n();
   
   const [image, setImage] = useState<string | null>(null);
-  const [analysisData, setAnalysisData] = useState<AnalysisResult | null>(null);
+  const [analysisData, setAnalysisData] = useState<AnalysisResponse | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Latest stage reported by the stream; null once the final result is in
+  const [stage, setStage] = useState<AnalysisStage | null>('received');
+  const [error, setError] = useState<MessageKey | null>(null);
   const [activeAnnotation, setActiveAnnotation] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
   
@@ -43,67 +54,104 @@ export default function Analysis() {
     return base64Data;
   };
 
+  // Run the streaming analysis, showing components as soon as they are parsed
+  const runAnalysis = (source: ImageSource, signal: AbortSignal): Promise<AnalysisResponse> => {
+    const components: OpenAIComponent[] = [];
+    
+    // Canned results stand in for failed analyses only in demo mode
+    return streamAnalysis({ ...source, locale, fallback: isFallbackAllowed() }, {
+      signal,
+      onProgress: event => {
+        if (event.type === 'stage') {
+          setStage(event.stage);
+        } else {
+          // Annotations come with the result; until then the panel lists the components alone
+          components[event.index] = event.component;
+          setAnalysisData({ components: components.filter(Boolean), annotations: [] });
+          setLoading(false);
+        }
+      }
+    });
+  };
+
   useEffect(() => {
     // Don't proceed until we're mounted on client-side
     if (!isMounted) return;
     
+    // Abort the running requests when the image or locale changes or the page is left
+    const controller = new AbortController();
+    
     // Handle either imageKey or legacy imageId (for backward compatibility)
     const getImage = async () => {
       try {
-        let imageData: string | null = null;
+        // What the analysis requests send: the uploaded image's id, or the image itself
+        let source: ImageSource;
         
         // First check for imageKey (new method)
         if (imageKey && typeof imageKey === 'string') {
-          // Get image from sessionStorage
-          imageData = sessionStorage.getItem(decodeURIComponent(imageKey));
-          if (!imageData) {
-            throw new Error('Image not found in session storage');
+          // Get image from the browser image store and upload it unchanged, at full resolution
+          const storedImage = await getStoredImage(imageKey);
+          if (!storedImage) {
+            throw new Error('Image not found in the image store');
           }
+          const uploaded = await uploadImage(storedImage.blob, { signal: controller.signal });
+          source = { imageId: uploaded.id };
+          // The original is shown: pixel-space annotations are measured against its dimensions
+          setImage(getImageUrl(uploaded.id));
         } 
         // Then check for direct imageId (old method, for backward compatibility)
         else if (imageId && typeof imageId === 'string') {
-          imageData = decodeURIComponent(imageId);
-        }
-        
-        if (!imageData) {
+          // Make sure the image is normalized
+          const normalizedImage = normalizeBase64(decodeURIComponent(imageId));
+          source = { image: normalizedImage };
+          setImage(normalizedImage);
+        } else {
           throw new Error('No image data available');
         }
         
-        // Make sure the image is normalized
-        const normalizedImage = normalizeBase64(imageData);
-        setImage(normalizedImage);
-        
-        // Call the analyze API
+        // Call the streaming analyze API, asking for text in the interface language
         setLoading(true);
-        const response = await axios.post('/api/analyze-image', { 
-          image: normalizedImage
-        });
-        setAnalysisData(response.data);
+        setStage('received');
+        setAnalysisData(null);
+        const result = await runAnalysis(source, controller.signal);
+        setAnalysisData(result);
+        setStage(null);
         setLoading(false);
+        
+        // A stale result is replaced once the server has refreshed it (after reconnecting when offline)
+        if (result._meta && STALE_RESPONSE_STATUSES.includes(result._meta.status)) {
+          scheduleRevalidation('analyze', `${imageKey || imageId}:${locale}`, async () => {
+            const refreshed = await requestAnalysis(
+              { ...source, locale, revalidate: true, fallback: isFallbackAllowed() },
+              { signal: controller.signal }
+            );
+            if (!refreshed._meta || !STALE_RESPONSE_STATUSES.includes(refreshed._meta.status)) {
+              setAnalysisData(refreshed);
+            }
+          });
+        }
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error('Error analyzing image:', err);
-        setError('Échec de l\'analyse d\'image. Veuillez réessayer.');
+        setError('analysis.error.failed');
         setLoading(false);
       }
     };
     
     getImage();
-  }, [imageId, imageKey, isMounted]);
+    
+    return () => controller.abort();
+  }, [imageId, imageKey, isMounted, locale]);
   
   const handleFutureVision = () => {
-    // If we have an image, store it in sessionStorage for future page
-    if (image && isMounted) {
-      const futureImageKey = `energia_future_image_${Date.now()}`;
-      sessionStorage.setItem(futureImageKey, image);
-      router.push('/future?imageKey=' + encodeURIComponent(futureImageKey));
+    // The future page reads the same stored image, so only the reference is passed on
+    if (imageKey && typeof imageKey === 'string') {
+      router.push('/future?imageKey=' + encodeURIComponent(imageKey));
     } 
     // Backward compatibility
     else if (imageId && typeof imageId === 'string') {
       router.push('/future?imageId=' + encodeURIComponent(imageId));
     }
-    else if (imageKey && typeof imageKey === 'string') {
-      router.push('/future?imageKey=' + encodeURIComponent(imageKey));
-    }
   };
   
   const handleAnnotationClick = (id: string) => {
@@ -113,10 +161,15 @@ export default function Analysis() {
   // Render loading state
   if (loading) {
     return (
-      <Layout title="Analyse d'infrastructure - ÉnergIA">
+      <Layout title={t('analysis.title')}>
         <div className="container mx-auto px-4 py-8">
           <div className="flex items-center justify-center min-h-[60vh]">
-            <ProcessingAnimation />
+            <ProcessingAnimation
+              autoProgress={false}
+              step={stage ? getStageIndex(stage) : ANALYSIS_STAGES.length - 1}
+              totalSteps={ANALYSIS_STAGES.length}
+              customSteps={ANALYSIS_STAGES.map(id => t(`analysis.stage.${id}`))}
+            />
           </div>
         </div>
       </Layout>
@@ -126,16 +179,16 @@ export default function Analysis() {
   // Render error state
   if (error) {
     return (
-      <Layout title="Erreur - ÉnergIA">
+      <Layout title={t('analysis.errorTitle')}>
         <div className="container mx-auto px-4 py-8">
           <div className="bg-red-50 p-4 rounded-md border border-red-200 text-center">
-            <h2 className="text-xl font-semibold text-red-700 mb-2">Erreur</h2>
-            <p className="text-red-600 mb-4">{error}</p>
+            <h2 className="text-xl font-semibold text-red-700 mb-2">{t('common.error')}</h2>
+            <p className="text-red-600 mb-4">{t(error)}</p>
             <button
               onClick={() => router.back()}
               className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition"
             >
-              Retour
+              {t('common.back')}
             </button>
           </div>
         </div>
@@ -145,9 +198,22 @@ export default function Analysis() {
   
   // Main content
   return (
-    <Layout title="Analyse d'infrastructure - ÉnergIA">
+    <Layout title={t('analysis.title')}>
       <div className="container mx-auto px-4 py-6">
-        <h1 className="text-2xl font-bold text-gray-800 mb-6">Analyse d'infrastructure</h1>
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">{t('analysis.heading')}</h1>
+        
+        {/* Progress while the remaining components are still being parsed */}
+        {stage && (
+          <div className="flex items-center gap-3 mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800" role="status">
+            <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-600"></div>
+            <span>
+              {t('analysis.streaming', {
+                stage: t(`analysis.stage.${stage}`),
+                count: analysisData?.components.length ?? 0
+              })}
+            </span>
+          </div>
+        )}
         
         {isMounted ? (
           <div className="flex flex-col md:flex-row gap-6">
@@ -164,19 +230,23 @@ export default function Analysis() {
                 </div>
               ) : (
                 <div className="flex items-center justify-center h-64 bg-gray-100 text-gray-400">
-                  Aucune image disponible
+                  {t('analysis.noImage')}
                 </div>
               )}
             </div>
             
             {/* Information panel */}
             <div className="w-full md:w-1/3">
-              <AnalysisInfoPanel data={analysisData} />
+              <AnalysisInfoPanel
+                data={analysisData}
+                provenance={analysisData && getAnalysisProvenance(analysisData)}
+              />
               <button 
-                className="w-full mt-4 py-3 bg-green-600 hover:bg-green-700 text-white rounded-md font-medium transition-colors shadow-sm"
+                className="w-full mt-4 py-3 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md font-medium transition-colors shadow-sm"
                 onClick={handleFutureVision}
+                disabled={stage !== null}
               >
-                VISION FUTUR
+                {t('analysis.futureVision')}
               </button>
             </div>
           </div>
@@ -185,7 +255,7 @@ export default function Analysis() {
           <div className="flex items-center justify-center min-h-[60vh]">
             <div className="text-center p-8">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mx-auto mb-4"></div>
-              <p className="text-secondary-600">Chargement de l'interface...</p>
+              <p className="text-secondary-600">{t('common.loadingInterface')}</p>
             </div>
           </div>
         )}
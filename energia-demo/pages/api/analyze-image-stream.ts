@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getFallbackAnalysisData } from '../../lib/cache'
+import { AnalysisRequestParams, parseAnalysisRequest, resolveAnalysis } from '../../lib/analysis'
+import { openEventStream, sendEvent } from '../../lib/sse'
+import { ApiError, ApiErrorBody } from '../../lib/api/errors'
+import { createApiResponse, resolveRequestImage, sendApiError, toApiError } from '../../lib/api/server'
+import type { AnalysisResponse, AnalysisStreamEvent } from '../../lib/api/contracts'
+
+// Streaming variant of /api/analyze-image: same cache, demo and fallback behaviour, but the
+// progress is sent as Server-Sent Events (stage, component) ending with a single `result` event,
+// or an `error` event with the typed error. Validation errors are still plain JSON responses, since
+// they happen before the stream opens. A client that disconnects cancels its analysis.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiErrorBody>
+) {
+  const startTime = Date.now();
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, new ApiError('method_not_allowed'));
+  }
+
+  let request: AnalysisRequestParams;
+  try {
+    const resolved = await resolveRequestImage(req.body);
+    if ('error' in resolved) {
+      return sendApiError(res, resolved.error);
+    }
+
+    const parsed = parseAnalysisRequest(resolved.image, req.body);
+    if ('error' in parsed) {
+      return sendApiError(res, new ApiError('invalid_request', parsed.error));
+    }
+    request = parsed;
+  } catch (error) {
+    console.error('Error reading image analysis request:', error);
+    return sendApiError(res, toApiError(error));
+  }
+
+  // The response closes before it ends only when the client goes away; nobody is left to read
+  // the result, so the provider call is cancelled
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  openEventStream(res);
+
+  const send = (event: AnalysisStreamEvent) => {
+    if (!controller.signal.aborted) {
+      sendEvent(res, event.type, event);
+    }
+  };
+
+  // Send the final result or the typed error of a failure and close the stream
+  const finish = (result: AnalysisResponse) => {
+    send({ type: 'result', result });
+    res.end();
+  };
+  const fail = (error: ApiError) => {
+    send({ type: 'error', error: error.toBody() });
+    res.end();
+  };
+
+  try {
+    send({ type: 'stage', stage: 'received' });
+
+    return finish(await resolveAnalysis(request, { onProgress: send, signal: controller.signal }));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log('Image analysis cancelled: the client disconnected');
+      return res.end();
+    }
+
+    console.error('Error streaming image analysis:', error);
+
+    if (!request.fallback) {
+      return fail(toApiError(error));
+    }
+
+    // Return fallback data for demo reliability
+    return finish(createApiResponse(getFallbackAnalysisData(request.locale), { source: 'fallback', status: 'error', startTime }));
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { CACHE_TYPES, getCacheEntry, invalidateCache, isCacheType } from '../../../../lib/cache'
+import { ApiError, ApiErrorBody } from '../../../../lib/api/errors'
+import { refuseNonAdmin, sendApiError } from '../../../../lib/api/server'
+import type { CacheEntryResponse, InvalidateResponse } from '../../../../lib/api/contracts'
+
+// GET returns one cache entry with its data (without counting a hit); DELETE invalidates it. Both
+// take the admin token: the data is another user's result
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CacheEntryResponse | InvalidateResponse | ApiErrorBody>
+) {
+  const { type } = req.query;
+  const key = String(req.query.key);
+  if (!isCacheType(type)) {
+    return sendApiError(res, new ApiError('not_found', `Unknown cache type, expected one of ${CACHE_TYPES.join(', ')}`));
+  }
+
+  if ((req.method === 'GET' || req.method === 'DELETE') && refuseNonAdmin(req, res)) {
+    return;
+  }
+
+  if (req.method === 'GET') {
+    const entry = await getCacheEntry(type, key);
+    if (!entry) {
+      return sendApiError(res, new ApiError('not_found', 'Cache entry not found'));
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(entry);
+  }
+
+  if (req.method === 'DELETE') {
+    const removed = await invalidateCache({ type, key });
+    if (removed === 0) {
+      return sendApiError(res, new ApiError('not_found', 'Cache entry not found'));
+    }
+    return res.status(200).json({ removed });
+  }
+
+  res.setHeader('Allow', 'GET, DELETE');
+  return sendApiError(res, new ApiError('method_not_allowed'));
+}
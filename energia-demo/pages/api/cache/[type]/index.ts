@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { CACHE_SOURCES, CACHE_TYPES, invalidateCache, isCacheSource, isCacheType, listCacheEntries } from '../../../../lib/cache'
+import { ApiError, ApiErrorBody } from '../../../../lib/api/errors'
+import { refuseNonAdmin, sendApiError } from '../../../../lib/api/server'
+import type { CacheEntriesResponse, InvalidateResponse } from '../../../../lib/api/contracts'
+
+// GET lists the entries of a cache type without their data; DELETE invalidates them, with the admin
+// token. Both accept ?source=
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CacheEntriesResponse | InvalidateResponse | ApiErrorBody>
+) {
+  const { type, source } = req.query;
+  if (!isCacheType(type)) {
+    return sendApiError(res, new ApiError('not_found', `Unknown cache type, expected one of ${CACHE_TYPES.join(', ')}`));
+  }
+  if (source !== undefined && !isCacheSource(source)) {
+    return sendApiError(res, new ApiError('invalid_request', `source must be one of ${CACHE_SOURCES.join(', ')}`));
+  }
+
+  if (req.method === 'GET') {
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ entries: await listCacheEntries(type, { source }) });
+  }
+
+  if (req.method === 'DELETE') {
+    if (refuseNonAdmin(req, res)) {
+      return;
+    }
+    return res.status(200).json({ removed: await invalidateCache({ type, source }) });
+  }
+
+  res.setHeader('Allow', 'GET, DELETE');
+  return sendApiError(res, new ApiError('method_not_allowed'));
+}
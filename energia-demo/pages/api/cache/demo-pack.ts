@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { DemoPack, DemoPackError, DemoPackImportResult, importDemoPack, parseDemoPack } from '../../../lib/demoPack'
+import { buildDemoPack, restoreDemoImages } from '../../../lib/demoPack/server'
+import { toStoredImageUrl } from '../../../lib/imageStore/server'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { readJsonBody, refuseNonAdmin, sendApiError } from '../../../lib/api/server'
+
+// An imported pack carries the future images (5 demo images × 4 horizons, a few MB each once
+// encoded) but not the demo images, which the server reads from public/
+const PACK_MAX_BYTES = 64 * 1024 * 1024;
+
+// The body is only read once the admin token is checked
+export const config = {
+  api: {
+    bodyParser: false,
+    responseLimit: false
+  }
+}
+
+// Demo pack of the server cache: GET exports it as a download, POST verifies and imports one; the
+// import overwrites demo results, so it takes the admin token
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DemoPack | DemoPackImportResult | (ApiErrorBody & { issues?: string[] })>
+) {
+  if (req.method === 'GET') {
+    const pack = await buildDemoPack();
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Content-Disposition', `attachment; filename="energia-demo-pack-${pack.createdAt.slice(0, 10)}.json"`);
+    return res.status(200).json(pack);
+  }
+
+  if (req.method === 'POST') {
+    if (refuseNonAdmin(req, res)) {
+      return;
+    }
+
+    try {
+      const body = await readJsonBody(req, PACK_MAX_BYTES);
+      const pack = parseDemoPack(await restoreDemoImages(body));
+      // Results are cached with their images stored, as the server caches its own
+      return res.status(200).json(await importDemoPack(pack, { storeImage: toStoredImageUrl }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        // Drop the rest of a refused body so the error response gets through
+        req.resume();
+        return sendApiError(res, error);
+      }
+      if (error instanceof DemoPackError) {
+        return res.status(400).json({ ...new ApiError('invalid_request', error.message).toBody(), issues: error.issues });
+      }
+      console.error('Error importing demo pack:', error);
+      return sendApiError(res, new ApiError('internal_error', 'Failed to import demo pack'));
+    }
+  }
+
+  res.setHeader('Allow', 'GET, POST');
+  return sendApiError(res, new ApiError('method_not_allowed'));
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { CacheType, getCacheEntry } from '../../../lib/cache'
+import { getAnalysisCacheKey, getFutureCacheKey, getFutureImageCacheKey } from '../../../lib/openai'
+import { DEMO_IMAGES, DEMO_SCENARIOS, DemoCacheCheck, DemoCacheState, DemoImageCacheStatus } from '../../../lib/demoMode'
+import { Locale, LOCALES } from '../../../lib/i18n'
+import { readDemoImage } from '../../../lib/demoPack/server'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { sendApiError } from '../../../lib/api/server'
+import type { DemoCacheResponse } from '../../../lib/api/contracts'
+
+async function checkEntry(type: CacheType, key: string, locale?: Locale): Promise<DemoCacheCheck> {
+  const entry = await getCacheEntry(type, key);
+  const state: DemoCacheState = !entry ? 'missing' : entry.expiresAt > Date.now() ? 'warm' : 'stale';
+  return { type, key, state, ...(locale ? { locale } : {}) };
+}
+
+// Whether the server cache holds the results of every demo image at the default horizon, so a
+// presentation does not depend on the providers
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DemoCacheResponse | ApiErrorBody>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendApiError(res, new ApiError('method_not_allowed'));
+  }
+
+  const images: DemoImageCacheStatus[] = [];
+
+  for (const imagePath of DEMO_IMAGES) {
+    const imageData = await readDemoImage(imagePath);
+    if (!imageData) continue;
+
+    const checks: DemoCacheCheck[] = [];
+    for (const locale of LOCALES) {
+      checks.push(await checkEntry('analyze', getAnalysisCacheKey(imageData, locale), locale));
+      checks.push(await checkEntry('future', getFutureCacheKey(imageData, { locale }), locale));
+    }
+    checks.push(await checkEntry('futureImage', getFutureImageCacheKey(imageData)));
+
+    const scenario = Object.values(DEMO_SCENARIOS).find(candidate => candidate.imagePath === imagePath);
+    images.push({ image: imagePath, scenario: scenario?.name, checks });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({ images });
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { CACHE_SOURCES, CACHE_TYPES, getCacheStats, invalidateCache, isCacheSource, isCacheType } from '../../../lib/cache'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { refuseNonAdmin, sendApiError } from '../../../lib/api/server'
+import type { CacheStatsResponse, InvalidateResponse } from '../../../lib/api/contracts'
+
+// GET reports cache statistics (entries, bytes, hit ratio per type); DELETE invalidates entries,
+// optionally only those of ?type= and/or ?source=, and takes the admin token
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CacheStatsResponse | InvalidateResponse | ApiErrorBody>
+) {
+  if (req.method === 'GET') {
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(await getCacheStats());
+  }
+
+  if (req.method === 'DELETE') {
+    if (refuseNonAdmin(req, res)) {
+      return;
+    }
+    const { type, source } = req.query;
+    if (type !== undefined && !isCacheType(type)) {
+      return sendApiError(res, new ApiError('invalid_request', `type must be one of ${CACHE_TYPES.join(', ')}`));
+    }
+    if (source !== undefined && !isCacheSource(source)) {
+      return sendApiError(res, new ApiError('invalid_request', `source must be one of ${CACHE_SOURCES.join(', ')}`));
+    }
+    return res.status(200).json({ removed: await invalidateCache({ type, source }) });
+  }
+
+  res.setHeader('Allow', 'GET, DELETE');
+  return sendApiError(res, new ApiError('method_not_allowed'));
+}
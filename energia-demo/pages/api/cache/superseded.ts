@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { listSupersededEntries, purgeSupersededEntries } from '../../../lib/cache'
+import { getCacheConfigFingerprints } from '../../../lib/openai'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { refuseNonAdmin, sendApiError } from '../../../lib/api/server'
+import type { PurgeResponse, SupersededResponse } from '../../../lib/api/contracts'
+
+// Server cache entries produced by superseded model or prompt settings: GET lists them, DELETE purges
+// them with the admin token
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SupersededResponse | PurgeResponse | ApiErrorBody>
+) {
+  const current = getCacheConfigFingerprints();
+
+  if (req.method === 'GET') {
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ current, entries: await listSupersededEntries(current) });
+  }
+
+  if (req.method === 'DELETE') {
+    if (refuseNonAdmin(req, res)) {
+      return;
+    }
+    return res.status(200).json({ current, purged: await purgeSupersededEntries(current) });
+  }
+
+  res.setHeader('Allow', 'GET, DELETE');
+  return sendApiError(res, new ApiError('method_not_allowed'));
+}
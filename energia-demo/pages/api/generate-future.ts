@@ -1,138 +1,52 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { getNetworkStatus, getCachedResponseWithStatus, getImageHash, cacheResponse, getFallbackFutureData, getFallbackImage } from '../../lib/cache'
-import { generateFuture, FutureResult } from '../../lib/openai'
-import { getDemoStatus, simulateProcessingDelay } from '../../lib/demoMode'
-
-type ErrorResponse = {
-  error: string;
-}
-
-type FutureResponseWithMeta = FutureResult & {
-  _meta?: {
-    source: string;
-    status: string;
-    processTime: number;
-  }
-}
+import { FutureRequest, getFallbackFuture, parseFutureRequest, resolveFutureProjection, serveFutureImage } from '../../lib/future'
+import { ApiError, ApiErrorBody } from '../../lib/api/errors'
+import { createApiResponse, resolveRequestImage, sendApiError, toApiError } from '../../lib/api/server'
+import type { FutureResponse } from '../../lib/api/contracts'
 
+// Blocking projection request; long generations are better run through /api/jobs/future
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<FutureResponseWithMeta | ErrorResponse>
+  res: NextApiResponse<FutureResponse | ApiErrorBody>
 ) {
   const startTime = Date.now();
-  
+
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' })
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, new ApiError('method_not_allowed'));
   }
-  
+
+  // Validated request, once parsed; fallback data is built for its image, horizon, date and language
+  let request: FutureRequest | undefined;
+
   try {
-    const { image } = req.body
-    if (!image) {
-      return res.status(400).json({ error: 'Image is required' })
-    }
-    
-    // Check demo mode and network status
-    const demoStatus = getDemoStatus();
-    const networkStatus = getNetworkStatus();
-    
-    // Generate image hash for cache lookup
-    const imageHash = getImageHash(image);
-    
-    // Create a response function with metadata
-    const createResponse = (data: FutureResult, source: string, status: string) => {
-      const responseWithMeta: FutureResponseWithMeta = {
-        ...data,
-        _meta: {
-          source,
-          status,
-          processTime: Date.now() - startTime
-        }
-      };
-      return responseWithMeta;
-    };
-    
-    // Try to get cached response first
-    const { status: cacheStatus, data: cachedData } = getCachedResponseWithStatus('future', imageHash);
-    
-    // Return cached data if valid
-    if (cacheStatus === 'hit') {
-      console.log(`Cache hit for future projection (${imageHash})`);
-      return res.status(200).json(createResponse(cachedData, 'cache', 'hit'));
-    }
-    
-    // If demo mode is enabled or we're offline, use demo data
-    if (demoStatus.enabled) {
-      console.log(`Demo mode enabled (${demoStatus.mode}) - using demo/fallback data for future projection`);
-      
-      // Simulate processing delay for realism
-      await simulateProcessingDelay('future projection');
-      
-      // Get fallback data
-      const fallbackData = {
-        futureImage: image, // For simplicity, use the original image
-        analysis: getFallbackFutureData()
-      };
-      
-      // Cache it for future use
-      cacheResponse('future', imageHash, fallbackData, 'fallback');
-      
-      return res.status(200).json(createResponse(fallbackData, 'demo', demoStatus.mode));
-    }
-    
-    // If stale cache data and offline, use it
-    if (cacheStatus === 'stale' && !networkStatus.online) {
-      console.log(`Using stale cache data for future projection (${imageHash}) - offline mode`);
-      return res.status(200).json(createResponse(cachedData, 'cache', 'stale'));
+    const resolved = await resolveRequestImage(req.body);
+    if ('error' in resolved) {
+      return sendApiError(res, resolved.error);
     }
-    
-    // Process the image with OpenAI for future projection
-    try {
-      console.log(`Processing image for future projection with OpenAI API (${imageHash.substr(0, 8)}...)`);
-      const result = await generateFuture(image);
-      
-      // Return the result
-      return res.status(200).json(createResponse(result, 'api', 'fresh'));
-    } catch (apiError) {
-      console.error('Error from OpenAI API for future projection:', apiError);
-      
-      // If stale cache data exists, use it
-      if (cacheStatus === 'stale') {
-        console.log(`Using stale cache data after API error for future projection (${imageHash})`);
-        return res.status(200).json(createResponse(cachedData, 'cache', 'stale_fallback'));
-      }
-      
-      // Fall back to demo data on API error
-      const fallbackData = {
-        futureImage: image,
-        analysis: getFallbackFutureData()
-      };
-      
-      // Cache it for future use
-      cacheResponse('future', imageHash, fallbackData, 'fallback');
-      
-      return res.status(200).json(createResponse(fallbackData, 'fallback', 'api_error'));
+
+    const parsed = parseFutureRequest({ ...req.body, image: resolved.image });
+    if ('error' in parsed) {
+      return sendApiError(res, new ApiError('invalid_request', parsed.error));
     }
+    request = parsed;
+
+    return res.status(200).json(await resolveFutureProjection(request));
   } catch (error) {
     console.error('Error generating future projection:', error);
-    
+
+    // Canned fallback data is only substituted for failures when the request opts in with `fallback: true`
+    if (!request?.fallback) {
+      return sendApiError(res, toApiError(error));
+    }
+
     // Return fallback data for demo reliability
-    const fallbackData = {
-      futureImage: req.body.image,
-      analysis: getFallbackFutureData()
-    };
-    
-    return res.status(200).json(createResponse(fallbackData, 'fallback', 'error'));
-  }
-  
-  // Helper function to create response with metadata
-  function createResponse(data: FutureResult, source: string, status: string): FutureResponseWithMeta {
-    return {
-      ...data,
-      _meta: {
-        source,
-        status,
-        processTime: Date.now() - startTime
-      }
-    };
+    try {
+      const fallbackData = await serveFutureImage(getFallbackFuture(request));
+      return res.status(200).json(createApiResponse(fallbackData, { source: 'fallback', status: 'error', startTime }));
+    } catch (fallbackError) {
+      console.error('Error serving fallback future projection:', fallbackError);
+      return sendApiError(res, toApiError(fallbackError));
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { CircuitKind, getCircuitSnapshot, getImageGenerationProvider, getVisionProvider } from '../../lib/providers'
+import { ApiError, ApiErrorBody } from '../../lib/api/errors'
+import { sendApiError } from '../../lib/api/server'
+import type { HealthResponse, ProviderHealth } from '../../lib/api/contracts'
+
+// Provider health: the configured providers and the state of their circuit breakers
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HealthResponse | ApiErrorBody>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendApiError(res, new ApiError('method_not_allowed'));
+  }
+
+  const vision = getVisionProvider();
+  const image = getImageGenerationProvider();
+  const providers: Record<CircuitKind, ProviderHealth> = {
+    vision: { id: vision.id, model: vision.model, circuit: getCircuitSnapshot('vision') },
+    image: { id: image.id, model: image.model, circuit: getCircuitSnapshot('image') }
+  };
+  const degraded = Object.values(providers).some(provider => provider.circuit.state !== 'closed');
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({ status: degraded ? 'degraded' : 'ok', providers });
+}
@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getVariantWidth, isImageId, readImage } from '../../../lib/imageStore/server'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { sendApiError } from '../../../lib/api/server'
+
+// Images are named by the hash of their bytes and never change, so every response may be cached for good
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+
+// A stored image: the original, a copy resized to ?w= (rounded up to the next variant width), or
+// its square thumbnail with ?thumb
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Buffer | ApiErrorBody>
+) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', 'GET, HEAD');
+    return sendApiError(res, new ApiError('method_not_allowed'));
+  }
+
+  const hash = String(req.query.hash);
+  if (!isImageId(hash)) {
+    return sendApiError(res, new ApiError('not_found', 'Image not found'));
+  }
+
+  const thumbnail = req.query.thumb !== undefined;
+  let width: number | undefined;
+  if (req.query.w !== undefined) {
+    width = Number(req.query.w);
+    if (!Number.isInteger(width) || width <= 0) {
+      return sendApiError(res, new ApiError('invalid_request', 'w must be a positive integer'));
+    }
+  }
+
+  // The variant actually served names the ETag, so ?w=500 and ?w=640 revalidate as the same image
+  const variantWidth = width !== undefined ? getVariantWidth(width) : null;
+  const variant = thumbnail ? 'thumb' : variantWidth !== null ? `w${variantWidth}` : 'original';
+  const etag = `"${hash}-${variant}"`;
+  if (req.headers['if-none-match'] === etag) {
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', IMMUTABLE_CACHE_CONTROL);
+    return res.status(304).end();
+  }
+
+  try {
+    const stored = await readImage(hash, { width, thumbnail });
+    if (!stored) {
+      return sendApiError(res, new ApiError('not_found', 'Image not found'));
+    }
+
+    res.setHeader('Content-Type', stored.image.type);
+    res.setHeader('Content-Length', stored.data.length);
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', IMMUTABLE_CACHE_CONTROL);
+    // end() rather than send(), which would replace the ETag with a digest of the bytes
+    return res.status(200).end(req.method === 'HEAD' ? undefined : stored.data);
+  } catch (error) {
+    console.error('Error serving image:', error);
+    return sendApiError(res, new ApiError('internal_error', 'Could not read the image'));
+  }
+}
@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import busboy from 'busboy'
+import { saveImage, UPLOAD_RATE_LIMIT, UploadedImage } from '../../../lib/imageStore/server'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { sendApiError, takeRateLimit, toApiError } from '../../../lib/api/server'
+import { getImageUrl } from '../../../lib/api'
+
+// The upload is streamed to disk, never buffered as a parsed body
+export const config = {
+  api: {
+    bodyParser: false
+  }
+}
+
+// Store the `image` file of a multipart/form-data body; other fields and files are skipped
+function saveMultipartImage(req: NextApiRequest): Promise<UploadedImage> {
+  return new Promise((resolve, reject) => {
+    let receiving = false;
+    const parser = busboy({ headers: req.headers, limits: { files: 1 } });
+
+    parser.on('file', (name, file) => {
+      if (name !== 'image' || receiving) {
+        file.resume();
+        return;
+      }
+      receiving = true;
+      saveImage(file).then(resolve, error => {
+        // Stop parsing a rejected upload
+        req.unpipe(parser);
+        reject(error);
+      });
+    });
+    parser.on('close', () => {
+      if (!receiving) {
+        reject(new ApiError('invalid_request', 'The image file field is required'));
+      }
+    });
+    parser.on('error', reject);
+
+    req.pipe(parser);
+  });
+}
+
+// Upload an image as multipart/form-data (`image` field) or as the raw body with an image/*
+// Content-Type; returns its id for the `imageId` of the analysis and projection requests. Uploads
+// are capped in size and in rate per client, and the store prunes old images.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UploadedImage | ApiErrorBody>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, new ApiError('method_not_allowed'));
+  }
+
+  const retryAfter = takeRateLimit(req, 'images', UPLOAD_RATE_LIMIT, 60 * 1000);
+  if (retryAfter !== null) {
+    res.setHeader('Retry-After', String(retryAfter));
+    return sendApiError(res, new ApiError('rate_limited', `Uploads are limited to ${UPLOAD_RATE_LIMIT} per minute`));
+  }
+
+  const contentType = req.headers['content-type'] || '';
+
+  try {
+    let image: UploadedImage;
+    if (contentType.startsWith('multipart/form-data')) {
+      image = await saveMultipartImage(req);
+    } else if (contentType.startsWith('image/')) {
+      image = await saveImage(req);
+    } else {
+      return sendApiError(res, new ApiError('unsupported_media_type', 'Send the image as multipart/form-data or with an image/* Content-Type'));
+    }
+    res.setHeader('Location', getImageUrl(image.id));
+    return res.status(201).json(image);
+  } catch (error) {
+    console.error('Error storing uploaded image:', error);
+    // Drop the rest of a rejected body so the error response gets through
+    req.resume();
+    return sendApiError(res, toApiError(error));
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { cancelJob, getJob, getJobResult } from '../../../lib/jobs'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { sendApiError } from '../../../lib/api/server'
+import type { FutureJobResponse } from '../../../lib/api/contracts'
+
+// GET reports a job's status, progress and result; DELETE cancels it
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FutureJobResponse | ApiErrorBody>
+) {
+  const id = String(req.query.id);
+
+  if (req.method === 'GET') {
+    const job = getJob(id);
+    if (!job) {
+      return sendApiError(res, new ApiError('not_found', 'Job not found'));
+    }
+
+    // Clients poll this endpoint; never serve a stale status
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (job.status === 'succeeded') {
+      const result = getJobResult(id);
+      if (!result) {
+        return sendApiError(res, new ApiError('internal_error', 'Job result is missing'));
+      }
+      return res.status(200).json({ ...job, result });
+    }
+
+    return res.status(200).json(job);
+  }
+
+  if (req.method === 'DELETE') {
+    const job = cancelJob(id);
+    if (!job) {
+      return sendApiError(res, new ApiError('not_found', 'Job not found'));
+    }
+    if (job.status !== 'cancelled') {
+      return sendApiError(res, new ApiError('conflict', `Job already ${job.status}`));
+    }
+    return res.status(200).json(job);
+  }
+
+  res.setHeader('Allow', 'GET, DELETE');
+  return sendApiError(res, new ApiError('method_not_allowed'));
+}
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { parseFutureRequest } from '../../../lib/future'
+import { enqueueFutureJob, FutureJob } from '../../../lib/jobs'
+import { ApiError, ApiErrorBody } from '../../../lib/api/errors'
+import { resolveRequestImage, sendApiError, toApiError } from '../../../lib/api/server'
+
+// Queue a future projection; poll GET /api/jobs/:id for its progress and result
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FutureJob | ApiErrorBody>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, new ApiError('method_not_allowed'));
+  }
+
+  try {
+    const resolved = await resolveRequestImage(req.body);
+    if ('error' in resolved) {
+      return sendApiError(res, resolved.error);
+    }
+
+    // Jobs keep the image itself, so they do not depend on the upload still being stored
+    const request = parseFutureRequest({ ...req.body, image: resolved.image });
+    if ('error' in request) {
+      return sendApiError(res, new ApiError('invalid_request', request.error));
+    }
+
+    const job = enqueueFutureJob(request);
+    res.setHeader('Location', `/api/jobs/${job.id}`);
+    return res.status(202).json(job);
+  } catch (error) {
+    console.error('Error queuing future projection job:', error);
+    return sendApiError(res, toApiError(error));
+  }
+}
@@ -7,17 +7,22 @@ import UploadArea from '../../components/UploadArea'
 import ImagePreview from '../../components/ImagePreview'
 import ProcessingAnimation from '../../components/ProcessingAnimation'
 import { Alert, Button } from '../../components/ui'
+import type { MessageKey } from '../../lib/i18n'
+import { useI18n } from '../../lib/i18n/react'
+import { ANALYSIS_STAGES } from '../../lib/openai/progress'
+import { putImage } from '../../lib/imageStore'
 
 // Import Webcam directly to prevent ref issues
 import Webcam from 'react-webcam';
 
 export default function Capture() {
   const router = useRouter()
+  const { t } = useI18n()
   const [captureMethod, setCaptureMethod] = useState<'camera' | 'upload'>('camera')
   const [image, setImage] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [hasError, setHasError] = useState(false)
-  const [errorMessage, setErrorMessage] = useState('')
+  const [errorMessage, setErrorMessage] = useState<MessageKey | null>(null)
   const [isMounted, setIsMounted] = useState(false)
   const [isWebcamReady, setIsWebcamReady] = useState(false)
   const webcamRef = useRef<Webcam>(null)
@@ -40,11 +45,11 @@ export default function Capture() {
       } catch (err) {
         console.error('Error capturing image:', err)
         setHasError(true)
-        setErrorMessage('Failed to capture image. Please try again or use file upload.')
+        setErrorMessage('capture.error.captureFailed')
       }
     } else {
       setHasError(true)
-      setErrorMessage('Webcam not initialized. Please try again or use file upload.')
+      setErrorMessage('capture.error.webcamNotReady')
     }
   }, [webcamRef])
   
@@ -58,7 +63,7 @@ export default function Capture() {
     }
     reader.onerror = () => {
       setHasError(true)
-      setErrorMessage('Failed to read the file. Please try a different one.')
+      setErrorMessage('capture.error.readFailed')
     }
     reader.readAsDataURL(file)
   }
@@ -72,58 +77,23 @@ export default function Capture() {
     return base64Data;
   }
 
-  // Helper function to compress large images
-  const compressImage = (base64Image: string, maxWidth = 1024): Promise<string> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        // Only compress if the image is larger than maxWidth
-        if (img.width <= maxWidth) {
-          resolve(base64Image);
-          return;
-        }
-        
-        const canvas = document.createElement('canvas');
-        const scale = maxWidth / img.width;
-        canvas.width = maxWidth;
-        canvas.height = img.height * scale;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-          resolve(canvas.toDataURL('image/jpeg', 0.8));
-        } else {
-          // Fallback if context cannot be created
-          resolve(base64Image);
-        }
-      };
-      img.onerror = () => {
-        // Fallback if image fails to load
-        resolve(base64Image);
-      }
-      img.src = base64Image;
-    });
-  }
-
   const confirmImage = async () => {
     setIsProcessing(true)
     
     try {
       // Process the image before sending to analysis
       if (image) {
-        // Normalize and compress the image
+        // Keep the photo at full resolution; the analysis page uploads it as is
         const normalizedImage = normalizeBase64(image);
-        const compressedImage = await compressImage(normalizedImage);
         
-        // Store in sessionStorage instead of URL
-        const imageKey = `energia_image_${Date.now()}`;
-        sessionStorage.setItem(imageKey, compressedImage);
+        // Store the photo as a blob, keeping the capture date so projections are dated from it
+        const { id: imageKey } = await putImage(normalizedImage, {
+          kind: 'capture',
+          capturedAt: new Date().toISOString()
+        });
         
-        // In a real implementation, we would send the image to the server here
-        // For the demo, we'll use a timeout to simulate processing time
-        setTimeout(() => {
-          // Pass only the key in URL
-          router.push('/analysis?imageKey=' + encodeURIComponent(imageKey))
-        }, 3000)
+        // Pass only the reference in URL; the analysis page reports the real progress
+        router.push('/analysis?imageKey=' + encodeURIComponent(imageKey))
       } else {
         throw new Error('No image available');
       }
@@ -131,14 +101,14 @@ export default function Capture() {
       console.error("Error processing image:", error);
       setIsProcessing(false)
       setHasError(true)
-      setErrorMessage('Error processing image. Please try again.')
+      setErrorMessage('capture.error.processing')
     }
   }
   
   const handleCameraError = useCallback(() => {
     setCaptureMethod('upload')
     setHasError(true)
-    setErrorMessage('Camera access denied or not available. Please use file upload instead.')
+    setErrorMessage('capture.error.cameraDenied')
   }, [])
 
   // Animation variants
@@ -172,7 +142,7 @@ export default function Capture() {
   }
   
   return (
-    <Layout title="Capture Image - ÉnergIA">
+    <Layout title={t('capture.title')}>
       <div className="container mx-auto p-4 min-h-[80vh] flex flex-col">
         <motion.div
           initial={{ opacity: 0, y: -10 }}
@@ -181,10 +151,10 @@ export default function Capture() {
           className="mb-6 text-center"
         >
           <h1 className="text-2xl md:text-3xl font-bold text-secondary-800 mb-2 font-display">
-            Capture d'infrastructure
+            {t('capture.heading')}
           </h1>
           <p className="text-secondary-600 max-w-2xl mx-auto">
-            Prenez une photo de l'infrastructure électrique pour l'analyser ou téléchargez une image existante
+            {t('capture.subtitle')}
           </p>
         </motion.div>
         
@@ -201,10 +171,10 @@ export default function Capture() {
                 >
                   <Alert 
                     type="error" 
-                    title="Erreur" 
+                    title={t('common.error')} 
                     onDismiss={() => setHasError(false)}
                   >
-                    {errorMessage}
+                    {errorMessage && t(errorMessage)}
                   </Alert>
                 </motion.div>
               )}
@@ -230,7 +200,7 @@ export default function Capture() {
                         </svg>
                       }
                     >
-                      Utiliser la caméra
+                      {t('capture.useCamera')}
                     </Button>
                     <Button 
                       variant={captureMethod === 'upload' ? 'primary' : 'secondary'}
@@ -241,7 +211,7 @@ export default function Capture() {
                         </svg>
                       }
                     >
-                      Télécharger une image
+                      {t('capture.uploadImage')}
                     </Button>
                   </motion.div>
                   
@@ -285,7 +255,7 @@ export default function Capture() {
                               </svg>
                             }
                           >
-                            {isWebcamReady ? 'Prendre une photo' : 'Chargement de la caméra...'}
+                            {isWebcamReady ? t('capture.takePhoto') : t('capture.cameraLoading')}
                           </Button>
                         </motion.div>
                       ) : (
@@ -312,7 +282,12 @@ export default function Capture() {
                   transition={{ duration: 0.4 }}
                   className="flex-1 flex items-center justify-center"
                 >
-                  <ProcessingAnimation />
+                  <ProcessingAnimation
+                    autoProgress={false}
+                    step={0}
+                    totalSteps={ANALYSIS_STAGES.length}
+                    customSteps={ANALYSIS_STAGES.map(id => t(`analysis.stage.${id}`))}
+                  />
                 </motion.div>
               ) : (
                 <motion.div
@@ -337,7 +312,7 @@ export default function Capture() {
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center p-8">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mx-auto mb-4"></div>
-              <p className="text-secondary-600">Chargement de l'interface...</p>
+              <p className="text-secondary-600">{t('common.loadingInterface')}</p>
             </div>
           </div>
         )}
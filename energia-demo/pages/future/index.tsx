@@ -1,11 +1,20 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/router'
 import Head from 'next/head'
-import axios from 'axios'
 import dynamic from 'next/dynamic'
 import Layout from '../../components/Layout'
 import ProcessingAnimation from '../../components/ProcessingAnimation'
-import { FutureResult } from '../../lib/openai'
+import type { FutureResult } from '../../lib/openai'
+import { addHorizon, DEFAULT_HORIZON_YEARS, formatHorizon, HorizonYears, PROJECTION_HORIZONS } from '../../lib/projection'
+import type { MessageKey } from '../../lib/i18n'
+import { useI18n } from '../../lib/i18n/react'
+import { getImage } from '../../lib/imageStore'
+import { scheduleRevalidation, STALE_RESPONSE_STATUSES } from '../../lib/cache'
+import { isFallbackAllowed } from '../../lib/demoMode'
+import { getFutureImageProvenance, getFutureProvenance } from '../../lib/provenance'
+import type { Provenance } from '../../lib/provenance'
+import { ApiError, cancelFutureJob, fetchFutureJob, getImageUrl, queueFutureJob, requestFutureProjection, uploadImage } from '../../lib/api'
+import type { FutureJobResponse, FutureProjectionRequest, ImageSource } from '../../lib/api'
 
 // Import components with client-side only rendering
 const ComparisonView = dynamic(
@@ -18,19 +27,47 @@ const FutureInfoPanel = dynamic(
   { ssr: false }
 );
 
+// Delay between two job status requests
+const JOB_POLL_INTERVAL_MS = 1000
+
+// Width of the capture shown in the comparison, served resized by /api/images
+const DISPLAY_IMAGE_WIDTH = 1280
+
+// Processing step shown for a job: 0 while queued, then one per projection stage, 4 once done
+const getJobStep = (job: FutureJobResponse): number => {
+  if (job.status === 'succeeded') return 4
+  switch (job.stage) {
+    case 'analysis':
+      return 1
+    case 'image_generation':
+      return 2
+    case 'growth_projection':
+      return 3
+    default:
+      return 0
+  }
+}
+
 export default function Future() {
   const router = useRouter()
   const { imageId, imageKey } = router.query
+  const { locale, t } = useI18n()
   
   const [currentImage, setCurrentImage] = useState<string | null>(null)
   const [futureImage, setFutureImage] = useState<string | null>(null)
   const [futureData, setFutureData] = useState<FutureResult['analysis'] | null>(null)
+  // Where the projected risks and the projected image came from
+  const [provenance, setProvenance] = useState<{ analysis: Provenance | null, image: Provenance | null } | null>(null)
   const [viewMode, setViewMode] = useState<'toggle' | 'sideBySide'>('toggle') 
   const [activeView, setActiveView] = useState<'current' | 'future'>('current')
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<MessageKey | null>(null)
   const [processingStep, setProcessingStep] = useState(0)
   const [isMounted, setIsMounted] = useState(false)
+  const [horizonYears, setHorizonYears] = useState<HorizonYears>(DEFAULT_HORIZON_YEARS)
+  const [captureDate, setCaptureDate] = useState<Date>(() => new Date())
+  // Projection job being followed, and the session key that lets a reload resume it
+  const [activeJob, setActiveJob] = useState<{ id: string, storageKey: string } | null>(null)
   
   // Set mounted state on client-side
   useEffect(() => {
@@ -50,65 +87,137 @@ export default function Future() {
     // Don't proceed until we're mounted on client-side
     if (!isMounted) return;
     
+    // Stop polling once the page moves on; the job itself keeps running on the server
+    const controller = new AbortController();
+    const { signal } = controller;
+    
+    // Latest job status; a job that expired or no longer exists reads as null
+    const fetchJob = async (id: string): Promise<FutureJobResponse | null> => {
+      try {
+        return await fetchFutureJob(id, { signal });
+      } catch (err) {
+        if (err instanceof ApiError && err.code === 'not_found') {
+          return null;
+        }
+        throw err;
+      }
+    };
+    
     // Get image data from either imageKey or imageId
     const getImageAndGenerateFuture = async () => {
+      setLoading(true);
+      setError(null);
+      setProcessingStep(0);
+      
       try {
-        let imageData: string | null = null;
+        let capturedAt: Date = new Date();
+        // What the projection requests send (the uploaded image's id, or the image itself) and what is shown
+        let source: ImageSource;
+        let displayedImage: string;
         
         // First check for imageKey (new method)
         if (imageKey && typeof imageKey === 'string') {
-          // Get image from sessionStorage
-          imageData = sessionStorage.getItem(decodeURIComponent(imageKey));
-          if (!imageData) {
-            throw new Error('Image not found in session storage');
+          // Get image from the browser image store and upload it unchanged, at full resolution
+          const storedImage = await getImage(imageKey);
+          if (!storedImage) {
+            throw new Error('Image not found in the image store');
+          }
+          const uploaded = await uploadImage(storedImage.blob, { signal });
+          source = { imageId: uploaded.id };
+          displayedImage = getImageUrl(uploaded.id, { width: DISPLAY_IMAGE_WIDTH });
+          
+          // Projections are dated from the capture when it is known
+          if (storedImage.capturedAt && !isNaN(Date.parse(storedImage.capturedAt))) {
+            capturedAt = new Date(storedImage.capturedAt);
           }
         } 
         // Then check for direct imageId (old method, for backward compatibility)
         else if (imageId && typeof imageId === 'string') {
-          imageData = decodeURIComponent(imageId);
-        }
-        
-        if (!imageData) {
+          // Make sure the image is normalized
+          const normalizedImage = normalizeBase64(decodeURIComponent(imageId));
+          source = { image: normalizedImage };
+          displayedImage = normalizedImage;
+        } else {
           throw new Error('No image data available');
         }
         
-        // Make sure the image is normalized
-        const normalizedImage = normalizeBase64(imageData);
-        setCurrentImage(normalizedImage);
+        setCurrentImage(displayedImage);
+        setCaptureDate(capturedAt);
         
-        // Call the generate-future API
-        setProcessingStep(1);
+        // Resume the job started for this projection before a reload, or queue a new one
+        const storageKey = `energia_future_job_${imageKey || 'image'}_${horizonYears}_${locale}`;
+        const storedJobId = sessionStorage.getItem(storageKey);
+        let job = storedJobId ? await fetchJob(storedJobId) : null;
         
-        // Simulate processing steps for better UX
-        const timer1 = setTimeout(() => setProcessingStep(2), 1000);
-        const timer2 = setTimeout(() => setProcessingStep(3), 2000);
+        const request: FutureProjectionRequest = {
+          ...source,
+          horizonYears,
+          captureDate: capturedAt.toISOString(),
+          locale,
+          // Canned projections stand in for failed ones only in demo mode
+          fallback: isFallbackAllowed()
+        };
+        
+        if (!job || job.status === 'failed' || job.status === 'cancelled') {
+          job = await queueFutureJob(request, { signal });
+          sessionStorage.setItem(storageKey, job.id);
+        }
+        if (signal.aborted) return;
+        setActiveJob({ id: job.id, storageKey });
         
-        const response = await axios.post('/api/generate-future', { 
-          image: normalizedImage 
-        });
+        // Poll until the job finishes, following its real stages
+        while (job.status === 'queued' || job.status === 'running') {
+          setProcessingStep(getJobStep(job));
+          await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+          if (signal.aborted) return;
+          
+          const polled: FutureJobResponse | null = await fetchJob(job.id);
+          if (!polled) {
+            throw new Error('Projection job no longer exists');
+          }
+          job = polled;
+        }
+        if (signal.aborted) return;
         
-        // Clear the timers if the response comes back quickly
-        clearTimeout(timer1);
-        clearTimeout(timer2);
+        if (job.status !== 'succeeded' || !job.result) {
+          sessionStorage.removeItem(storageKey);
+          throw new Error(job.error || `Projection job ${job.status}`);
+        }
         
         setProcessingStep(4);
         
-        setFutureImage(response.data.futureImage);
-        setFutureData(response.data.analysis);
+        setFutureImage(job.result.futureImage);
+        setFutureData(job.result.analysis);
+        setProvenance({ analysis: getFutureProvenance(job.result), image: getFutureImageProvenance(job.result) });
+        
+        // A stale projection is replaced once the server has refreshed it (after reconnecting when offline)
+        if (job.result._meta && STALE_RESPONSE_STATUSES.includes(job.result._meta.status)) {
+          scheduleRevalidation('future', storageKey, async () => {
+            const refreshed = await requestFutureProjection({ ...request, revalidate: true }, { signal });
+            if (!STALE_RESPONSE_STATUSES.includes(refreshed._meta?.status || '')) {
+              setFutureImage(refreshed.futureImage);
+              setFutureData(refreshed.analysis);
+              setProvenance({ analysis: getFutureProvenance(refreshed), image: getFutureImageProvenance(refreshed) });
+            }
+          });
+        }
         
         setTimeout(() => {
           setLoading(false);
           setActiveView('future'); // Automatically switch to future view when loaded
         }, 500);
       } catch (err) {
+        if (signal.aborted) return;
         console.error('Error generating future projection:', err);
-        setError('Échec de la génération de la projection future. Veuillez réessayer.');
+        setError('future.error.failed');
         setLoading(false);
       }
     };
     
     getImageAndGenerateFuture();
-  }, [imageId, imageKey, isMounted])
+    
+    return () => controller.abort();
+  }, [imageId, imageKey, isMounted, horizonYears, locale])
   
   const toggleView = () => {
     setActiveView(activeView === 'current' ? 'future' : 'current')
@@ -121,16 +230,30 @@ export default function Future() {
   const getProcessingMessage = (step: number) => {
     switch (step) {
       case 1:
-        return 'Analyse de l\'image en cours...'
+        return t('future.step.analysis')
       case 2:
-        return 'Prédiction de la croissance végétative...'
+        return t('future.step.generation')
       case 3:
-        return 'Génération de la projection future...'
+        return t('future.step.growth')
       case 4:
-        return 'Finalisation de l\'analyse...'
+        return t('future.step.finalizing')
       default:
-        return 'Traitement en cours...'
+        return t('future.step.queued')
+    }
+  }
+  
+  // Cancel the running projection and go back to the analysis
+  const cancelProjection = async () => {
+    if (activeJob) {
+      sessionStorage.removeItem(activeJob.storageKey);
+      try {
+        await cancelFutureJob(activeJob.id);
+      } catch (err) {
+        // The job may have finished meanwhile; nothing left to cancel
+        console.warn('Could not cancel projection job:', err);
+      }
     }
+    goToAnalysis();
   }
   
   const goToHome = () => {
@@ -155,8 +278,8 @@ export default function Future() {
   return (
     <Layout>
       <Head>
-        <title>ÉnergIA - Projection future</title>
-        <meta name="description" content="Projection future de la croissance végétative" />
+        <title>{t('future.title')}</title>
+        <meta name="description" content={t('future.description')} />
       </Head>
       
       <div className="container mx-auto px-4 py-8">
@@ -168,7 +291,7 @@ export default function Future() {
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
             </svg>
-            Retour à l'accueil
+            {t('common.backHome')}
           </button>
           
           <button
@@ -178,34 +301,65 @@ export default function Future() {
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
             </svg>
-            Retour à l'analyse
+            {t('common.backToAnalysis')}
           </button>
         </div>
         
-        <h1 className="text-2xl font-bold mb-6">Projection de croissance végétative</h1>
+        <h1 className="text-2xl font-bold mb-6">{t('future.heading')}</h1>
+        
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">{t('future.horizon')}</span>
+          {PROJECTION_HORIZONS.map(horizon => (
+            <button
+              key={horizon}
+              onClick={() => setHorizonYears(horizon)}
+              disabled={loading}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-50 ${
+                horizon === horizonYears
+                  ? 'bg-amber-600 text-white'
+                  : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
+            >
+              {formatHorizon(horizon, locale)}
+            </button>
+          ))}
+        </div>
         
         {!isMounted ? (
           // Simple loading placeholder while client-side code initializes
           <div className="flex items-center justify-center min-h-[60vh]">
             <div className="text-center p-8">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mx-auto mb-4"></div>
-              <p className="text-secondary-600">Chargement de l'interface...</p>
+              <p className="text-secondary-600">{t('common.loadingInterface')}</p>
             </div>
           </div>
         ) : loading ? (
           <div className="flex flex-col items-center justify-center py-10">
-            <ProcessingAnimation step={processingStep} totalSteps={4} />
+            <ProcessingAnimation
+              autoProgress={false}
+              step={processingStep}
+              totalSteps={5}
+              customSteps={[0, 1, 2, 3, 4].map(getProcessingMessage)}
+            />
             <p className="mt-4 text-lg font-medium">{getProcessingMessage(processingStep)}</p>
+            {activeJob && (
+              <button
+                onClick={cancelProjection}
+                className="mt-4 px-4 py-2 rounded-md bg-gray-100 text-gray-800 font-medium hover:bg-gray-200 transition-colors"
+              >
+                {t('future.cancel')}
+              </button>
+            )}
           </div>
         ) : error ? (
           <div className="bg-red-100 text-red-700 p-4 rounded-md">
-            <p className="font-bold">Erreur:</p>
-            <p>{error}</p>
+            <p className="font-bold">{t('common.error')}:</p>
+            <p>{t(error)}</p>
             <button
               onClick={() => router.back()}
               className="mt-4 bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
             >
-              Retour
+              {t('common.back')}
             </button>
           </div>
         ) : (
@@ -220,13 +374,13 @@ export default function Future() {
                       : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
                   }`}
                 >
-                  {activeView === 'current' ? 'Voir projection future' : 'Voir état actuel'}
+                  {activeView === 'current' ? t('future.viewFuture') : t('future.viewCurrent')}
                 </button>
                 <button 
                   onClick={switchViewMode}
                   className="px-4 py-2 rounded-md bg-gray-100 text-gray-800 font-medium hover:bg-gray-200 transition-colors"
                 >
-                  {viewMode === 'toggle' ? 'Vue côte à côte' : 'Vue comparaison'}
+                  {viewMode === 'toggle' ? t('future.sideBySide') : t('future.comparison')}
                 </button>
               </div>
               
@@ -236,12 +390,14 @@ export default function Future() {
                   futureImage={futureImage}
                   viewMode={viewMode}
                   activeView={activeView}
+                  projectionYear={addHorizon(captureDate, horizonYears).getFullYear()}
+                  futureProvenance={provenance?.image}
                 />
               )}
               
               <div className="mt-4 bg-blue-50 p-3 rounded-md">
                 <p className="text-sm text-blue-800">
-                  <span className="font-medium">Comment interpréter:</span> Cette simulation montre la croissance potentielle de la végétation sur 5 ans et son impact sur les infrastructures électriques.
+                  <span className="font-medium">{t('future.howToRead')}</span> {t('future.howToReadText', { horizon: formatHorizon(horizonYears, locale) })}
                 </p>
               </div>
             </div>
@@ -250,6 +406,7 @@ export default function Future() {
               <FutureInfoPanel 
                 data={futureData} 
                 viewMode={activeView}
+                provenance={provenance?.analysis}
               />
             </div>
           </div>
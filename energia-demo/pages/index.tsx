@@ -5,11 +5,13 @@ import { motion } from 'framer-motion'
 import dynamic from 'next/dynamic'
 import Layout from '../components/Layout'
 import InfoPanel from '../components/InfoPanel'
+import { useI18n } from '../lib/i18n/react'
 
 // Import Map component with client-side only rendering
 const Map = dynamic(() => import('../components/Map'), { ssr: false })
 
 const Home: NextPage = () => {
+  const { t } = useI18n()
   const [isMounted, setIsMounted] = useState(false)
   
   // Only render client-specific components after mount
@@ -24,7 +26,7 @@ const Home: NextPage = () => {
   }
   
   return (
-    <Layout title="ÉnergIA - Accueil">
+    <Layout title={t('home.title')}>
       <div className="container mx-auto p-4">
         <motion.div
           initial={{ opacity: 0, y: -10 }}
@@ -33,10 +35,10 @@ const Home: NextPage = () => {
           className="mb-6"
         >
           <h1 className="text-2xl md:text-3xl font-bold text-secondary-800 mb-2 font-display">
-            Bienvenue sur ÉnergIA
+            {t('home.heading')}
           </h1>
           <p className="text-secondary-600 max-w-2xl">
-            Analysez l'infrastructure électrique et visualisez l'impact futur de la végétation
+            {t('home.subtitle')}
           </p>
         </motion.div>
 
@@ -51,12 +53,12 @@ const Home: NextPage = () => {
           
           <div className="mt-6">
             <h2 className="text-xl font-bold text-secondary-800 mb-4">
-              Information sur la zone
+              {t('home.zoneInfo')}
             </h2>
             
             {isMounted ? (
               <InfoPanel location={{
-                name: "Montréal - Centre-Ville",
+                name: t('home.defaultZone'),
                 coordinates: defaultLocation,
                 status: "normal",
                 vegetation: 35
@@ -82,7 +84,7 @@ const Home: NextPage = () => {
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M4 5a2 2 0 00-2 2v8a2 2 0 002 2h12a2 2 0 002-2V7a2 2 0 00-2-2h-1.586a1 1 0 01-.707-.293l-1.121-1.121A2 2 0 0011.172 3H8.828a2 2 0 00-1.414.586L6.293 4.707A1 1 0 015.586 5H4zm6 9a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
             </svg>
-            Capture d'image
+            {t('home.captureCta')}
           </Link>
         </motion.div>
       </div>